@@ -31,6 +31,7 @@ export default function BigMoversAlert() {
     oldValue: "2.5",
     newValue: "3.5",
     movement: "1.0",
+    unit: "points",
   };
 
   const displayMover = bigMovers?.[0] || mockBigMover;
@@ -48,7 +49,7 @@ export default function BigMoversAlert() {
             </h3>
             <p className="text-sm text-accent/80" data-testid="text-alert-description">
               {bigMovers?.length ? (
-                `${displayMover.game.awayTeam} @ ${displayMover.game.homeTeam} ${displayMover.market} moved ${displayMover.movement} points`
+                `${displayMover.game.awayTeam} @ ${displayMover.game.homeTeam} ${displayMover.market} moved ${displayMover.movement}${displayMover.unit === "probability" ? "% implied" : " points"}`
               ) : (
                 "Sample: Chiefs spread moved from -2.5 to -3.5 in the last hour"
               )}
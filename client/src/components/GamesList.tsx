@@ -6,7 +6,53 @@ import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { Button } from "@/components/ui/button";
 import { Heart, BarChart3, RefreshCw } from "lucide-react";
-import type { Game, UserFavorite } from "@shared/schema";
+import type { Game, Odds, UserFavorite } from "@shared/schema";
+
+type BestOdds = Odds & { bookmakerTitle: string | null };
+
+const formatPrice = (price: string | null) => {
+  if (price == null) return "—";
+  const n = parseFloat(price);
+  return n > 0 ? `+${n}` : `${n}`;
+};
+
+/** Best moneyline per outcome across books; soccer's three-way line adds a draw row. */
+function MoneylineTile({ game }: { game: Game }) {
+  const { data: quotes = [] } = useQuery<BestOdds[]>({
+    queryKey: ["/api/games", game.id, "best-odds", "h2h"],
+  });
+
+  // Rows arrive best price first, so each outcome's first row is its best
+  const best = (outcomeType: string) => quotes.find((q) => q.outcomeType === outcomeType);
+  const sides = [
+    { label: game.awayTeam, quote: best("away") },
+    { label: "Draw", quote: best("draw") },
+    { label: game.homeTeam, quote: best("home") },
+  ].filter((side) => side.label !== "Draw" || side.quote);
+
+  return (
+    <div className="text-center bg-gradient-to-br from-purple-50 to-pink-50 dark:from-purple-900/20 dark:to-pink-900/20 rounded-xl p-4 border-2 border-purple-200/50 dark:border-purple-500/30">
+      <div className="text-purple-700 dark:text-purple-400 font-bold text-sm mb-2">💰 MONEYLINE</div>
+      {quotes.length === 0 ? (
+        <>
+          <div className="text-2xl font-black text-purple-800 dark:text-purple-300 mb-1">-</div>
+          <div className="text-sm text-purple-600 dark:text-purple-400">No prices yet</div>
+        </>
+      ) : (
+        <div className="space-y-1" data-testid={`moneyline-${game.id}`}>
+          {sides.map(({ label, quote }) => (
+            <div key={label} className="flex justify-between text-sm text-purple-700 dark:text-purple-300">
+              <span className="truncate mr-2">{label}</span>
+              <span className="font-mono font-bold" title={quote?.bookmakerTitle ?? undefined}>
+                {formatPrice(quote?.price ?? null)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
 
 export default function GamesList() {
   const [selectedSport, setSelectedSport] = useState("americanfootball_nfl");
@@ -220,11 +266,7 @@ export default function GamesList() {
                     <div className="text-sm text-blue-600 dark:text-blue-400">Coming Soon</div>
                   </div>
                   
-                  <div className="text-center bg-gradient-to-br from-purple-50 to-pink-50 dark:from-purple-900/20 dark:to-pink-900/20 rounded-xl p-4 border-2 border-purple-200/50 dark:border-purple-500/30">
-                    <div className="text-purple-700 dark:text-purple-400 font-bold text-sm mb-2">💰 MONEYLINE</div>
-                    <div className="text-2xl font-black text-purple-800 dark:text-purple-300 mb-1">-</div>
-                    <div className="text-sm text-purple-600 dark:text-purple-400">Coming Soon</div>
-                  </div>
+                  <MoneylineTile game={game} />
                 </div>
               </div>
             ))}
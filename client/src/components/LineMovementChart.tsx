@@ -1,72 +1,126 @@
 import { useQuery } from "@tanstack/react-query";
-import type { LineMovement } from "@shared/schema";
+import { formatDistanceToNow } from "date-fns";
+import type { Game, OddsSnapshot } from "@shared/schema";
 
-export default function LineMovementChart() {
-  // For demo purposes, using mock data. In real implementation, this would use a selected game
-  const mockGameId = "demo-game-1";
+interface LineQuote {
+  price: string | null;
+  point: string | null;
+  observedAt: string | null;
+}
+
+interface GameLine {
+  market: string;
+  bookmakerId: string;
+  outcomeType: string;
+  open: LineQuote | null;
+  current: LineQuote | null;
+  close: LineQuote | null;
+}
 
-  const { data: movements, isLoading } = useQuery<LineMovement[]>({
-    queryKey: ["/api/games", mockGameId, "movements"],
-    enabled: false, // Disabled for demo since we don't have real data yet
+const formatPoint = (point: string | null | undefined) => {
+  if (point == null) return "—";
+  const n = parseFloat(point);
+  return n > 0 ? `+${n}` : `${n}`;
+};
+
+export default function LineMovementChart({ gameId }: { gameId?: string }) {
+  // Without a selected game, follow the next upcoming one
+  const { data: games } = useQuery<Game[]>({
+    queryKey: ["/api/games"],
   });
+  const game = gameId ? games?.find((g) => g.id === gameId) : games?.[0];
+  const selectedId = gameId ?? game?.id;
+
+  const { data: lines, isLoading } = useQuery<GameLine[]>({
+    queryKey: ["/api/games", selectedId, "lines"],
+    enabled: Boolean(selectedId),
+  });
+
+  const { data: history } = useQuery<OddsSnapshot[]>({
+    queryKey: ["/api/games", selectedId, "odds", "history"],
+    enabled: Boolean(selectedId),
+  });
+
+  // Home spread at the first book we have an opener for
+  const line = lines?.find((l) => l.market === "spreads" && l.outcomeType === "home" && l.open);
+  const latest = line?.close ?? line?.current ?? null;
+  const points = (history ?? [])
+    .filter((s) => line && s.market === "spreads" && s.outcomeType === "home" && s.bookmakerId === line.bookmakerId && s.point != null)
+    .slice(-6)
+    .map((s) => ({ time: s.observedAt, value: parseFloat(s.point!) }));
 
-  // Mock data for demonstration
-  const mockMovements = [
-    { time: "6h ago", value: 40 },
-    { time: "4h ago", value: 55 },
-    { time: "2h ago", value: 48 },
-    { time: "1h ago", value: 62 },
-    { time: "30m ago", value: 70 },
-    { time: "Now", value: 85 },
-  ];
+  const values = points.map((p) => p.value);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const movement = line?.open?.point != null && latest?.point != null
+    ? parseFloat(latest.point) - parseFloat(line.open.point)
+    : null;
 
   return (
     <div className="bg-card rounded-lg border border-border shadow-sm">
       <div className="px-6 py-4 border-b border-border">
         <h3 className="text-lg font-semibold">Line Movement</h3>
-        <p className="text-sm text-muted-foreground">Sample Game - Spread</p>
+        <p className="text-sm text-muted-foreground">
+          {game ? `${game.awayTeam} @ ${game.homeTeam}` : "No game selected"}
+          {line ? ` - Spread (${line.bookmakerId})` : ""}
+        </p>
       </div>
-      
+
       <div className="p-6">
         {isLoading ? (
           <div className="h-32 bg-muted animate-pulse rounded-lg mb-4" />
+        ) : points.length === 0 ? (
+          <div className="h-32 bg-muted/20 rounded-lg mb-4 flex items-center justify-center text-sm text-muted-foreground">
+            No spread history yet
+          </div>
         ) : (
           <div className="relative h-32 bg-muted/20 rounded-lg mb-4 overflow-hidden">
             <div className="absolute inset-0 flex items-end justify-between px-2 pb-2">
-              {mockMovements.map((point, index) => (
+              {points.map((point, index) => (
                 <div
                   key={index}
                   className={`w-2 rounded-t transition-all duration-300 ${
-                    index === mockMovements.length - 1 ? "bg-primary" : "bg-primary/60"
+                    index === points.length - 1 ? "bg-primary" : "bg-primary/60"
                   }`}
-                  style={{ height: `${point.value}%` }}
+                  style={{ height: `${20 + ((point.value - min) / range) * 80}%` }}
                   data-testid={`chart-bar-${index}`}
                 />
               ))}
             </div>
           </div>
         )}
-        
+
         <div className="flex justify-between text-xs text-muted-foreground mb-4">
-          {mockMovements.map((point, index) => (
+          {points.map((point, index) => (
             <span key={index} data-testid={`chart-label-${index}`}>
-              {point.time}
+              {index === points.length - 1 ? "Now" : formatDistanceToNow(new Date(point.time), { addSuffix: true })}
             </span>
           ))}
         </div>
-        
+
         <div className="space-y-2">
           <div className="flex justify-between text-sm">
             <span>Opening Line:</span>
-            <span className="font-medium" data-testid="text-opening-line">Sample -2.5</span>
+            <span className="font-medium" data-testid="text-opening-line">{formatPoint(line?.open?.point)}</span>
           </div>
           <div className="flex justify-between text-sm">
             <span>Current Line:</span>
-            <span className="font-medium" data-testid="text-current-line">Sample -3.5</span>
+            <span className="font-medium" data-testid="text-current-line">{formatPoint(line?.current?.point)}</span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span>Closing Line:</span>
+            <span className="font-medium" data-testid="text-closing-line">
+              {line?.close ? formatPoint(line.close.point) : "Not closed"}
+            </span>
           </div>
           <div className="flex justify-between text-sm">
             <span>Movement:</span>
-            <span className="font-medium text-green-600" data-testid="text-movement">+1.0</span>
+            <span
+              className={`font-medium ${movement != null && movement < 0 ? "text-red-600" : "text-green-600"}`}
+              data-testid="text-movement"
+            >
+              {movement != null ? `${movement > 0 ? "+" : ""}${movement.toFixed(1)}` : "—"}
+            </span>
           </div>
         </div>
       </div>
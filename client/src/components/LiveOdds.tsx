@@ -0,0 +1,121 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Radio } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import type { Game, LiveOdds as LiveQuote } from "@shared/schema";
+
+interface LiveGame {
+  game: Game;
+  clockPeriod: string | null;
+  clock: string | null;
+  capturedAt: string;
+  odds: LiveQuote[];
+}
+
+const formatPrice = (price: string | null | undefined) => {
+  if (price == null) return "—";
+  const n = parseFloat(price);
+  return n > 0 ? `+${n}` : `${n}`;
+};
+
+const formatPoint = (point: string | null | undefined) => {
+  if (point == null) return "";
+  const n = parseFloat(point);
+  return n > 0 ? `+${n}` : `${n}`;
+};
+
+export default function LiveOdds() {
+  const { data: liveGames = [], isLoading } = useQuery<LiveGame[]>({
+    queryKey: ["/api/live/odds"],
+    refetchInterval: 15000, // In-play lines move fast
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Radio className="h-5 w-5 text-red-500" />
+          Live Odds
+        </CardTitle>
+        <CardDescription>
+          {isLoading
+            ? "Loading games in progress..."
+            : liveGames.length === 0
+              ? "No games in progress"
+              : `${liveGames.length} game${liveGames.length === 1 ? "" : "s"} in progress`}
+        </CardDescription>
+      </CardHeader>
+      {liveGames.length > 0 && (
+        <CardContent>
+          <div className="space-y-4">
+            {liveGames.map(({ game, clockPeriod, clock, capturedAt, odds: quotes }) => {
+              // The board carries every segment's markets; this card shows the full-game lines
+              const odds = quotes.filter((o) => o.period === "full_game");
+              const books = Array.from(new Set(odds.map((o) => o.bookmakerId))).sort();
+              const quote = (bookmakerId: string, market: string, outcomeType: string) =>
+                odds.find((o) => o.bookmakerId === bookmakerId && o.market === market && o.outcomeType === outcomeType);
+              // Three-way (soccer) games also price the draw
+              const hasDraw = odds.some((o) => o.market === "h2h" && o.outcomeType === "draw");
+
+              return (
+                <div key={game.id} className="border rounded-lg p-4" data-testid={`live-game-${game.id}`}>
+                  <div className="flex items-center justify-between mb-3">
+                    <div>
+                      <h4 className="font-semibold">
+                        {game.awayTeam} {game.awayScore ?? 0} @ {game.homeTeam} {game.homeScore ?? 0}
+                      </h4>
+                      <p className="text-xs text-muted-foreground">
+                        Updated {formatDistanceToNow(new Date(capturedAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{game.sportId}</Badge>
+                      {(clockPeriod || clock) && (
+                        <Badge className="bg-red-500 text-white" data-testid={`live-state-${game.id}`}>
+                          {[clockPeriod && `P${clockPeriod}`, clock].filter(Boolean).join(" · ")}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-muted-foreground text-xs">
+                        <th className="text-left font-medium">Book</th>
+                        <th className="text-right font-medium">Spread (home)</th>
+                        <th className="text-right font-medium">Total (over)</th>
+                        <th className="text-right font-medium">Moneyline (home)</th>
+                        {hasDraw && <th className="text-right font-medium">Draw</th>}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {books.map((book) => {
+                        const spread = quote(book, "spreads", "home");
+                        const total = quote(book, "totals", "over");
+                        const moneyline = quote(book, "h2h", "home");
+                        return (
+                          <tr key={book} data-testid={`live-book-${game.id}-${book}`}>
+                            <td className="py-1">{book}</td>
+                            <td className="text-right font-mono">
+                              {spread ? `${formatPoint(spread.point)} (${formatPrice(spread.price)})` : "—"}
+                            </td>
+                            <td className="text-right font-mono">
+                              {total ? `${total.point ?? ""} (${formatPrice(total.price)})` : "—"}
+                            </td>
+                            <td className="text-right font-mono">{formatPrice(moneyline?.price)}</td>
+                            {hasDraw && <td className="text-right font-mono">{formatPrice(quote(book, "h2h", "draw")?.price)}</td>}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
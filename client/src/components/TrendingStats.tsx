@@ -3,7 +3,7 @@ import { TrendingUp, BarChart3, Zap } from "lucide-react";
 
 interface ApiUsageResponse {
   requests_used: number;
-  requests_remaining: number;
+  requests_remaining: number | null; // null when no budget is configured
 }
 
 export default function TrendingStats() {
@@ -16,8 +16,8 @@ export default function TrendingStats() {
     biggestMover: "Sample -3.5",
     biggestMovement: "+1.5 points in 2h",
     activeGames: 24,
-    apiCallsUsed: usage?.requests_used || 347,
-    apiCallsRemaining: usage?.requests_remaining || 153,
+    apiCallsUsed: usage ? usage.requests_used : "—",
+    apiCallsRemaining: usage?.requests_remaining,
   };
 
   return (
@@ -71,7 +71,7 @@ export default function TrendingStats() {
               {stats.apiCallsUsed}
             </div>
             <p className="text-sm text-muted-foreground" data-testid="text-api-remaining">
-              {stats.apiCallsRemaining} remaining
+              {stats.apiCallsRemaining != null ? `${stats.apiCallsRemaining} remaining` : "No budget set"}
             </p>
           </div>
         </div>
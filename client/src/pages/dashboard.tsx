@@ -7,6 +7,7 @@ import GamesList from "@/components/GamesList";
 import SportsbookComparison from "@/components/SportsbookComparison";
 import LineMovementChart from "@/components/LineMovementChart";
 import BigMovers from "@/components/BigMovers";
+import LiveOdds from "@/components/LiveOdds";
 import QuickAlerts from "@/components/QuickAlerts";
 import TrendingStats from "@/components/TrendingStats";
 
@@ -75,6 +76,8 @@ export default function Dashboard() {
         
         <BigMovers />
         
+        <LiveOdds />
+        
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           <div className="lg:col-span-2">
             <GamesList />
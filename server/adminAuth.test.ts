@@ -0,0 +1,50 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { NextFunction, Request, Response } from "express";
+import { requireAdmin } from "./adminAuth.js";
+
+function call(authorization?: string) {
+  const req = { get: (name: string) => (name.toLowerCase() === "authorization" ? authorization : undefined) } as Request;
+  const sent: { status?: number; body?: unknown; next: boolean } = { next: false };
+  const res = {
+    status(code: number) {
+      sent.status = code;
+      return this;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return this;
+    },
+  } as unknown as Response;
+  requireAdmin(req, res, (() => { sent.next = true; }) as NextFunction);
+  return sent;
+}
+
+describe("requireAdmin", () => {
+  const original = process.env.ADMIN_TOKEN;
+  afterEach(() => {
+    if (original === undefined) delete process.env.ADMIN_TOKEN;
+    else process.env.ADMIN_TOKEN = original;
+  });
+
+  it("keeps admin endpoints closed when no token is configured", () => {
+    delete process.env.ADMIN_TOKEN;
+    const sent = call("Bearer anything");
+    assert.equal(sent.status, 403);
+    assert.equal(sent.next, false);
+  });
+
+  it("rejects a missing or wrong bearer token", () => {
+    process.env.ADMIN_TOKEN = "s3cret";
+    assert.equal(call().status, 401);
+    assert.equal(call("Bearer s3cre").status, 401);
+    assert.equal(call("s3cret").status, 401);
+  });
+
+  it("passes the request on with the right token", () => {
+    process.env.ADMIN_TOKEN = "s3cret";
+    const sent = call("Bearer s3cret");
+    assert.equal(sent.next, true);
+    assert.equal(sent.status, undefined);
+  });
+});
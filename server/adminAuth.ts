@@ -0,0 +1,21 @@
+import { timingSafeEqual } from "node:crypto";
+import type { RequestHandler } from "express";
+
+/**
+ * Guard for /api/_admin endpoints that change registry data or re-run ingestion. Callers send
+ * `Authorization: Bearer <ADMIN_TOKEN>`; with no ADMIN_TOKEN configured the endpoints stay closed.
+ */
+export const requireAdmin: RequestHandler = (req, res, next) => {
+  const expected = process.env.ADMIN_TOKEN;
+  if (!expected) {
+    return res.status(403).json({ message: "Admin endpoints are disabled; set ADMIN_TOKEN to enable them" });
+  }
+
+  const header = req.get("authorization") ?? "";
+  const token = Buffer.from(header.startsWith("Bearer ") ? header.slice(7) : "");
+  const want = Buffer.from(expected);
+  if (token.length !== want.length || !timingSafeEqual(token, want)) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  next();
+};
@@ -0,0 +1,88 @@
+// Manage the raw response archive written when ODDS_RECORD_DIR is set.
+//
+//   tsx server/debug/recordings.ts list [--provider espn] [--limit 50]
+//   tsx server/debug/recordings.ts prune --days 7
+//   tsx server/debug/recordings.ts export <frameDir> [--provider espn] [--since 2024-09-08T17:00:00Z]
+//
+// `export` writes the latest successful response per request into <frameDir>/<provider>/<key>.json,
+// i.e. one replay frame for ODDS_REPLAY_DIR.
+
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { getRecordDir, listRecordings, pruneRecordings, readRecordingBody, type Recording } from "../services/responseRecorder.js";
+
+function flag(args: string[], name: string): string | undefined {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+function filterRecordings(all: Recording[], args: string[]): Recording[] {
+  const provider = flag(args, "provider");
+  const since = flag(args, "since");
+  return all.filter(
+    (r) => (!provider || r.provider === provider) && (!since || new Date(r.recordedAt) >= new Date(since)),
+  );
+}
+
+function list(dir: string, args: string[]) {
+  const limit = Number(flag(args, "limit") ?? 50);
+  const recordings = filterRecordings(listRecordings(dir), args);
+  for (const r of recordings.slice(-limit)) {
+    console.log(`${r.recordedAt}  ${r.provider.padEnd(12)} ${r.status}  ${String(r.bytes).padStart(8)}B  ${r.sha256.slice(0, 12)}  ${r.url}`);
+  }
+  const objects = new Set(recordings.map((r) => r.sha256)).size;
+  console.log(`\n${recordings.length} recordings, ${objects} distinct bodies in ${dir}`);
+}
+
+function prune(dir: string, args: string[]) {
+  const days = Number(flag(args, "days"));
+  if (!Number.isFinite(days) || days < 0) {
+    console.error("prune requires --days <n>");
+    process.exit(1);
+  }
+  const removed = pruneRecordings(dir, new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+  console.log(`Removed ${removed.entries} index entries and ${removed.objects} objects older than ${days} days`);
+}
+
+function exportFrame(dir: string, args: string[]) {
+  const out = args[0];
+  if (!out || out.startsWith("--")) {
+    console.error("export requires a frame directory");
+    process.exit(1);
+  }
+
+  const latest = new Map<string, Recording>();
+  for (const r of filterRecordings(listRecordings(dir), args)) {
+    if (r.status >= 200 && r.status < 300) latest.set(`${r.provider}/${r.fixtureKey}`, r);
+  }
+
+  for (const [name, r] of latest) {
+    const file = path.join(out, `${name}.json`);
+    mkdirSync(path.dirname(file), { recursive: true });
+    writeFileSync(file, readRecordingBody(dir, r));
+  }
+  console.log(`Wrote ${latest.size} fixtures to ${out}`);
+}
+
+const [command, ...args] = process.argv.slice(2);
+const dir = flag(args, "dir") ?? getRecordDir();
+
+if (!dir) {
+  console.error("Set ODDS_RECORD_DIR or pass --dir <path>");
+  process.exit(1);
+}
+
+switch (command) {
+  case "list":
+    list(dir, args);
+    break;
+  case "prune":
+    prune(dir, args);
+    break;
+  case "export":
+    exportFrame(dir, args);
+    break;
+  default:
+    console.error("Usage: recordings.ts <list|prune|export> [options]");
+    process.exit(1);
+}
@@ -0,0 +1,85 @@
+import { after, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { SyncSchedule } from "@shared/schema.js";
+import { startTestDatabase } from "../testDatabase.js";
+
+const database = await startTestDatabase();
+after(() => database.stop());
+const { OddsSyncJob, planNextRun } = await import("./syncOdds.js");
+const { storage } = await import("../storage.js");
+
+const schedule: SyncSchedule = {
+  sport: "NFL",
+  enabled: true,
+  preferredSource: "ESPN",
+  nearWindowMinutes: 120,
+  nearIntervalSeconds: 60,
+  dayIntervalSeconds: 600,
+  farIntervalSeconds: 3600,
+  offseasonDays: 14,
+  pausedIntervalSeconds: 86400,
+  liveEnabled: false,
+  liveIntervalSeconds: 30,
+  propsEnabled: false,
+  futuresEnabled: false,
+  nextRunAt: null,
+  lastRunAt: null,
+  lastReason: null,
+  updatedAt: null,
+};
+
+const now = new Date("2024-09-08T12:00:00Z");
+const hoursFromNow = (h: number) => new Date(now.getTime() + h * 60 * 60 * 1000);
+const secondsUntil = (plan: { nextRunAt: Date }) => (plan.nextRunAt.getTime() - now.getTime()) / 1000;
+
+describe("planNextRun", () => {
+  it("picks the tier by how far off the next game is", () => {
+    assert.equal(secondsUntil(planNextRun(schedule, hoursFromNow(1), now)), 60);
+    assert.equal(secondsUntil(planNextRun(schedule, hoursFromNow(12), now)), 600);
+    assert.equal(secondsUntil(planNextRun(schedule, hoursFromNow(24 * 5), now)), 3600);
+  });
+
+  it("pauses with no game on the schedule or none inside the offseason window", () => {
+    const none = planNextRun(schedule, null, now);
+    assert.equal(secondsUntil(none), 86400);
+    assert.equal(none.reason, "paused: no upcoming games");
+
+    const far = planNextRun(schedule, hoursFromNow(24 * 30), now);
+    assert.equal(secondsUntil(far), 86400);
+    assert.match(far.reason, /^paused: next game/);
+  });
+
+  it("caps every tier but the pause at maxIntervalSeconds", () => {
+    assert.equal(secondsUntil(planNextRun(schedule, hoursFromNow(24 * 5), now, 900)), 900);
+    assert.equal(secondsUntil(planNextRun(schedule, hoursFromNow(1), now, 900)), 60);
+    assert.equal(secondsUntil(planNextRun(schedule, null, now, 900)), 86400);
+  });
+});
+
+describe("syncAllSports", () => {
+  beforeEach(() => database.reset());
+
+  it("skips the run while another instance holds the scheduler lease", async (t) => {
+    const job = new OddsSyncJob();
+    const other = new OddsSyncJob();
+    const { name } = await job.getLockStatus();
+    await storage.tryAcquireLease(name, other.instanceId, "other-host", 60_000);
+    const getSchedules = t.mock.method(job, "getSchedules", async () => []);
+
+    assert.equal(await job.syncAllSports(), null);
+    assert.equal(getSchedules.mock.callCount(), 0);
+    assert.equal((await job.getLockStatus()).isSelf, false);
+    assert.equal((await other.getLockStatus()).isSelf, true);
+  });
+
+  it("borrows the lease for a manual run and hands it back afterwards", async (t) => {
+    const job = new OddsSyncJob();
+    t.mock.method(job, "getSchedules", async () => {
+      assert.equal((await job.getLockStatus()).isSelf, true);
+      return [];
+    });
+
+    assert.deepEqual(await job.syncAllSports(), []);
+    assert.equal((await job.getLockStatus()).held, false);
+  });
+});
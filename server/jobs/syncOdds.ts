@@ -1,200 +1,257 @@
+import os from "node:os";
+import { randomUUID } from "node:crypto";
+import { emptySyncResult, syncFromProviders, type SyncResult, type SyncTrigger } from "../services/oddsPipeline.js";
 import { storage } from "../storage.js";
-import { getNflOddsToday, transformEspnToDbFormat } from "../services/espnOdds.js";
-import { sportsDataIoService } from "../services/sportsDataIoApi.js";
-
-interface SyncResult {
-  source: string;
-  sport: string;
-  gamesUpdated: number;
-  oddsUpdated: number;
-  booksUpdated: number;
-  errors: string[];
-  timestamp: Date;
+import { countParam } from "../queryParams.js";
+import { RESULT_SOURCES, syncResults } from "../services/gameResults.js";
+import { LIVE_SOURCES, syncLiveOdds } from "../services/liveOdds.js";
+import { PROP_SOURCES, syncPlayerProps } from "../services/playerProps.js";
+import { FUTURES_MIN_INTERVAL_MS, FUTURES_SOURCES, syncFutures } from "../services/futures.js";
+import { providerUsageTracker, type BudgetState } from "../services/providerUsage.js";
+import { insertSyncScheduleSchema, type SyncSchedule } from "@shared/schema.js";
+
+// Fallback order after a sport's preferred source
+const DEFAULT_SOURCES = ['SportsDataIO', 'ESPN'];
+
+// Seeded into sync_schedules on first start; everything else about a schedule uses the column defaults
+const DEFAULT_SCHEDULES = [
+  { sport: 'NFL', preferredSource: 'ESPN' },
+  { sport: 'NBA', preferredSource: 'SportsDataIO' },
+  { sport: 'MLB', preferredSource: 'SportsDataIO' },
+  { sport: 'NHL', preferredSource: 'SportsDataIO' },
+];
+
+// While SportsDataIO is near its budget: only these sports, at DEGRADED_INTERVAL_FACTOR x their interval.
+// Once it's exhausted it's dropped from the sources entirely (ESPN is free).
+const DEGRADED_SPORTS = ['NFL', 'NBA'];
+const DEGRADED_INTERVAL_FACTOR = 3;
+
+// How often the scheduler looks for due sports
+const SCHEDULER_TICK_MS = 30 * 1000;
+// Only the instance holding this lease runs scheduled syncs. The TTL outlives several ticks,
+// so a dead holder is replaced within SCHEDULER_LEASE_TTL_MS.
+const SCHEDULER_LEASE = 'odds-sync-scheduler';
+const SCHEDULER_LEASE_TTL_MS = 2 * 60 * 1000;
+// A pass can take longer than the TTL (one slow sport is enough), so it renews on a timer while it runs
+const SCHEDULER_LEASE_RENEW_MS = SCHEDULER_LEASE_TTL_MS / 3;
+
+// Games that kicked off this recently (and aren't completed) count as under way for live captures
+const IN_PROGRESS_WINDOW_MS = 4 * 60 * 60 * 1000;
+// The scheduler freezes closers and settles results for games that started within this window;
+// anything older is left for a manual results sync
+const RESULTS_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * When to sync a sport next, given its next game that hasn't started. Games under way don't
+ * count: pregame syncs skip them, and their in-play odds run on the live schedule instead.
+ * `maxIntervalSeconds` caps every tier except the offseason pause.
+ */
+export function planNextRun(
+  schedule: SyncSchedule,
+  nextGameAt: Date | null,
+  now: Date = new Date(),
+  maxIntervalSeconds?: number
+): { nextRunAt: Date; reason: string } {
+  const at = (seconds: number) => new Date(now.getTime() + seconds * 1000);
+  const capped = (seconds: number) => Math.min(seconds, maxIntervalSeconds ?? Infinity);
+
+  if (!nextGameAt) {
+    return { nextRunAt: at(schedule.pausedIntervalSeconds), reason: 'paused: no upcoming games' };
+  }
+
+  const untilMs = nextGameAt.getTime() - now.getTime();
+  if (untilMs <= schedule.nearWindowMinutes * 60 * 1000) {
+    return { nextRunAt: at(capped(schedule.nearIntervalSeconds)), reason: `game within ${schedule.nearWindowMinutes}m` };
+  }
+  if (untilMs <= 24 * 60 * 60 * 1000) {
+    return { nextRunAt: at(capped(schedule.dayIntervalSeconds)), reason: 'game within 24h' };
+  }
+  if (untilMs <= schedule.offseasonDays * 24 * 60 * 60 * 1000) {
+    return { nextRunAt: at(capped(schedule.farIntervalSeconds)), reason: `next game ${nextGameAt.toISOString()}` };
+  }
+  return { nextRunAt: at(schedule.pausedIntervalSeconds), reason: `paused: next game ${nextGameAt.toISOString()}` };
 }
 
 export class OddsSyncJob {
   private isRunning = false;
   private lastSync: Date | null = null;
   private syncInterval: NodeJS.Timeout | null = null;
+  private maxIntervalSeconds: number | undefined;
+  private budgetState: BudgetState = 'ok';
+  private schedulesSeeded = false;
+  private isLeader = false;
+  // Live captures run on their own cadence, in memory only: a restart just captures right away
+  private liveNextRunAt = new Map<string, Date>();
+  private futuresLastRunAt = new Map<string, Date>();
+  readonly instanceId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  async syncOddsForSport(
+    sport: string,
+    preferredSource?: string | null,
+    available: string[] = DEFAULT_SOURCES,
+    trigger: SyncTrigger = 'manual'
+  ): Promise<SyncResult> {
+    const sources = preferredSource && available.includes(preferredSource)
+      ? [preferredSource, ...available.filter(s => s !== preferredSource)]
+      : available;
+    return syncFromProviders(sport, sources, { limit: 50, trigger });
+  }
 
-  async syncOddsForSport(sport: string, preferredSource?: string): Promise<SyncResult> {
-    const result: SyncResult = {
-      source: 'none',
-      sport,
-      gamesUpdated: 0,
-      oddsUpdated: 0,
-      booksUpdated: 0,
-      errors: [],
-      timestamp: new Date()
-    };
+  private async refreshBudgetState(): Promise<BudgetState> {
+    try {
+      const [sdio] = await providerUsageTracker.getBudgets(['sportsdataio']);
+      this.budgetState = sdio.state;
+    } catch (error: any) {
+      console.warn(`⚠️  Could not check provider budgets: ${error.message}`);
+    }
+    return this.budgetState;
+  }
 
-    let data: any[] = [];
+  /** Persisted schedules, seeding the defaults the first time. */
+  async getSchedules(): Promise<SyncSchedule[]> {
+    if (!this.schedulesSeeded) {
+      await storage.seedSyncSchedules(DEFAULT_SCHEDULES);
+      this.schedulesSeeded = true;
+    }
+    return storage.getSyncSchedules();
+  }
 
-    // Try preferred source first
-    if (preferredSource === 'ESPN' && sport === 'NFL') {
-      try {
-        const espnData = await getNflOddsToday();
-        data = transformEspnToDbFormat(espnData, sport);
-        result.source = 'ESPN';
-      } catch (error: any) {
-        result.errors.push(`ESPN: ${error.message}`);
-      }
-    } else if (preferredSource === 'SportsDataIO') {
-      try {
-        data = await sportsDataIoService.getOdds(sport, 50);
-        result.source = 'SportsDataIO';
-      } catch (error: any) {
-        result.errors.push(`SportsDataIO: ${error.message}`);
-      }
+  async updateSchedule(sport: string, changes: unknown): Promise<SyncSchedule> {
+    const parsed = insertSyncScheduleSchema.partial().parse(changes);
+    // nextRunAt cleared so the next tick re-plans with the new settings
+    return storage.upsertSyncSchedule({ ...parsed, sport: sport.toUpperCase(), nextRunAt: null });
+  }
+
+  /**
+   * For games that have kicked off: freeze their closing lines, then settle results for the
+   * unfinished ones so odds stop for games that ended.
+   */
+  private async settleStartedGames(sport: string, sources: string[]): Promise<void> {
+    const now = new Date();
+    const frozen = await storage.freezeClosingLines(sport, now, new Date(now.getTime() - RESULTS_WINDOW_MS));
+    if (frozen > 0) console.log(`  🔒 ${sport}: froze ${frozen} closing lines`);
+
+    const awaiting = await storage.getGamesAwaitingResults(sport, now, new Date(now.getTime() - RESULTS_WINDOW_MS));
+    if (awaiting.length === 0) return;
+
+    const result = await syncResults(sport, RESULT_SOURCES.filter(s => sources.includes(s)), { from: awaiting[0].commenceTime, to: now });
+    if (result.gamesUpdated > 0) {
+      console.log(`  🏁 ${sport}: ${result.gamesUpdated} results updated (${result.gamesFinalized} final) from ${result.source}`);
+    } else if (result.errors.length > 0) {
+      console.log(`  ⚠️  ${sport}: Results sync failed (${result.errors[0]})`);
     }
+  }
 
-    // Fallback logic
-    if (data.length === 0) {
-      // Try SportsDataIO as primary
-      if (result.source !== 'SportsDataIO') {
-        try {
-          data = await sportsDataIoService.getOdds(sport, 50);
-          result.source = 'SportsDataIO';
-        } catch (error: any) {
-          result.errors.push(`SportsDataIO fallback: ${error.message}`);
-        }
+  /** Props ride along with a sport's odds sync; a props failure never fails the odds run. */
+  private async syncProps(sport: string, sources: string[]): Promise<void> {
+    const propSources = PROP_SOURCES.filter(s => sources.includes(s));
+    if (propSources.length === 0) return;
+    try {
+      const result = await syncPlayerProps(sport, propSources);
+      if (result.propsUpdated > 0) {
+        console.log(`  🎯 ${sport}: ${result.propsUpdated} props (${result.snapshots} moved) for ${result.playersUpdated} players`);
+      } else if (result.errors.length > 0) {
+        console.log(`  ⚠️  ${sport}: Props sync failed (${result.errors[0]})`);
       }
+    } catch (error: any) {
+      console.error(`  ❌ ${sport}: Props sync error - ${error.message}`);
+    }
+  }
 
-      // Try ESPN as fallback for NFL
-      if (data.length === 0 && sport === 'NFL' && result.source !== 'ESPN') {
-        try {
-          const espnData = await getNflOddsToday();
-          data = transformEspnToDbFormat(espnData, sport);
-          result.source = 'ESPN';
-        } catch (error: any) {
-          result.errors.push(`ESPN fallback: ${error.message}`);
-        }
+  /** Futures ride along too, but at most every FUTURES_MIN_INTERVAL_MS per sport. */
+  private async syncFuturesIfDue(sport: string, sources: string[]): Promise<void> {
+    const last = this.futuresLastRunAt.get(sport);
+    const futuresSources = FUTURES_SOURCES.filter(s => sources.includes(s));
+    if ((last && Date.now() - last.getTime() < FUTURES_MIN_INTERVAL_MS) || futuresSources.length === 0) return;
+
+    this.futuresLastRunAt.set(sport, new Date());
+    try {
+      const result = await syncFutures(sport, futuresSources);
+      if (result.oddsUpdated > 0) {
+        console.log(`  🏆 ${sport}: ${result.marketsUpdated} futures markets, ${result.oddsUpdated} quotes (${result.snapshots} moved)`);
+      } else if (result.errors.length > 0) {
+        console.log(`  ⚠️  ${sport}: Futures sync failed (${result.errors[0]})`);
       }
+    } catch (error: any) {
+      console.error(`  ❌ ${sport}: Futures sync error - ${error.message}`);
     }
+  }
 
-    // Process and save data
-    if (data.length > 0) {
-      for (const event of data) {
-        try {
-          // Skip invalid events
-          if (!event.home_team || !event.away_team || !event.commence_time) {
-            continue;
-          }
-
-          // Upsert game
-          await storage.upsertGame({
-            id: event.id,
-            sportId: sport,
-            homeTeam: event.home_team,
-            awayTeam: event.away_team,
-            commenceTime: new Date(event.commence_time),
-            completed: event.completed || false,
-            homeScore: event.home_score ?? null,
-            awayScore: event.away_score ?? null,
-          });
-          result.gamesUpdated++;
-
-          // Process bookmakers and odds
-          for (const bookmaker of event.bookmakers || []) {
-            try {
-              await storage.upsertBookmaker({
-                id: bookmaker.key,
-                title: bookmaker.title,
-                lastUpdate: new Date(bookmaker.last_update || Date.now()),
-              });
-              result.booksUpdated++;
-
-              for (const market of bookmaker.markets || []) {
-                for (const outcome of market.outcomes || []) {
-                  let outcomeType = "";
-
-                  if (market.key === "h2h" || market.key === "moneyline") {
-                    outcomeType = outcome.name === event.home_team || 
-                                 outcome.name?.toLowerCase() === "home" ? "home" : "away";
-                  } else if (market.key === "spreads") {
-                    outcomeType = outcome.name === event.home_team || 
-                                 outcome.name?.toLowerCase() === "home" ? "home" : "away";
-                  } else if (market.key === "totals") {
-                    outcomeType = outcome.name?.toLowerCase() === "over" || 
-                                 outcome.name?.toLowerCase().includes("over") ? "over" : "under";
-                  }
-
-                  if (outcomeType) {
-                    await storage.upsertOdds({
-                      gameId: event.id,
-                      bookmakerId: bookmaker.key,
-                      market: market.key,
-                      outcomeType,
-                      price: String(outcome.price || 0),
-                      point: outcome.point ? String(outcome.point) : null,
-                    });
-                    result.oddsUpdated++;
-                  }
-                }
-              }
-            } catch (error: any) {
-              result.errors.push(`Bookmaker ${bookmaker.key}: ${error.message}`);
-            }
-          }
-        } catch (error: any) {
-          result.errors.push(`Event ${event.id}: ${error.message}`);
-        }
+  private async runSport(schedule: SyncSchedule, sources: string[], trigger: SyncTrigger): Promise<SyncResult> {
+    try {
+      await this.settleStartedGames(schedule.sport, sources);
+      console.log(`  Syncing ${schedule.sport}...`);
+      const result = await this.syncOddsForSport(schedule.sport, schedule.preferredSource, sources, trigger);
+
+      if (result.gamesUpdated > 0) {
+        console.log(`  ✅ ${schedule.sport}: ${result.gamesUpdated} games, ${result.oddsUpdated} odds from ${result.source}`);
+      } else if (result.errors.length > 0) {
+        console.log(`  ⚠️  ${schedule.sport}: No data (${result.errors[0]})`);
+      } else {
+        console.log(`  ⚠️  ${schedule.sport}: No games found`);
       }
+      if (schedule.propsEnabled) await this.syncProps(schedule.sport, sources);
+      if (schedule.futuresEnabled) await this.syncFuturesIfDue(schedule.sport, sources);
+      return result;
+    } catch (error: any) {
+      console.error(`  ❌ ${schedule.sport}: Fatal error - ${error.message}`);
+      return { ...emptySyncResult('none', schedule.sport), errors: [error.message] };
     }
+  }
 
-    return result;
+  /** Sports to sync and sources to use, after budget degradation. */
+  private async plan(schedules: SyncSchedule[]): Promise<{ schedules: SyncSchedule[]; sources: string[] }> {
+    const budgetState = await this.refreshBudgetState();
+    if (budgetState === 'degraded') {
+      console.log(`⚠️  SportsDataIO near its budget; syncing ${DEGRADED_SPORTS.join(', ')} only`);
+      return { schedules: schedules.filter(s => DEGRADED_SPORTS.includes(s.sport)), sources: DEFAULT_SOURCES };
+    }
+    if (budgetState === 'exhausted') {
+      console.log('⚠️  SportsDataIO budget exhausted; syncing from free sources only');
+      return { schedules, sources: DEFAULT_SOURCES.filter(s => s !== 'SportsDataIO') };
+    }
+    return { schedules, sources: DEFAULT_SOURCES };
   }
 
-  async syncAllSports(): Promise<SyncResult[]> {
+  /**
+   * Sync every enabled sport now. Takes the scheduler lease like a scheduled pass, so it never
+   * overlaps another instance's sync; null when a sync is already running here or elsewhere.
+   */
+  async syncAllSports(trigger: SyncTrigger = 'manual'): Promise<SyncResult[] | null> {
     if (this.isRunning) {
       console.log('⚠️  Sync already in progress, skipping...');
-      return [];
+      return null;
     }
-
     this.isRunning = true;
+    if (!(await this.holdLease())) {
+      console.log('⚠️  Another instance holds the scheduler lease, skipping...');
+      this.isRunning = false;
+      return null;
+    }
+
     const results: SyncResult[] = [];
-    
-    const sports = [
-      { key: 'NFL', preferredSource: 'ESPN' },
-      { key: 'NBA', preferredSource: 'SportsDataIO' },
-      { key: 'MLB', preferredSource: 'SportsDataIO' },
-      { key: 'NHL', preferredSource: 'SportsDataIO' },
-    ];
+    const renewal = this.renewLeaseWhileRunning();
 
-    console.log(`🔄 Starting odds sync at ${new Date().toISOString()}`);
+    try {
+      const enabled = (await this.getSchedules()).filter(s => s.enabled);
+      const { schedules, sources } = await this.plan(enabled);
 
-    for (const sport of sports) {
-      try {
-        console.log(`  Syncing ${sport.key}...`);
-        const result = await this.syncOddsForSport(sport.key, sport.preferredSource);
-        results.push(result);
-        
-        if (result.gamesUpdated > 0) {
-          console.log(`  ✅ ${sport.key}: ${result.gamesUpdated} games, ${result.oddsUpdated} odds from ${result.source}`);
-        } else if (result.errors.length > 0) {
-          console.log(`  ⚠️  ${sport.key}: No data (${result.errors[0]})`);
-        } else {
-          console.log(`  ⚠️  ${sport.key}: No games found`);
-        }
+      console.log(`🔄 Starting odds sync at ${new Date().toISOString()}`);
 
+      for (const schedule of schedules) {
+        if (!this.isLeader) break;
+        results.push(await this.runSport(schedule, sources, trigger));
         // Small delay between sports to avoid rate limiting
         await new Promise(resolve => setTimeout(resolve, 1000));
-      } catch (error: any) {
-        console.error(`  ❌ ${sport.key}: Fatal error - ${error.message}`);
-        results.push({
-          source: 'none',
-          sport: sport.key,
-          gamesUpdated: 0,
-          oddsUpdated: 0,
-          booksUpdated: 0,
-          errors: [error.message],
-          timestamp: new Date()
-        });
       }
-    }
 
-    this.lastSync = new Date();
-    this.isRunning = false;
+      this.lastSync = new Date();
+    } finally {
+      clearInterval(renewal);
+      this.isRunning = false;
+      // Without a scheduler running here, the lease was only borrowed for this run
+      if (!this.syncInterval) await this.releaseLease();
+    }
 
     // Log summary
     const totalGames = results.reduce((sum, r) => sum + r.gamesUpdated, 0);
@@ -204,21 +261,126 @@ export class OddsSyncJob {
     return results;
   }
 
-  startScheduledSync(intervalMinutes: number = 5) {
+  /** Take or renew the scheduler lease; false while another instance holds it. */
+  private async holdLease(): Promise<boolean> {
+    try {
+      const lease = await storage.tryAcquireLease(SCHEDULER_LEASE, this.instanceId, os.hostname(), SCHEDULER_LEASE_TTL_MS);
+      if (Boolean(lease) !== this.isLeader) {
+        console.log(lease ? `👑 ${this.instanceId} holds the scheduler lease` : `⏸️  Lost scheduler lease; another instance runs syncs`);
+      }
+      this.isLeader = Boolean(lease);
+    } catch (error: any) {
+      console.warn(`⚠️  Could not acquire scheduler lease: ${error.message}`);
+      this.isLeader = false;
+    }
+    return this.isLeader;
+  }
+
+  /** Renew the lease every SCHEDULER_LEASE_RENEW_MS until cleared, for as long as we still hold it. */
+  private renewLeaseWhileRunning(): NodeJS.Timeout {
+    return setInterval(() => {
+      if (this.isLeader) this.holdLease().catch(console.error);
+    }, SCHEDULER_LEASE_RENEW_MS);
+  }
+
+  private async releaseLease(): Promise<void> {
+    if (!this.isLeader) return;
+    this.isLeader = false;
+    await storage.releaseLease(SCHEDULER_LEASE, this.instanceId).catch(console.error);
+  }
+
+  /** Capture in-play odds for live-enabled sports that are due and have a game under way. */
+  private async runLive(schedules: SyncSchedule[], now: Date): Promise<void> {
+    const due = schedules.filter(s => s.enabled && s.liveEnabled && (this.liveNextRunAt.get(s.sport) ?? now) <= now);
+    if (due.length === 0) return;
+
+    const budgetState = await this.refreshBudgetState();
+    const sources = budgetState === 'exhausted' ? LIVE_SOURCES.filter(s => s !== 'SportsDataIO') : LIVE_SOURCES;
+    const factor = budgetState === 'degraded' ? DEGRADED_INTERVAL_FACTOR : 1;
+
+    for (const schedule of due) {
+      if (budgetState === 'degraded' && !DEGRADED_SPORTS.includes(schedule.sport)) continue;
+      this.liveNextRunAt.set(schedule.sport, new Date(now.getTime() + schedule.liveIntervalSeconds * 1000 * factor));
+
+      const underway = await storage.getGamesAwaitingResults(schedule.sport, now, new Date(now.getTime() - IN_PROGRESS_WINDOW_MS));
+      if (underway.length === 0) continue;
+
+      try {
+        const result = await syncLiveOdds(schedule.sport, sources);
+        if (result.oddsCaptured > 0) {
+          console.log(`  📡 ${schedule.sport}: ${result.oddsCaptured} live odds across ${result.gamesLive} games from ${result.source}`);
+        } else if (result.errors.length > 0) {
+          console.log(`  ⚠️  ${schedule.sport}: Live sync failed (${result.errors[0]})`);
+        }
+      } catch (error: any) {
+        console.error(`  ❌ ${schedule.sport}: Live sync error - ${error.message}`);
+      }
+    }
+  }
+
+  /** One scheduler pass: live captures first, then sync every enabled sport whose nextRunAt has come and re-plan it. */
+  private async tick(): Promise<void> {
+    if (this.isRunning) return;
+    if (!(await this.holdLease())) return;
+    this.isRunning = true;
+    const renewal = this.renewLeaseWhileRunning();
+
+    try {
+      const now = new Date();
+      const all = await this.getSchedules();
+      await this.runLive(all, now);
+
+      const due = all.filter(s => s.enabled && (!s.nextRunAt || s.nextRunAt <= now));
+      if (due.length === 0) return;
+
+      const { schedules, sources } = await this.plan(due);
+      const factor = this.budgetState === 'degraded' ? DEGRADED_INTERVAL_FACTOR : 1;
+
+      for (const schedule of schedules) {
+        // Stop handing out work once the lease has gone to another instance
+        if (!this.isLeader) break;
+        await this.runSport(schedule, sources, 'scheduled');
+
+        const finishedAt = new Date();
+        const nextGameAt = await storage.getNextGameTime(schedule.sport, finishedAt);
+        const next = planNextRun(schedule, nextGameAt, finishedAt, this.maxIntervalSeconds);
+        const nextRunAt = new Date(finishedAt.getTime() + (next.nextRunAt.getTime() - finishedAt.getTime()) * factor);
+
+        await storage.upsertSyncSchedule({ sport: schedule.sport, lastRunAt: finishedAt, nextRunAt, lastReason: next.reason });
+        console.log(`  ⏱️  ${schedule.sport}: next sync ${nextRunAt.toISOString()} (${next.reason})`);
+      }
+      this.lastSync = new Date();
+
+      // Sports skipped for budget reasons wait out a degraded interval instead of retrying every tick
+      for (const schedule of due.filter(s => !schedules.includes(s))) {
+        const nextRunAt = new Date(now.getTime() + schedule.farIntervalSeconds * 1000 * DEGRADED_INTERVAL_FACTOR);
+        await storage.upsertSyncSchedule({ sport: schedule.sport, nextRunAt, lastReason: `skipped: budget ${this.budgetState}` });
+      }
+    } finally {
+      clearInterval(renewal);
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Start the per-sport scheduler. `maxIntervalMinutes` optionally caps every tier but the
+   * offseason pause ("sync at least this often while games are on the schedule").
+   */
+  startScheduledSync(maxIntervalMinutes?: number) {
     if (this.syncInterval) {
       console.log('⚠️  Scheduled sync already running');
       return;
     }
 
-    console.log(`🚀 Starting scheduled odds sync every ${intervalMinutes} minutes`);
-    
+    this.maxIntervalSeconds = maxIntervalMinutes ? maxIntervalMinutes * 60 : undefined;
+    console.log(`🚀 Starting scheduled odds sync${maxIntervalMinutes ? ` (at least every ${maxIntervalMinutes} minutes)` : ''}`);
+
     // Run immediately
-    this.syncAllSports().catch(console.error);
+    this.tick().catch(console.error);
 
-    // Schedule recurring syncs
     this.syncInterval = setInterval(() => {
-      this.syncAllSports().catch(console.error);
-    }, intervalMinutes * 60 * 1000);
+      this.tick().catch(console.error);
+    }, SCHEDULER_TICK_MS);
   }
 
   stopScheduledSync() {
@@ -227,13 +389,34 @@ export class OddsSyncJob {
       this.syncInterval = null;
       console.log('🛑 Scheduled sync stopped');
     }
+    this.releaseLease();
   }
 
   getStatus() {
     return {
       isRunning: this.isRunning,
       lastSync: this.lastSync,
-      scheduled: this.syncInterval !== null
+      scheduled: this.syncInterval !== null,
+      maxIntervalMinutes: this.maxIntervalSeconds ? this.maxIntervalSeconds / 60 : null,
+      budgetState: this.budgetState,
+      instanceId: this.instanceId,
+      isLeader: this.isLeader
+    };
+  }
+
+  /** Current scheduler lease as stored, from this instance's point of view. */
+  async getLockStatus() {
+    const lease = await storage.getLease(SCHEDULER_LEASE);
+    if (!lease) return { name: SCHEDULER_LEASE, held: false };
+    return {
+      name: SCHEDULER_LEASE,
+      held: lease.expiresAt > new Date(),
+      holderId: lease.holderId,
+      holderHost: lease.holderHost,
+      acquiredAt: lease.acquiredAt,
+      renewedAt: lease.renewedAt,
+      expiresAt: lease.expiresAt,
+      isSelf: lease.holderId === this.instanceId
     };
   }
 }
@@ -247,6 +430,12 @@ export function registerSyncRoutes(app: any) {
   app.post('/api/odds/sync-all', async (_req: any, res: any) => {
     try {
       const results = await oddsSyncJob.syncAllSports();
+      if (!results) {
+        return res.status(409).json({
+          success: false,
+          error: 'A sync is already running on this or another instance'
+        });
+      }
       res.json({
         success: true,
         results,
@@ -264,15 +453,30 @@ export function registerSyncRoutes(app: any) {
     }
   });
 
-  // Start scheduled sync
+  // Start scheduled sync; optional `sports` enables exactly those schedules, `interval` caps the cadence (minutes)
   app.post('/api/odds/sync/start', async (req: any, res: any) => {
-    const { interval = 5 } = req.body;
-    oddsSyncJob.startScheduledSync(interval);
-    res.json({
-      success: true,
-      message: `Scheduled sync started (every ${interval} minutes)`,
-      status: oddsSyncJob.getStatus()
-    });
+    try {
+      const { interval, sports } = req.body ?? {};
+      if (Array.isArray(sports)) {
+        const wanted = sports.map((s: string) => String(s).toUpperCase());
+        const known = (await oddsSyncJob.getSchedules()).map(s => s.sport);
+        for (const sport of new Set([...known, ...wanted])) {
+          await oddsSyncJob.updateSchedule(sport, { enabled: wanted.includes(sport) });
+        }
+      }
+      oddsSyncJob.startScheduledSync(interval ? Number(interval) : undefined);
+      res.json({
+        success: true,
+        message: 'Scheduled sync started',
+        status: oddsSyncJob.getStatus(),
+        schedules: await oddsSyncJob.getSchedules()
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
   });
 
   // Stop scheduled sync
@@ -289,14 +493,67 @@ export function registerSyncRoutes(app: any) {
   app.get('/api/odds/sync/status', async (_req: any, res: any) => {
     res.json({
       success: true,
-      status: oddsSyncJob.getStatus()
+      status: oddsSyncJob.getStatus(),
+      lock: await oddsSyncJob.getLockStatus().catch((error: any) => ({ error: error.message })),
+      schedules: await oddsSyncJob.getSchedules().catch(() => [])
     });
   });
+
+  // Per-sport schedules
+  app.get('/api/odds/sync/schedules', async (_req: any, res: any) => {
+    try {
+      res.json({ success: true, schedules: await oddsSyncJob.getSchedules() });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Edit (or add) a sport's schedule; takes any sync_schedules column except the run bookkeeping
+  app.put('/api/odds/sync/schedules/:sport', async (req: any, res: any) => {
+    try {
+      const schedule = await oddsSyncJob.updateSchedule(req.params.sport, req.body ?? {});
+      res.json({ success: true, schedule });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // Persisted sync runs, newest first, plus the last run / last success per sport
+  app.get('/api/odds/sync/history', async (req: any, res: any) => {
+    try {
+      const hours = countParam(req.query.hours, undefined);
+      const limit = Math.min(500, countParam(req.query.limit, 100));
+      const [runs, summary] = await Promise.all([
+        storage.getSyncRuns({
+          sport: req.query.sport ? String(req.query.sport).toUpperCase() : undefined,
+          source: req.query.source ? String(req.query.source) : undefined,
+          trigger: req.query.trigger ? String(req.query.trigger) : undefined,
+          status: req.query.status ? String(req.query.status) : undefined,
+          since: hours ? new Date(Date.now() - hours * 60 * 60 * 1000) : undefined,
+          limit,
+        }),
+        storage.getSyncRunSummary(),
+      ]);
+      res.json({ success: true, runs, summary });
+    } catch (error: any) {
+      console.error('Sync history error:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
 }
 
 // Auto-start sync if configured
 if (process.env.AUTO_SYNC_ODDS === 'true') {
-  const interval = parseInt(process.env.SYNC_INTERVAL_MINUTES || '5');
+  const interval = process.env.SYNC_INTERVAL_MINUTES ? parseInt(process.env.SYNC_INTERVAL_MINUTES) : undefined;
   setTimeout(() => {
     console.log('🚀 Auto-starting odds sync...');
     oddsSyncJob.startScheduledSync(interval);
@@ -0,0 +1,5 @@
+/** A positive integer query param (`?hours=`, `?limit=`); the fallback when absent or not a number. */
+export function countParam<T extends number | undefined>(value: unknown, fallback: T): number | T {
+  const n = typeof value === "string" ? parseInt(value, 10) : NaN;
+  return Number.isNaN(n) ? fallback : Math.max(1, n);
+}
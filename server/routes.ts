@@ -1,10 +1,38 @@
-import type { Express } from "express";
+import type { Express, RequestHandler } from "express";
 import { storage } from "./storage.js";
 import { sportsDataIoService } from "./services/sportsDataIoApi.js";
 import { db } from "./db.js";
 import { sql } from "drizzle-orm";
 import { migrate } from "drizzle-orm/node-postgres/migrator";
-import { getNflOddsToday, transformEspnToDbFormat, debugEspnOdds } from "./services/espnOdds.js";
+import { getEspnOdds, transformEspnToDbFormat, debugEspnOdds, espnOddsProvider } from "./services/espnOdds.js";
+import type { EspnDateRange } from "./services/espnOdds.js";
+import { clearEspnCache, getEspnFetchStats } from "./services/espnFetch.js";
+import { arbitrageApiService } from "./services/arbitrageApi.js";
+import { eventsForPeriod, getOddsProvider, normalizePeriod, oddsProviders, reprocessQuarantined, syncFromProviders } from "./services/oddsPipeline.js";
+import { supportsSport } from "./services/oddsProvider.js";
+import { RESULT_SOURCES, RESULTS_LOOKBACK_DAYS, syncResults } from "./services/gameResults.js";
+import { LIVE_SOURCES, getLiveBoard, syncLiveOdds } from "./services/liveOdds.js";
+import { PROP_SOURCES, normalizeStatType, syncPlayerProps } from "./services/playerProps.js";
+import { FUTURES_SOURCES, syncFutures } from "./services/futures.js";
+import { isSameEvent, normalizeTeamName } from "./services/gameIdentity.js";
+import { teamResolver } from "./services/teamResolver.js";
+import { bookmakerRegistry } from "./services/bookmakerRegistry.js";
+import { FULL_GAME, insertTeamSchema } from "@shared/schema.js";
+import { registerSyncRoutes } from "./jobs/syncOdds.js";
+import { providerUsageTracker } from "./services/providerUsage.js";
+import { countParam } from "./queryParams.js";
+import { requireAdmin } from "./adminAuth.js";
+import { advanceReplayFrame, getReplayStatus, isReplaying, resetReplay } from "./services/providerFetch.js";
+
+/**
+ * `?period=` on the odds, live and movement endpoints: a segment label ("1h", "1st Half", "f5", ...),
+ * undefined for every segment when absent or 'all' (what these endpoints returned before periods
+ * existed), or null when unrecognized. Ask for `?period=full_game` to leave segment markets out.
+ */
+function periodParam(value: unknown): string | null | undefined {
+  if (typeof value !== "string" || value.toLowerCase() === "all") return undefined;
+  return normalizePeriod(value);
+}
 
 /** Register API routes on the provided Express app. */
 export function registerRoutes(app: Express): Express {
@@ -85,6 +113,23 @@ export function registerRoutes(app: Express): Express {
     }
   });
 
+  // --- Fixture replay (ODDS_REPLAY_DIR) ---
+  app.get("/api/_debug/replay", (_req, res) => {
+    res.json({ ok: true, ...getReplayStatus() });
+  });
+
+  app.post("/api/_debug/replay/advance", (_req, res) => {
+    if (!isReplaying()) return res.status(400).json({ ok: false, error: "ODDS_REPLAY_DIR not set" });
+    clearEspnCache(); // cached ESPN refs would mask the new frame
+    res.json({ ok: true, ...advanceReplayFrame() });
+  });
+
+  app.post("/api/_debug/replay/reset", (_req, res) => {
+    if (!isReplaying()) return res.status(400).json({ ok: false, error: "ODDS_REPLAY_DIR not set" });
+    clearEspnCache(); // cached ESPN refs would mask the new frame
+    res.json({ ok: true, ...resetReplay() });
+  });
+
   // =========================
   // Sports (SportsDataIO)
   // =========================
@@ -120,6 +165,196 @@ export function registerRoutes(app: Express): Express {
     }
   });
 
+  // =========================
+  // Teams registry
+  // =========================
+  app.get("/api/teams", async (req, res) => {
+    try {
+      const sport = typeof req.query.sport === "string" ? req.query.sport.toUpperCase() : undefined;
+      const teams = await storage.getTeams(sport);
+      res.json(teams);
+    } catch (error) {
+      console.error("Error fetching teams:", error);
+      res.status(500).json({ message: "Failed to fetch teams" });
+    }
+  });
+
+  app.get("/api/teams/:id/games", async (req, res) => {
+    try {
+      const team = await storage.getTeamById(req.params.id);
+      if (!team) return res.status(404).json({ message: "Team not found" });
+      const games = await storage.getGamesByTeam(team.id);
+      res.json({ team, games });
+    } catch (error) {
+      console.error("Error fetching team games:", error);
+      res.status(500).json({ message: "Failed to fetch team games" });
+    }
+  });
+
+  // Seed/refresh a sport's teams from SportsDataIO's team list
+  app.post("/api/teams/sync", async (req, res) => {
+    try {
+      const sport = String(req.body?.sport || "NFL").toUpperCase();
+      const raw = await sportsDataIoService.getTeams(sport);
+
+      let synced = 0;
+      for (const t of raw) {
+        const name = t.FullName || [t.School || t.City, t.Name].filter(Boolean).join(" ");
+        if (!name) continue;
+        await storage.upsertTeam({
+          sportId: sport,
+          name,
+          abbreviation: t.Key ?? null,
+          location: t.City ?? t.School ?? null,
+          aliases: [t.Key, t.School, t.ShortDisplayName].filter((a): a is string => Boolean(a) && a !== name),
+        });
+        synced++;
+      }
+      await teamResolver.refresh();
+
+      res.json({ message: `Synced ${synced} teams`, sport, provider: "SportsDataIO" });
+    } catch (error) {
+      console.error("Error syncing teams:", error);
+      res.status(500).json({ message: "Failed to sync teams" });
+    }
+  });
+
+  // Feed team names that didn't resolve to a registry team since startup
+  app.get("/api/_admin/teams/unmatched", async (req, res) => {
+    await teamResolver.ensureLoaded();
+    const sport = typeof req.query.sport === "string" ? req.query.sport : undefined;
+    res.json(teamResolver.getUnmatched(sport));
+  });
+
+  app.post("/api/_admin/teams", requireAdmin, async (req, res) => {
+    try {
+      const parsed = insertTeamSchema.safeParse({
+        ...req.body,
+        sportId: String(req.body?.sportId || req.body?.sport || "").toUpperCase(),
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid team", errors: parsed.error.flatten() });
+      }
+      const team = await storage.upsertTeam(parsed.data);
+      await teamResolver.refresh();
+      res.json(team);
+    } catch (error) {
+      console.error("Error creating team:", error);
+      res.status(500).json({ message: "Failed to create team" });
+    }
+  });
+
+  app.post("/api/_admin/teams/:id/aliases", requireAdmin, async (req, res) => {
+    try {
+      const aliases = Array.isArray(req.body?.aliases) ? req.body.aliases.map(String) : [];
+      if (aliases.length === 0) return res.status(400).json({ message: "aliases must be a non-empty array" });
+
+      const team = await storage.addTeamAliases(req.params.id, aliases);
+      if (!team) return res.status(404).json({ message: "Team not found" });
+      await teamResolver.refresh();
+      res.json(team);
+    } catch (error) {
+      console.error("Error adding team aliases:", error);
+      res.status(500).json({ message: "Failed to add team aliases" });
+    }
+  });
+
+  // =========================
+  // Bookmaker registry
+  // =========================
+  app.get("/api/bookmakers", async (_req, res) => {
+    try {
+      await bookmakerRegistry.ensureLoaded();
+      const bookmakers = await storage.getBookmakers();
+      res.json(bookmakers);
+    } catch (error) {
+      console.error("Error fetching bookmakers:", error);
+      res.status(500).json({ message: "Failed to fetch bookmakers" });
+    }
+  });
+
+  // Provider book keys that didn't map to a known bookmaker since startup
+  app.get("/api/_admin/bookmakers/unmatched", async (_req, res) => {
+    res.json(bookmakerRegistry.getUnmatched());
+  });
+
+  app.post("/api/_admin/bookmakers/aliases", requireAdmin, async (req, res) => {
+    try {
+      const { provider, alias, bookmakerId } = req.body ?? {};
+      if (!provider || !alias || !bookmakerId) {
+        return res.status(400).json({ message: "provider, alias and bookmakerId are required" });
+      }
+      const result = await bookmakerRegistry.addAlias(String(provider), String(alias), String(bookmakerId));
+      res.json(result);
+    } catch (error) {
+      console.error("Error adding bookmaker alias:", error);
+      res.status(500).json({ message: "Failed to add bookmaker alias" });
+    }
+  });
+
+  app.patch("/api/_admin/bookmakers/:id", requireAdmin, async (req, res) => {
+    try {
+      const { title, region, isSharp, isExchange, displayOrder } = req.body ?? {};
+      const updated = await storage.updateBookmakerMetadata(req.params.id, {
+        ...(title !== undefined && { title: String(title) }),
+        ...(region !== undefined && { region: region === null ? null : String(region) }),
+        ...(isSharp !== undefined && { isSharp: Boolean(isSharp) }),
+        ...(isExchange !== undefined && { isExchange: Boolean(isExchange) }),
+        ...(displayOrder !== undefined && { displayOrder: Number(displayOrder) }),
+      });
+      if (!updated) return res.status(404).json({ message: "Bookmaker not found" });
+      await bookmakerRegistry.refresh();
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating bookmaker:", error);
+      res.status(500).json({ message: "Failed to update bookmaker" });
+    }
+  });
+
+  // =========================
+  // Quarantine (rejected provider events/outcomes)
+  // =========================
+  app.get("/api/_admin/quarantine", requireAdmin, async (req, res) => {
+    try {
+      const q = req.query;
+      const [items, counts] = await Promise.all([
+        storage.getQuarantinedItems({
+          provider: q.provider ? String(q.provider) : undefined,
+          sport: q.sport ? String(q.sport).toUpperCase() : undefined,
+          kind: q.kind ? String(q.kind) : undefined,
+          reason: q.reason ? String(q.reason) : undefined,
+          resolved: q.status === "resolved" ? true : q.status === "all" ? undefined : false,
+          limit: Math.min(500, countParam(q.limit, 100)),
+        }),
+        storage.getQuarantineCounts(),
+      ]);
+      res.json({ items, counts });
+    } catch (error) {
+      console.error("Error fetching quarantine:", error);
+      res.status(500).json({ message: "Failed to fetch quarantine" });
+    }
+  });
+
+  // Re-run open items through the pipeline: by `ids`, or by provider/sport/reason filter
+  app.post("/api/_admin/quarantine/reprocess", requireAdmin, async (req, res) => {
+    try {
+      const { ids, provider, sport, reason, limit = 100 } = req.body ?? {};
+      const items = await storage.getQuarantinedItems({
+        ids: Array.isArray(ids) ? ids.map(String) : undefined,
+        provider: provider ? String(provider) : undefined,
+        sport: sport ? String(sport).toUpperCase() : undefined,
+        reason: reason ? String(reason) : undefined,
+        resolved: false,
+        limit: Math.min(500, Number(limit) || 100),
+      });
+      const result = await reprocessQuarantined(items);
+      res.json({ reprocessed: items.length, ...result });
+    } catch (error) {
+      console.error("Error reprocessing quarantine:", error);
+      res.status(500).json({ message: "Failed to reprocess quarantine" });
+    }
+  });
+
   // =========================
   // Games & Odds (SportsDataIO)
   // =========================
@@ -137,6 +372,156 @@ export function registerRoutes(app: Express): Express {
     }
   });
 
+  // Quote history for a game: GET /api/games/:id/odds/history?market=spreads&hours=48&period=1h
+  app.get("/api/games/:id/odds/history", async (req, res) => {
+    try {
+      const market = typeof req.query.market === "string" ? req.query.market : undefined;
+      const hours = countParam(req.query.hours, undefined);
+      const period = periodParam(req.query.period);
+      if (period === null) return res.status(400).json({ message: "Unknown period" });
+      const history = await storage.getOddsHistory(req.params.id, market, hours, period);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching odds history:", error);
+      res.status(500).json({ message: "Failed to fetch odds history" });
+    }
+  });
+
+  // Opening, current and closing quote per book/outcome: GET /api/games/:id/lines?market=spreads&period=all
+  app.get("/api/games/:id/lines", async (req, res) => {
+    try {
+      const market = typeof req.query.market === "string" ? req.query.market : undefined;
+      const period = periodParam(req.query.period);
+      if (period === null) return res.status(400).json({ message: "Unknown period" });
+      const lines = await storage.getGameLines(req.params.id, market, period);
+      res.json(lines);
+    } catch (error) {
+      console.error("Error fetching game lines:", error);
+      res.status(500).json({ message: "Failed to fetch game lines" });
+    }
+  });
+
+  // Every in-play quote captured for a game, oldest first: GET /api/games/:id/live?market=spreads&period=2h
+  app.get("/api/games/:id/live", async (req, res) => {
+    try {
+      const market = typeof req.query.market === "string" ? req.query.market : undefined;
+      const period = periodParam(req.query.period);
+      if (period === null) return res.status(400).json({ message: "Unknown period" });
+      const history = await storage.getLiveOddsHistory(req.params.id, market, period);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching live odds history:", error);
+      res.status(500).json({ message: "Failed to fetch live odds history" });
+    }
+  });
+
+  // Current player props for a game: GET /api/games/:id/props?player=<playerId>&stat=passing_yards
+  app.get("/api/games/:id/props", async (req, res) => {
+    try {
+      const props = await storage.getGameProps(req.params.id, {
+        playerId: typeof req.query.player === "string" ? req.query.player : undefined,
+        statType: typeof req.query.stat === "string" ? normalizeStatType(req.query.stat) : undefined,
+      });
+      res.json(props);
+    } catch (error) {
+      console.error("Error fetching player props:", error);
+      res.status(500).json({ message: "Failed to fetch player props" });
+    }
+  });
+
+  // One player's prop history in a game: GET /api/games/:id/props/history?player=<playerId>&stat=points&hours=48
+  app.get("/api/games/:id/props/history", async (req, res) => {
+    try {
+      if (typeof req.query.player !== "string") return res.status(400).json({ message: "player is required" });
+      const stat = typeof req.query.stat === "string" ? normalizeStatType(req.query.stat) : undefined;
+      const hours = countParam(req.query.hours, undefined);
+      const history = await storage.getPropHistory(req.params.id, req.query.player, stat, hours);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching prop history:", error);
+      res.status(500).json({ message: "Failed to fetch prop history" });
+    }
+  });
+
+  // Main and alternate lines merged into one ladder per outcome: GET /api/games/:id/ladder/spreads?period=1h
+  app.get("/api/games/:id/ladder/:market", async (req, res) => {
+    try {
+      const market = req.params.market;
+      if (market !== "spreads" && market !== "totals") {
+        return res.status(400).json({ message: "market must be spreads or totals" });
+      }
+      // A ladder is one segment's lines, so the full game unless another is named
+      const period = req.query.period === undefined ? FULL_GAME : periodParam(req.query.period);
+      if (!period) return res.status(400).json({ message: "Unknown period" });
+      const ladder = await storage.getLadder(req.params.id, market, period);
+      res.json({ market, period, outcomes: ladder });
+    } catch (error) {
+      console.error("Error fetching line ladder:", error);
+      res.status(500).json({ message: "Failed to fetch line ladder" });
+    }
+  });
+
+  // Current quotes for a market, one row per canonical book and outcome, best price first
+  app.get("/api/games/:id/best-odds/:market", async (req, res) => {
+    try {
+      const period = periodParam(req.query.period);
+      if (period === null) return res.status(400).json({ message: "Unknown period" });
+      const bestOdds = await storage.getBestOdds(req.params.id, req.params.market, period);
+      res.json(bestOdds);
+    } catch (error) {
+      console.error("Error fetching best odds:", error);
+      res.status(500).json({ message: "Failed to fetch best odds" });
+    }
+  });
+
+  // Provider event IDs mapped onto this canonical game
+  app.get("/api/games/:id/providers", async (req, res) => {
+    try {
+      const externalIds = await storage.getGameExternalIds(req.params.id);
+      res.json(externalIds);
+    } catch (error) {
+      console.error("Error fetching game provider IDs:", error);
+      res.status(500).json({ message: "Failed to fetch game provider IDs" });
+    }
+  });
+
+  // =========================
+  // Line movements (written by the sync pipeline)
+  // =========================
+  app.get("/api/games/:id/movements", async (req, res) => {
+    try {
+      const hours = countParam(req.query.hours, undefined);
+      const period = periodParam(req.query.period);
+      if (period === null) return res.status(400).json({ message: "Unknown period" });
+      const movements = await storage.getLineMovements(req.params.id, hours, period);
+      res.json(movements);
+    } catch (error) {
+      console.error("Error fetching line movements:", error);
+      res.status(500).json({ message: "Failed to fetch line movements" });
+    }
+  });
+
+  // ?min= is in line points (spreads/totals), ?minProb= in implied-probability points (moneylines)
+  const bigMoversHandler: RequestHandler = async (req, res) => {
+    try {
+      const hours = countParam(req.query.hours, 24);
+      const points = Number(req.query.min);
+      const probability = Number(req.query.minProb);
+      const period = periodParam(req.query.period);
+      if (period === null) return res.status(400).json({ message: "Unknown period" });
+      const movers = await storage.getBigMovers(hours, {
+        ...(req.query.min && Number.isFinite(points) && { points }),
+        ...(req.query.minProb && Number.isFinite(probability) && { probability }),
+      }, period);
+      res.json(movers);
+    } catch (error) {
+      console.error("Error fetching big movers:", error);
+      res.status(500).json({ message: "Failed to fetch big movers" });
+    }
+  };
+  app.get("/api/line-movements/big-movers", bigMoversHandler);
+  app.get("/api/big-movers", bigMoversHandler);
+
   // NEW: GET /api/odds?sport=NFL&limit=25
   app.get("/api/odds", async (req, res, next) => {
     try {
@@ -156,107 +541,200 @@ export function registerRoutes(app: Express): Express {
       if (!sport) return res.status(400).json({ message: "Sport parameter is required" });
 
       const limit = Math.max(1, parseInt(String(req.query.limit ?? "25"), 10));
-      // inside app.post("/api/odds/sync", async (req, res) => { ... })
+      const result = await syncFromProviders(sport, ["SportsDataIO"], { limit });
 
-      let gamesUpdated = 0;
-      let oddsUpdated = 0;
-      let gamesSkipped = 0; // <— track skips
+      return res.json({
+        message: `Synced ${result.gamesUpdated} games and ${result.oddsUpdated} odds entries`,
+        sport,
+        limit,
+        gamesUpdated: result.gamesUpdated,
+        oddsUpdated: result.oddsUpdated,
+        gamesSkipped: result.gamesSkipped, // <— visible in response for transparency
+        quarantined: result.quarantined,
+        validationIssues: result.validationIssues,
+        provider: "SportsDataIO",
+      });
+    } catch (error: any) {
+      console.error("Error syncing odds:", error);
+      res.status(500).json({ message: "Failed to sync odds" });
+    }
+  });
 
-      const oddsData = await sportsDataIoService.getOdds(sport, limit);
+  // Pull status/final scores for a sport's recent games; body { sport, days?, sources? }
+  app.post("/api/results/sync", async (req, res) => {
+    try {
+      const { sport, days, sources } = req.body as { sport?: string; days?: number; sources?: string[] };
+      if (!sport) return res.status(400).json({ success: false, error: "Sport parameter is required" });
 
-      for (const event of oddsData) {
-        // Hard guard: don’t write invalid rows
-        if (!event?.home_team || !event?.away_team || !event?.commence_time) {
-          gamesSkipped++;
-          continue;
-        }
+      const lookbackDays = Math.max(1, Number(days) || RESULTS_LOOKBACK_DAYS);
+      const result = await syncResults(sport, Array.isArray(sources) ? sources : RESULT_SOURCES, {
+        from: new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000),
+      });
+      res.json({ success: result.errors.length === 0 || result.gamesUpdated > 0, ...result });
+    } catch (error: any) {
+      console.error("Error syncing results:", error);
+      res.status(500).json({ success: false, error: "Failed to sync results" });
+    }
+  });
 
-        const commenceTime = new Date(event.commence_time);
-        if (isNaN(commenceTime.getTime())) {
-          gamesSkipped++;
-          continue;
-        }
+  // Players with props: GET /api/players?sport=NBA&team=<teamId>&q=jokic
+  app.get("/api/players", async (req, res) => {
+    try {
+      const players = await storage.getPlayers({
+        sportId: typeof req.query.sport === "string" ? req.query.sport.toUpperCase() : undefined,
+        teamId: typeof req.query.team === "string" ? req.query.team : undefined,
+        search: typeof req.query.q === "string" ? req.query.q : undefined,
+        limit: Math.min(500, countParam(req.query.limit, 100)),
+      });
+      res.json(players);
+    } catch (error) {
+      console.error("Error fetching players:", error);
+      res.status(500).json({ message: "Failed to fetch players" });
+    }
+  });
 
-        await storage.upsertGame({
-          id: event.id,
-          sportId: event.sport_key,
-          homeTeam: event.home_team,
-          awayTeam: event.away_team,
-          commenceTime,
-          completed: Boolean(event.completed),
-          homeScore: event.home_score ?? null,
-          awayScore: event.away_score ?? null,
-        });
-        gamesUpdated++;
+  app.get("/api/players/:id", async (req, res) => {
+    try {
+      const player = await storage.getPlayerById(req.params.id);
+      if (!player) return res.status(404).json({ message: "Player not found" });
+      res.json(player);
+    } catch (error) {
+      console.error("Error fetching player:", error);
+      res.status(500).json({ message: "Failed to fetch player" });
+    }
+  });
 
-        // Bookmakers may be empty for some SportsDataIO plans — that’s fine
-        for (const bm of event.bookmakers || []) {
-          const lastUpdate = bm.last_update ? new Date(bm.last_update) : new Date();
-          if (isNaN(lastUpdate.getTime())) continue;
+  // A player's current props across upcoming games
+  app.get("/api/players/:id/props", async (req, res) => {
+    try {
+      const props = await storage.getPlayerProps(req.params.id);
+      res.json(props);
+    } catch (error) {
+      console.error("Error fetching player props:", error);
+      res.status(500).json({ message: "Failed to fetch player props" });
+    }
+  });
 
-          await storage.upsertBookmaker({
-            id: bm.key,
-            title: bm.title,
-            lastUpdate,
-          });
+  // Pull player props for a sport's upcoming games; body { sport, sources? }
+  app.post("/api/props/sync", async (req, res) => {
+    try {
+      const { sport, sources } = req.body as { sport?: string; sources?: string[] };
+      if (!sport) return res.status(400).json({ success: false, error: "Sport parameter is required" });
 
-          for (const market of bm.markets || []) {
-            for (const outcome of market.outcomes || []) {
-              let outcomeType = "";
-
-              if (market.key === "h2h" || market.key === "spreads") {
-                const n = String(outcome.name || "").toLowerCase();
-                const home = String(event.home_team || "").toLowerCase();
-                const away = String(event.away_team || "").toLowerCase();
-
-                const isHome = n === "home" || n.includes("home") || n === home || (home && n.includes(home));
-                const isAway = n === "away" || n.includes("away") || n === away || (away && n.includes(away));
-
-                if (isHome) outcomeType = "home";
-                else if (isAway) outcomeType = "away";
-              } else if (market.key === "totals") {
-                const n = String(outcome.name || "").toLowerCase();
-                outcomeType = n === "over" ? "over" : n === "under" ? "under" : "";
-              }
-
-              if (!outcomeType) continue;
-
-              await storage.upsertOdds({
-                gameId: event.id,
-                bookmakerId: bm.key,
-                market: market.key,
-                outcomeType,
-                price: String(outcome.price),
-                point: outcome.point != null ? String(outcome.point) : null,
-              });
-              oddsUpdated++;
-            }
-          }
-        }
-      }
+      const result = await syncPlayerProps(sport, Array.isArray(sources) ? sources : PROP_SOURCES);
+      res.json({ success: result.errors.length === 0 || result.propsUpdated > 0, ...result });
+    } catch (error: any) {
+      console.error("Error syncing player props:", error);
+      res.status(500).json({ success: false, error: "Failed to sync player props" });
+    }
+  });
 
-      return res.json({
-        message: `Synced ${gamesUpdated} games and ${oddsUpdated} odds entries`,
-        sport,
-        limit,
-        gamesUpdated,
-        oddsUpdated,
-        gamesSkipped, // <— visible in response for transparency
-        provider: "SportsDataIO",
+  // Futures markets: GET /api/futures?sport=NFL&season=2026&type=super_bowl_winner&q=mvp
+  app.get("/api/futures", async (req, res) => {
+    try {
+      const markets = await storage.getFuturesMarkets({
+        sportId: typeof req.query.sport === "string" ? req.query.sport.toUpperCase() : undefined,
+        season: typeof req.query.season === "string" ? req.query.season : undefined,
+        marketType: typeof req.query.type === "string" ? normalizeStatType(req.query.type) : undefined,
+        search: typeof req.query.q === "string" ? req.query.q : undefined,
       });
+      res.json(markets);
+    } catch (error) {
+      console.error("Error fetching futures markets:", error);
+      res.status(500).json({ message: "Failed to fetch futures markets" });
+    }
+  });
+
+  // One futures market with every selection compared across books, best price per selection
+  app.get("/api/futures/:id", async (req, res) => {
+    try {
+      const market = await storage.getFuturesMarketById(req.params.id);
+      if (!market) return res.status(404).json({ message: "Futures market not found" });
+      const selections = await storage.getFuturesBoard(market.id);
+      res.json({ ...market, selections });
+    } catch (error) {
+      console.error("Error fetching futures market:", error);
+      res.status(500).json({ message: "Failed to fetch futures market" });
+    }
+  });
+
+  // Price history for a futures market: GET /api/futures/:id/history?selection=Kansas City Chiefs&hours=720
+  app.get("/api/futures/:id/history", async (req, res) => {
+    try {
+      const selectionKey = typeof req.query.selection === "string" ? normalizeTeamName(req.query.selection) : undefined;
+      const hours = countParam(req.query.hours, undefined);
+      const history = await storage.getFuturesHistory(req.params.id, selectionKey, hours);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching futures history:", error);
+      res.status(500).json({ message: "Failed to fetch futures history" });
+    }
+  });
+
+  // Pull a sport's futures; body { sport, season?, sources? }
+  app.post("/api/futures/sync", async (req, res) => {
+    try {
+      const { sport, season, sources } = req.body as { sport?: string; season?: string | number; sources?: string[] };
+      if (!sport) return res.status(400).json({ success: false, error: "Sport parameter is required" });
+
+      const result = await syncFutures(sport, Array.isArray(sources) ? sources : FUTURES_SOURCES, season != null ? String(season) : undefined);
+      res.json({ success: result.errors.length === 0 || result.oddsUpdated > 0, ...result });
     } catch (error: any) {
-      console.error("Error syncing odds:", error);
-      res.status(500).json({ message: "Failed to sync odds" });
+      console.error("Error syncing futures:", error);
+      res.status(500).json({ success: false, error: "Failed to sync futures" });
+    }
+  });
+
+  // Games in progress with their latest in-play quotes and state: GET /api/live/odds?sport=NFL&period=full_game
+  app.get("/api/live/odds", async (req, res) => {
+    try {
+      const sport = typeof req.query.sport === "string" ? req.query.sport : undefined;
+      const period = periodParam(req.query.period);
+      if (period === null) return res.status(400).json({ message: "Unknown period" });
+      res.json(await getLiveBoard(sport, period));
+    } catch (error) {
+      console.error("Error fetching live odds:", error);
+      res.status(500).json({ message: "Failed to fetch live odds" });
+    }
+  });
+
+  // Capture in-play odds for a sport's games in progress now; body { sport, sources? }
+  app.post("/api/live/sync", async (req, res) => {
+    try {
+      const { sport, sources } = req.body as { sport?: string; sources?: string[] };
+      if (!sport) return res.status(400).json({ success: false, error: "Sport parameter is required" });
+
+      const result = await syncLiveOdds(sport, Array.isArray(sources) ? sources : LIVE_SOURCES);
+      res.json({ success: result.errors.length === 0 || result.oddsCaptured > 0, ...result });
+    } catch (error: any) {
+      console.error("Error syncing live odds:", error);
+      res.status(500).json({ success: false, error: "Failed to sync live odds" });
     }
   });
 
   // =========================
   // ESPN (undocumented) odds — backup feed
   // =========================
-  app.get("/api/espn/nfl/odds", async (_req, res) => {
+  app.get("/api/espn/:sport/odds", async (req, res) => {
     try {
-      console.log('📡 Fetching ESPN NFL odds...');
-      const data = await getNflOddsToday();
+      const sport = req.params.sport.toUpperCase();
+      if (!supportsSport(espnOddsProvider, sport)) {
+        return res.status(400).json({ success: false, error: `ESPN does not support ${sport}` });
+      }
+
+      // Optional ?from=YYYY-MM-DD&to=YYYY-MM-DD; otherwise ESPN's current slate
+      let range: EspnDateRange | undefined;
+      if (req.query.from || req.query.to) {
+        const from = req.query.from ? new Date(String(req.query.from)) : undefined;
+        const to = req.query.to ? new Date(String(req.query.to)) : undefined;
+        if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+          return res.status(400).json({ success: false, error: "from/to must be dates (YYYY-MM-DD)" });
+        }
+        range = { from, to };
+      }
+
+      console.log(`📡 Fetching ESPN ${sport} odds...`);
+      const data = await getEspnOdds(sport, range);
       
       // Add summary stats to response
       const eventCount = Object.keys(data).length;
@@ -289,10 +767,15 @@ export function registerRoutes(app: Express): Express {
   });
 
   // Get ESPN odds in your DB format
-  app.get("/api/espn/nfl/odds/formatted", async (_req, res) => {
+  app.get("/api/espn/:sport/odds/formatted", async (req, res) => {
     try {
-      const espnData = await getNflOddsToday();
-      const formatted = transformEspnToDbFormat(espnData, "NFL");
+      const sport = req.params.sport.toUpperCase();
+      if (!supportsSport(espnOddsProvider, sport)) {
+        return res.status(400).json({ success: false, error: `ESPN does not support ${sport}` });
+      }
+
+      const espnData = await getEspnOdds(sport);
+      const formatted = transformEspnToDbFormat(espnData, sport);
       
       res.json({
         success: true,
@@ -315,7 +798,8 @@ export function registerRoutes(app: Express): Express {
       res.json({
         success: true,
         debug: true,
-        data: debugInfo
+        data: debugInfo,
+        fetch: getEspnFetchStats()
       });
     } catch (error: any) {
       console.error('ESPN debug error:', error);
@@ -327,80 +811,25 @@ export function registerRoutes(app: Express): Express {
   });
 
   // Sync ESPN odds to your database
-  app.post("/api/espn/nfl/sync", async (req, res) => {
+  app.post("/api/espn/:sport/sync", async (req, res) => {
     try {
+      const sport = req.params.sport.toUpperCase();
       const { limit = 10 } = req.body;
+      if (!supportsSport(espnOddsProvider, sport)) {
+        return res.status(400).json({ success: false, error: `ESPN does not support ${sport}` });
+      }
       
-      console.log('🔄 Syncing ESPN NFL odds to database...');
-      
-      // Fetch from ESPN
-      const espnData = await getNflOddsToday();
-      const formatted = transformEspnToDbFormat(espnData, "NFL");
-      
-      let gamesUpdated = 0;
-      let oddsUpdated = 0;
-      let booksUpdated = 0;
+      console.log(`🔄 Syncing ESPN ${sport} odds to database...`);
       
-      // Process each event
-      for (const event of formatted.slice(0, limit)) {
-        if (!event.home_team || !event.away_team) continue;
-        
-        // Upsert game
-        await storage.upsertGame({
-          id: event.id,
-          sportId: "NFL",
-          homeTeam: event.home_team,
-          awayTeam: event.away_team,
-          commenceTime: new Date(event.commence_time),
-          completed: false,
-        });
-        gamesUpdated++;
-        
-        // Process bookmakers
-        for (const bookmaker of event.bookmakers || []) {
-          await storage.upsertBookmaker({
-            id: bookmaker.key,
-            title: bookmaker.title,
-            lastUpdate: new Date(bookmaker.last_update),
-          });
-          booksUpdated++;
-          
-          // Process markets
-          for (const market of bookmaker.markets || []) {
-            for (const outcome of market.outcomes || []) {
-              let outcomeType = "";
-              
-              if (market.key === "h2h") {
-                outcomeType = outcome.name === event.home_team ? "home" : "away";
-              } else if (market.key === "spreads") {
-                outcomeType = outcome.name === event.home_team ? "home" : "away";
-              } else if (market.key === "totals") {
-                outcomeType = outcome.name === "Over" ? "over" : "under";
-              }
-              
-              if (outcomeType) {
-                await storage.upsertOdds({
-                  gameId: event.id,
-                  bookmakerId: bookmaker.key,
-                  market: market.key,
-                  outcomeType,
-                  price: String(outcome.price),
-                  point: outcome.point ? String(outcome.point) : null,
-                });
-                oddsUpdated++;
-              }
-            }
-          }
-        }
-      }
+      const result = await syncFromProviders(sport, ["ESPN"], { limit });
       
       res.json({
         success: true,
-        message: `Synced ESPN NFL odds`,
+        message: `Synced ESPN ${sport} odds`,
         stats: {
-          gamesUpdated,
-          booksUpdated,
-          oddsUpdated,
+          gamesUpdated: result.gamesUpdated,
+          booksUpdated: result.booksUpdated,
+          oddsUpdated: result.oddsUpdated,
           source: "ESPN"
         }
       });
@@ -418,12 +847,14 @@ export function registerRoutes(app: Express): Express {
   app.get("/api/odds/compare", async (req, res) => {
     try {
       const sport = (req.query.sport as string) || "NFL";
+      const period = periodParam(req.query.period);
+      if (period === null) return res.status(400).json({ success: false, error: "Unknown period" });
       
       console.log('📊 Comparing odds from multiple sources...');
       
       // Fetch from both sources
       const [espnData, sportsDataIoData] = await Promise.allSettled([
-        getNflOddsToday(),
+        getEspnOdds(sport),
         sportsDataIoService.getOdds(sport, 25)
       ]);
       
@@ -444,8 +875,8 @@ export function registerRoutes(app: Express): Express {
         }
       };
       
-      // Process ESPN data
-      if (espnData.status === 'fulfilled') {
+      // Process ESPN data; ESPN only quotes full-game lines
+      if (espnData.status === 'fulfilled' && (period === undefined || period === FULL_GAME)) {
         const data = espnData.value;
         comparison.espn.events = Object.keys(data).length;
         for (const event of Object.values(data)) {
@@ -456,7 +887,7 @@ export function registerRoutes(app: Express): Express {
       
       // Process SportsDataIO data
       if (sportsDataIoData.status === 'fulfilled') {
-        const data = sportsDataIoData.value;
+        const data = eventsForPeriod(sportsDataIoData.value, period);
         comparison.sportsDataIo.events = data.length;
         for (const event of data) {
           for (const bookmaker of event.bookmakers || []) {
@@ -494,6 +925,8 @@ export function registerRoutes(app: Express): Express {
     try {
       const sport = (req.query.sport as string) || "NFL";
       const preferEspn = req.query.prefer === 'espn';
+      const period = periodParam(req.query.period);
+      if (period === null) return res.status(400).json({ success: false, error: "Unknown period" });
       
       let data: any = null;
       let source = 'none';
@@ -501,7 +934,7 @@ export function registerRoutes(app: Express): Express {
       if (preferEspn) {
         // Try ESPN first
         try {
-          const espnData = await getNflOddsToday();
+          const espnData = await getEspnOdds(sport);
           if (Object.keys(espnData).length > 0) {
             data = transformEspnToDbFormat(espnData, sport);
             source = 'ESPN';
@@ -531,7 +964,7 @@ export function registerRoutes(app: Express): Express {
         // Fallback to ESPN
         if (!data || data.length === 0) {
           try {
-            const espnData = await getNflOddsToday();
+            const espnData = await getEspnOdds(sport);
             if (Object.keys(espnData).length > 0) {
               data = transformEspnToDbFormat(espnData, sport);
               source = 'ESPN';
@@ -550,10 +983,12 @@ export function registerRoutes(app: Express): Express {
         });
       }
       
+      data = eventsForPeriod(data, period);
       res.json({
         success: true,
         source,
-        count: Array.isArray(data) ? data.length : Object.keys(data).length,
+        period: period ?? "all",
+        count: data.length,
         data
       });
       
@@ -566,6 +1001,48 @@ export function registerRoutes(app: Express): Express {
     }
   });
 
+  // Registered odds providers with their capabilities and a live health probe
+  app.get("/api/odds/providers", async (_req, res) => {
+    try {
+      const providers = await Promise.all(
+        oddsProviders.map(async (provider) => ({
+          name: provider.name,
+          capabilities: provider.capabilities(),
+          health: await provider.health(),
+        }))
+      );
+      res.json({ success: true, providers });
+    } catch (error: any) {
+      console.error('Provider health error:', error);
+      res.status(500).json({
+        success: false,
+        error: error?.message || "Failed to check providers"
+      });
+    }
+  });
+
+  // Provider call counts and budgets; requests_used/remaining cover the metered (paid) feeds
+  app.get("/api/usage", async (req, res) => {
+    try {
+      const days = req.query.days ? Math.min(31, Math.max(1, parseInt(String(req.query.days), 10) || 1)) : 1;
+      const [providers, breakdown] = await Promise.all([
+        providerUsageTracker.getBudgets(),
+        providerUsageTracker.getRows(days),
+      ]);
+      const remaining = providers.map((p) => p.remaining).filter((n): n is number => n != null);
+
+      res.json({
+        requests_used: providers.reduce((sum, p) => sum + p.today, 0),
+        requests_remaining: remaining.length ? remaining.reduce((sum, n) => sum + n, 0) : null,
+        providers,
+        breakdown,
+      });
+    } catch (error) {
+      console.error("Error fetching provider usage:", error);
+      res.status(500).json({ message: "Failed to fetch usage" });
+    }
+  });
+
   // Test all odds sources
   app.get("/api/odds/test-all", async (_req, res) => {
     try {
@@ -579,7 +1056,7 @@ export function registerRoutes(app: Express): Express {
       
       // Test ESPN
       try {
-        const espnData = await getNflOddsToday();
+        const espnData = await getEspnOdds("NFL");
         const eventCount = Object.keys(espnData).length;
         results.espn.working = eventCount > 0;
         if (eventCount > 0) {
@@ -660,11 +1137,14 @@ export function registerRoutes(app: Express): Express {
       const sport = (req.query.sport as string) || "NFL";
       const limit = parseInt(req.query.limit as string) || 25;
       const includeStats = req.query.stats === 'true';
+      const period = periodParam(req.query.period);
+      if (period === null) return res.status(400).json({ success: false, error: "Unknown period" });
       
       console.log(`📊 Fetching unified odds for ${sport}...`);
       
       const results = {
         sport,
+        period: period ?? "all",
         timestamp: new Date().toISOString(),
         sources: [] as any[],
         combined: [] as any[],
@@ -678,14 +1158,14 @@ export function registerRoutes(app: Express): Express {
       
       // Try all sources in parallel
       const [espnResult, sdioResult] = await Promise.allSettled([
-        sport === "NFL" ? getNflOddsToday() : Promise.reject(new Error("ESPN only supports NFL")),
+        getEspnOdds(sport),
         sportsDataIoService.getOdds(sport, limit)
       ]);
       
       // Process ESPN results
       if (espnResult.status === 'fulfilled') {
         const espnData = espnResult.value;
-        const formatted = transformEspnToDbFormat(espnData, sport);
+        const formatted = eventsForPeriod(transformEspnToDbFormat(espnData, sport), period);
         
         let espnQuotes = 0;
         const espnBooks = new Set<string>();
@@ -730,7 +1210,7 @@ export function registerRoutes(app: Express): Express {
       
       // Process SportsDataIO results
       if (sdioResult.status === 'fulfilled') {
-        const sdioData = sdioResult.value;
+        const sdioData = eventsForPeriod(sdioResult.value, period);
         
         let sdioQuotes = 0;
         const sdioBooks = new Set<string>();
@@ -761,9 +1241,12 @@ export function registerRoutes(app: Express): Express {
         // Add to combined results with source tag
         sdioData.forEach(event => {
           // Check if we already have this game from ESPN
-          const existing = results.combined.find(e => 
-            e.home_team === event.home_team && 
-            e.away_team === event.away_team
+          const existing = results.combined.find(e =>
+            e.commence_time && event.commence_time &&
+            isSameEvent(
+              { homeTeam: e.home_team, awayTeam: e.away_team, commenceTime: new Date(e.commence_time) },
+              { homeTeam: event.home_team ?? "", awayTeam: event.away_team ?? "", commenceTime: new Date(event.commence_time) }
+            )
           );
           
           if (existing && existing.bookmakers.length < (event.bookmakers?.length || 0)) {
@@ -839,105 +1322,30 @@ export function registerRoutes(app: Express): Express {
       
       console.log(`🔄 Syncing best available odds for ${sport}...`);
       
-      let source = 'none';
-      let data: any[] = [];
-      
-      // Try SportsDataIO first (usually more reliable)
-      try {
-        data = await sportsDataIoService.getOdds(sport, limit);
-        source = 'SportsDataIO';
-      } catch (e) {
-        console.warn('SportsDataIO failed:', e);
-      }
-      
-      // Fallback to ESPN if needed and sport is NFL
-      if ((!data || data.length === 0) && sport === "NFL") {
-        try {
-          const espnData = await getNflOddsToday();
-          data = transformEspnToDbFormat(espnData, sport);
-          source = 'ESPN';
-        } catch (e) {
-          console.warn('ESPN also failed:', e);
-        }
-      }
+      // SportsDataIO first (usually more reliable), then any provider covering the sport
+      const attempted = ["SportsDataIO", "ESPN"].filter(name => {
+        const provider = getOddsProvider(name);
+        return provider && supportsSport(provider, sport);
+      });
+      const result = await syncFromProviders(sport, attempted, { limit });
       
-      if (!data || data.length === 0) {
+      if (result.source === 'none') {
         return res.status(503).json({
           success: false,
           error: "No odds sources available",
-          attempted: ['SportsDataIO', sport === 'NFL' ? 'ESPN' : null].filter(Boolean)
+          attempted
         });
       }
       
-      // Sync to database
-      let gamesUpdated = 0;
-      let oddsUpdated = 0;
-      let booksUpdated = 0;
-      
-      for (const event of data.slice(0, limit)) {
-        if (!event.home_team || !event.away_team) continue;
-        
-        try {
-          await storage.upsertGame({
-            id: event.id,
-            sportId: sport,
-            homeTeam: event.home_team,
-            awayTeam: event.away_team,
-            commenceTime: new Date(event.commence_time),
-            completed: event.completed || false,
-            homeScore: event.home_score ?? null,
-            awayScore: event.away_score ?? null,
-          });
-          gamesUpdated++;
-          
-          for (const bookmaker of event.bookmakers || []) {
-            await storage.upsertBookmaker({
-              id: bookmaker.key,
-              title: bookmaker.title,
-              lastUpdate: new Date(bookmaker.last_update || Date.now()),
-            });
-            booksUpdated++;
-            
-            for (const market of bookmaker.markets || []) {
-              for (const outcome of market.outcomes || []) {
-                let outcomeType = "";
-                
-                if (market.key === "h2h") {
-                  outcomeType = outcome.name === event.home_team ? "home" : "away";
-                } else if (market.key === "spreads") {
-                  outcomeType = outcome.name === event.home_team ? "home" : "away";
-                } else if (market.key === "totals") {
-                  outcomeType = outcome.name?.toLowerCase() === "over" ? "over" : "under";
-                }
-                
-                if (outcomeType) {
-                  await storage.upsertOdds({
-                    gameId: event.id,
-                    bookmakerId: bookmaker.key,
-                    market: market.key,
-                    outcomeType,
-                    price: String(outcome.price),
-                    point: outcome.point ? String(outcome.point) : null,
-                  });
-                  oddsUpdated++;
-                }
-              }
-            }
-          }
-        } catch (err) {
-          console.error(`Error syncing event ${event.id}:`, err);
-        }
-      }
-      
       res.json({
         success: true,
-        message: `Synced from ${source}`,
-        source,
+        message: `Synced from ${result.source}`,
+        source: result.source,
         sport,
         stats: {
-          gamesUpdated,
-          booksUpdated,
-          oddsUpdated
+          gamesUpdated: result.gamesUpdated,
+          booksUpdated: result.booksUpdated,
+          oddsUpdated: result.oddsUpdated
         }
       });
       
@@ -950,6 +1358,9 @@ export function registerRoutes(app: Express): Express {
     }
   });
 
+  // Scheduled/manual sync-all job routes (/api/odds/sync-all, /api/odds/sync/*)
+  registerSyncRoutes(app);
+
   // =========================
   // Admin: run Drizzle migrations on Neon
   // =========================
@@ -1,4 +1,21 @@
-export class ArbitrageApiService {
+import type { FetchOptions, OddsProvider, ProviderBookmaker, ProviderEvent, ProviderHealth } from "./oddsProvider.js";
+import { isReplaying, providerFetch } from "./providerFetch.js";
+import { parseItems, parsePayload, rapidAdvantageSchema, rapidAdvantagesSchema } from "./providerSchemas.js";
+
+// RapidAPI market types -> our market keys
+const MARKET_TYPES: Record<string, string> = {
+  MONEYLINE: "h2h",
+  POINT_SPREAD: "spreads",
+  POINT_TOTAL: "totals",
+};
+
+function decimalToAmerican(decimal: number): number | null {
+  if (!Number.isFinite(decimal) || decimal <= 1) return null;
+  return decimal >= 2 ? Math.round((decimal - 1) * 100) : Math.round(-100 / (decimal - 1));
+}
+
+export class ArbitrageApiService implements OddsProvider {
+  readonly name = "RapidAPI";
   private apiKey: string;
   private host = "sportsbook-api2.p.rapidapi.com";
   private baseUrl = "https://sportsbook-api2.p.rapidapi.com/v0";
@@ -10,9 +27,9 @@ export class ArbitrageApiService {
     }
   }
 
-  async getArbitrage(type = "ARBITRAGE"): Promise<any> {
+  async getArbitrage(type = "ARBITRAGE"): Promise<{ advantages: unknown[] }> {
     const url = `${this.baseUrl}/advantages/?type=${type}`;
-    const res = await fetch(url, {
+    const res = await providerFetch("rapidapi", url, {
       headers: {
         "x-rapidapi-host": this.host,
         "x-rapidapi-key": this.apiKey,
@@ -23,7 +40,88 @@ export class ArbitrageApiService {
       throw new Error(`RapidAPI error: ${res.status} ${res.statusText}`);
     }
 
-    return res.json();
+    return parsePayload(rapidAdvantagesSchema, await res.json(), "rapidapi", "advantages");
+  }
+
+  // ------------ OddsProvider ------------
+
+  // The advantages feed isn't queryable by sport, so it never serves as a per-sport sync source
+  capabilities() {
+    return { sports: [] as string[], markets: Object.values(MARKET_TYPES), requiresApiKey: true };
+  }
+
+  async fetchEvents(sport: string, options: FetchOptions = {}): Promise<ProviderEvent[]> {
+    const events = await this.fetchOdds(sport, options);
+    return events.map((e) => ({ ...e, bookmakers: [] }));
+  }
+
+  /** Events referenced by current advantages, with the quoted outcomes grouped by source book. */
+  async fetchOdds(sport: string, options: FetchOptions = {}): Promise<ProviderEvent[]> {
+    const data = await this.getArbitrage();
+    const advantages = parseItems(rapidAdvantageSchema, data.advantages, "rapidapi", "advantage", options.issues);
+    const byEvent = new Map<string, ProviderEvent>();
+
+    for (const adv of advantages) {
+      const ev = adv.market.event;
+      const marketKey = MARKET_TYPES[adv.market.type.toUpperCase()];
+      if (!marketKey) continue;
+
+      const participants = ev.participants;
+      const home = participants.find((p) => p.key === ev.homeParticipantKey) ?? participants[0];
+      const away = participants.find((p) => p !== home);
+
+      let event = byEvent.get(ev.key);
+      if (!event) {
+        event = {
+          id: `rapidapi_${ev.key}`,
+          sport_key: sport,
+          sport_title: sport,
+          commence_time: ev.startTime ?? null,
+          home_team: home?.name ?? null,
+          away_team: away?.name ?? null,
+          bookmakers: [],
+        };
+        byEvent.set(ev.key, event);
+      }
+
+      for (const o of adv.outcomes) {
+        const price = decimalToAmerican(o.payout);
+        if (price === null) continue;
+
+        // A three-way moneyline's draw leg has no participant, only its type
+        const name = marketKey === "totals"
+          ? String(o.type || "").toLowerCase()
+          : o.participantKey === home?.key ? "home"
+          : o.participantKey === away?.key ? "away"
+          : /^(draw|tie)$/i.test(o.type ?? "") ? "draw" : null;
+
+        let book: ProviderBookmaker | undefined = event.bookmakers.find((b) => b.key === o.source);
+        if (!book) {
+          book = { key: o.source, title: o.source, last_update: o.lastFoundAt ?? null, markets: [] };
+          event.bookmakers.push(book);
+        }
+        let market = book.markets.find((m) => m.key === marketKey);
+        if (!market) {
+          market = { key: marketKey, last_update: o.lastFoundAt ?? null, outcomes: [] };
+          book.markets.push(market);
+        }
+        market.outcomes.push({ name, price, point: o.modifier ?? null });
+      }
+    }
+
+    return Array.from(byEvent.values());
+  }
+
+  async health(): Promise<ProviderHealth> {
+    const configured = Boolean(this.apiKey) || isReplaying();
+    const base = { provider: this.name, configured, checkedAt: new Date().toISOString() };
+    if (!configured) return { ...base, ok: false, error: "RAPIDAPI_KEY not set" };
+    try {
+      await this.getArbitrage();
+      return { ...base, ok: true };
+    } catch (error: any) {
+      return { ...base, ok: false, error: error.message };
+    }
   }
 }
 
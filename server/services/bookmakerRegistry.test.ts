@@ -0,0 +1,50 @@
+import { after, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestDatabase } from "../testDatabase.js";
+
+const database = await startTestDatabase();
+after(() => database.stop());
+const { BookmakerRegistry, normalizeBookKey } = await import("./bookmakerRegistry.js");
+const { storage } = await import("../storage.js");
+
+describe("normalizeBookKey", () => {
+  it("folds case and punctuation", () => {
+    assert.equal(normalizeBookKey("ESPN BET"), "espnbet");
+    assert.equal(normalizeBookKey("espn_bet"), "espnbet");
+    assert.equal(normalizeBookKey(""), "");
+  });
+});
+
+describe("BookmakerRegistry", () => {
+  beforeEach(() => database.reset());
+
+  it("seeds the canonical books and resolves their built-in aliases for any provider", async () => {
+    const registry = new BookmakerRegistry();
+    await registry.refresh();
+
+    assert.ok((await storage.getBookmakers()).some((b) => b.id === "draftkings"));
+    assert.deepEqual(registry.resolve("ESPN", "DK"), { id: "draftkings", title: "DraftKings" });
+    assert.deepEqual(registry.resolve("SportsDataIO", "WilliamHill_US"), { id: "caesars", title: "Caesars" });
+    assert.deepEqual(registry.resolve("RapidAPI", "7", "Pinnacle"), { id: "pinnacle", title: "Pinnacle" });
+  });
+
+  it("applies a stored alias for its provider only, and stops reporting it as unmatched", async () => {
+    const registry = new BookmakerRegistry();
+    await registry.refresh();
+    assert.deepEqual(registry.resolve("SportsDataIO", "BetMGM Michigan"), { id: "betmgmmichigan", title: "BetMGM Michigan" });
+    assert.deepEqual(registry.getUnmatched().map((u) => u.provider), ["SportsDataIO"]);
+
+    await registry.addAlias("SportsDataIO", "BetMGM Michigan", "betmgm");
+    assert.deepEqual(registry.getUnmatched(), []);
+    assert.equal(registry.resolve("SportsDataIO", "BetMGM Michigan").id, "betmgm");
+    assert.equal(registry.resolve("ESPN", "BetMGM Michigan").id, "betmgmmichigan");
+  });
+
+  it("takes titles from the bookmakers table once refreshed", async () => {
+    const registry = new BookmakerRegistry();
+    await registry.refresh();
+    await storage.updateBookmakerMetadata("espnbet", { title: "theScore Bet" });
+    await registry.refresh();
+    assert.deepEqual(registry.resolve("ESPN", "ESPN BET"), { id: "espnbet", title: "theScore Bet" });
+  });
+});
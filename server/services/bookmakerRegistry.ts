@@ -0,0 +1,122 @@
+import { storage } from "../storage.js";
+import type { Bookmaker } from "@shared/schema.js";
+
+type CanonicalBook = Pick<Bookmaker, "id" | "title" | "region" | "isSharp" | "isExchange" | "displayOrder"> & {
+  aliases: string[];
+};
+
+// Books we know about; aliases are matched after normalizeBookKey, for every provider
+const CANONICAL_BOOKS: CanonicalBook[] = [
+  { id: "draftkings", title: "DraftKings", region: "us", isSharp: false, isExchange: false, displayOrder: 10, aliases: ["dk"] },
+  { id: "fanduel", title: "FanDuel", region: "us", isSharp: false, isExchange: false, displayOrder: 20, aliases: ["fd"] },
+  { id: "betmgm", title: "BetMGM", region: "us", isSharp: false, isExchange: false, displayOrder: 30, aliases: ["mgm"] },
+  { id: "caesars", title: "Caesars", region: "us", isSharp: false, isExchange: false, displayOrder: 40, aliases: ["caesarssportsbook", "williamhill", "williamhillus"] },
+  { id: "espnbet", title: "ESPN BET", region: "us", isSharp: false, isExchange: false, displayOrder: 50, aliases: ["pennsportsbook", "barstool"] },
+  { id: "fanatics", title: "Fanatics", region: "us", isSharp: false, isExchange: false, displayOrder: 60, aliases: ["fanaticssportsbook"] },
+  { id: "betrivers", title: "BetRivers", region: "us", isSharp: false, isExchange: false, displayOrder: 70, aliases: ["rivers", "sugarhouse"] },
+  { id: "hardrockbet", title: "Hard Rock Bet", region: "us", isSharp: false, isExchange: false, displayOrder: 80, aliases: ["hardrock"] },
+  { id: "bet365", title: "bet365", region: "us", isSharp: false, isExchange: false, displayOrder: 90, aliases: [] },
+  { id: "pointsbet", title: "PointsBet", region: "us", isSharp: false, isExchange: false, displayOrder: 100, aliases: ["pointsbetus"] },
+  { id: "bovada", title: "Bovada", region: "us", isSharp: false, isExchange: false, displayOrder: 110, aliases: [] },
+  { id: "circa", title: "Circa Sports", region: "us", isSharp: true, isExchange: false, displayOrder: 120, aliases: ["circasports"] },
+  { id: "pinnacle", title: "Pinnacle", region: "eu", isSharp: true, isExchange: false, displayOrder: 130, aliases: [] },
+  { id: "betfair_exchange", title: "Betfair Exchange", region: "uk", isSharp: true, isExchange: true, displayOrder: 140, aliases: ["betfair", "betfairex"] },
+  { id: "prophetx", title: "ProphetX", region: "us", isSharp: false, isExchange: true, displayOrder: 150, aliases: ["prophetexchange"] },
+  { id: "consensus", title: "Consensus", region: "us", isSharp: false, isExchange: false, displayOrder: 900, aliases: ["sportsdataioconsensus"] },
+];
+
+type UnmatchedBook = {
+  provider: string;
+  key: string;
+  title: string;
+  count: number;
+  lastSeen: string;
+};
+
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+/** 'ESPN BET' / 'espn_bet' / 'EspnBet' -> 'espnbet' */
+export function normalizeBookKey(key: string): string {
+  return String(key || "").toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
+
+/**
+ * Maps provider bookmaker keys/titles onto canonical bookmakers: per-provider aliases from the
+ * bookmaker_aliases table first, then the built-in list. Unknown books keep a normalized key.
+ */
+export class BookmakerRegistry {
+  private builtIn = new Map<string, CanonicalBook>();
+  private providerAliases = new Map<string, string>(); // `${provider}:${alias}` -> bookmakerId
+  private titles = new Map<string, string>();
+  private unmatched = new Map<string, UnmatchedBook>();
+  private loadedAt = 0;
+  private seeded = false;
+
+  constructor() {
+    for (const book of CANONICAL_BOOKS) {
+      this.titles.set(book.id, book.title);
+      for (const key of [book.id, book.title, ...book.aliases]) {
+        this.builtIn.set(normalizeBookKey(key), book);
+      }
+    }
+  }
+
+  async refresh(): Promise<void> {
+    if (!this.seeded) {
+      await storage.seedBookmakers(CANONICAL_BOOKS.map(({ aliases, ...book }) => book));
+      this.seeded = true;
+    }
+
+    const [aliases, books] = await Promise.all([storage.getBookmakerAliases(), storage.getBookmakers()]);
+    this.providerAliases = new Map(aliases.map((a) => [`${a.provider.toLowerCase()}:${a.alias}`, a.bookmakerId]));
+    for (const book of books) this.titles.set(book.id, book.title);
+    this.loadedAt = Date.now();
+  }
+
+  async ensureLoaded(): Promise<void> {
+    if (Date.now() - this.loadedAt < REFRESH_INTERVAL_MS) return;
+    try {
+      await this.refresh();
+    } catch (error: any) {
+      console.warn(`Bookmaker registry unavailable, using built-in aliases only: ${error.message}`);
+      this.loadedAt = Date.now();
+    }
+  }
+
+  resolve(provider: string, key: string, title?: string): { id: string; title: string } {
+    const candidates = [normalizeBookKey(key), normalizeBookKey(title ?? "")].filter(Boolean);
+
+    for (const alias of candidates) {
+      const id = this.providerAliases.get(`${provider.toLowerCase()}:${alias}`);
+      if (id) return { id, title: this.titles.get(id) ?? title ?? key };
+    }
+    for (const alias of candidates) {
+      const book = this.builtIn.get(alias);
+      if (book) return { id: book.id, title: this.titles.get(book.id) ?? book.title };
+    }
+
+    const id = candidates[0] || "unknown";
+    const entryKey = `${provider}:${id}`;
+    this.unmatched.set(entryKey, {
+      provider,
+      key,
+      title: title ?? key,
+      count: (this.unmatched.get(entryKey)?.count ?? 0) + 1,
+      lastSeen: new Date().toISOString(),
+    });
+    return { id, title: title ?? key };
+  }
+
+  async addAlias(provider: string, alias: string, bookmakerId: string) {
+    const result = await storage.upsertBookmakerAlias({ provider, alias: normalizeBookKey(alias), bookmakerId });
+    await this.refresh();
+    this.unmatched.delete(`${provider}:${result.alias}`);
+    return result;
+  }
+
+  getUnmatched(): UnmatchedBook[] {
+    return Array.from(this.unmatched.values()).sort((a, b) => b.count - a.count);
+  }
+}
+
+export const bookmakerRegistry = new BookmakerRegistry();
@@ -0,0 +1,90 @@
+import { beforeEach, describe, it, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+
+process.env.DATABASE_URL ??= "postgres://localhost/test";
+const { clearEspnCache, fetchEspnJson, getEspnFetchStats } = await import("./espnFetch.js");
+const { providerUsageTracker } = await import("./providerUsage.js");
+
+const oddsUrl = (id: string) => `https://sports.core.api.espn.com/v2/sports/football/leagues/nfl/events/${id}/competitions/${id}/odds`;
+
+const json = (body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status: 200, headers: { "content-type": "application/json", ...headers } });
+
+/** Stub the network, counting requests without writing usage rows. */
+function stubFetch(t: TestContext, impl: (url: string, init?: RequestInit) => Promise<Response>) {
+  t.mock.method(providerUsageTracker, "record", () => {});
+  return t.mock.method(globalThis, "fetch", (input: string | URL | Request, init?: RequestInit) => impl(String(input), init));
+}
+
+describe("fetchEspnJson", () => {
+  beforeEach(() => clearEspnCache());
+
+  it("shares an in-flight request and serves the fresh body from cache", async (t) => {
+    const fetch = stubFetch(t, async () => json({ count: 3 }));
+    const url = oddsUrl("401");
+
+    const [a, b] = await Promise.all([fetchEspnJson(url), fetchEspnJson(url)]);
+    assert.deepEqual(a, { count: 3 });
+    assert.equal(b, a);
+    assert.deepEqual(await fetchEspnJson(url), { count: 3 });
+    assert.equal(fetch.mock.callCount(), 1);
+  });
+
+  it("revalidates a stale body with its validators and keeps it on a 304", async (t) => {
+    const fetch = stubFetch(t, async () => json({ count: 3 }, { etag: '"v1"', "last-modified": "Sun, 08 Sep 2024 12:00:00 GMT" }));
+    const url = oddsUrl("402");
+    await fetchEspnJson(url);
+
+    const later = Date.now() + 60 * 1000;
+    t.mock.method(Date, "now", () => later);
+    fetch.mock.mockImplementation(async () => new Response(null, { status: 304 }));
+    const before = getEspnFetchStats().revalidated;
+
+    assert.deepEqual(await fetchEspnJson(url), { count: 3 });
+    const headers = fetch.mock.calls[1].arguments[1]?.headers as Record<string, string>;
+    assert.equal(headers["If-None-Match"], '"v1"');
+    assert.equal(headers["If-Modified-Since"], "Sun, 08 Sep 2024 12:00:00 GMT");
+    assert.equal(getEspnFetchStats().revalidated, before + 1);
+  });
+
+  it("falls back to the stale body when the request fails, and to null without one", async (t) => {
+    const fetch = stubFetch(t, async () => json({ count: 3 }));
+    const url = oddsUrl("403");
+    await fetchEspnJson(url);
+
+    const later = Date.now() + 60 * 1000;
+    t.mock.method(Date, "now", () => later);
+    t.mock.method(console, "error", () => {});
+    fetch.mock.mockImplementation(async () => {
+      throw new TypeError("fetch failed");
+    });
+
+    assert.deepEqual(await fetchEspnJson(url), { count: 3 });
+    assert.equal(await fetchEspnJson(oddsUrl("404")), null);
+  });
+
+  it("runs at most ESPN_CONCURRENCY requests at once and queues the rest", async (t) => {
+    const release: (() => void)[] = [];
+    let running = 0;
+    let peak = 0;
+    stubFetch(t, async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise<void>((resolve) => release.push(resolve));
+      running--;
+      return json({});
+    });
+
+    const { concurrency } = getEspnFetchStats();
+    const pending = Array.from({ length: concurrency + 3 }, (_, i) => fetchEspnJson(oddsUrl(`5${i}`)));
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.equal(getEspnFetchStats().queued, 3);
+
+    while (release.length) {
+      release.shift()!();
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    await Promise.all(pending);
+    assert.equal(peak, concurrency);
+    assert.equal(getEspnFetchStats().active, 0);
+  });
+});
@@ -0,0 +1,129 @@
+import { providerFetch, type ProviderFetchContext } from "./providerFetch.js";
+
+// ESPN's core API is a graph of $ref links, so one odds pull fans out into hundreds of small
+// GETs. This layer bounds how many run at once, shares in-flight requests for the same URL,
+// and caches bodies per URL: fresh entries are served without a request, stale ones are
+// revalidated with If-None-Match / If-Modified-Since so unchanged refs come back as 304s.
+
+const CONCURRENCY = Math.max(1, Number(process.env.ESPN_CONCURRENCY || 6));
+const MAX_CACHE_ENTRIES = 5000;
+
+// Odds move; events, competitions, teams and provider refs practically never do
+const ODDS_TTL_MS = 30 * 1000;
+const REF_TTL_MS = 10 * 60 * 1000;
+
+const HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+  'Accept': 'application/json',
+};
+
+type CacheEntry = {
+  body: any;
+  etag: string | null;
+  lastModified: string | null;
+  fetchedAt: number;
+};
+
+const cache = new Map<string, CacheEntry>();
+const inflight = new Map<string, Promise<any | null>>();
+const stats = { hits: 0, revalidated: 0, fetched: 0, failed: 0 };
+
+let active = 0;
+const waiting: (() => void)[] = [];
+
+async function withSlot<T>(fn: () => Promise<T>): Promise<T> {
+  if (active >= CONCURRENCY) {
+    // The finishing request hands its slot straight to us, so `active` is already counted
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  } else {
+    active++;
+  }
+  try {
+    return await fn();
+  } finally {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  }
+}
+
+function ttlFor(url: string): number {
+  return /\/odds|\/scoreboard/.test(url) ? ODDS_TTL_MS : REF_TTL_MS;
+}
+
+function remember(url: string, entry: CacheEntry) {
+  cache.delete(url);
+  cache.set(url, entry);
+  if (cache.size > MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+}
+
+async function load(url: string, cached: CacheEntry | undefined, context: ProviderFetchContext): Promise<any | null> {
+  const headers: Record<string, string> = { ...HEADERS };
+  if (cached?.etag) headers['If-None-Match'] = cached.etag;
+  if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+  try {
+    const res = await withSlot(() => providerFetch("espn", url, { headers }, context));
+
+    if (res.status === 304 && cached) {
+      stats.revalidated++;
+      remember(url, { ...cached, fetchedAt: Date.now() });
+      return cached.body;
+    }
+    if (!res.ok) {
+      stats.failed++;
+      console.warn(`Failed to fetch ${url}: ${res.status}`);
+      return null;
+    }
+
+    const text = await res.text();
+    let body: any;
+    try {
+      body = JSON.parse(text);
+    } catch (e) {
+      stats.failed++;
+      console.warn(`Failed to parse JSON from ${url}`);
+      return null;
+    }
+
+    stats.fetched++;
+    remember(url, {
+      body,
+      etag: res.headers.get('etag'),
+      lastModified: res.headers.get('last-modified'),
+      fetchedAt: Date.now(),
+    });
+    return body;
+  } catch (error) {
+    stats.failed++;
+    console.error(`Error fetching ${url}:`, error);
+    // A stale body beats nothing when ESPN is flaky
+    return cached?.body ?? null;
+  }
+}
+
+/** GET a JSON document from ESPN through the cache; null when unavailable. */
+export function fetchEspnJson(url: string, context: ProviderFetchContext = {}): Promise<any | null> {
+  const cached = cache.get(url);
+  if (cached && Date.now() - cached.fetchedAt < ttlFor(url)) {
+    stats.hits++;
+    return Promise.resolve(cached.body);
+  }
+
+  const pending = inflight.get(url);
+  if (pending) return pending;
+
+  const promise = load(url, cached, context).finally(() => inflight.delete(url));
+  inflight.set(url, promise);
+  return promise;
+}
+
+export function getEspnFetchStats() {
+  return { ...stats, cached: cache.size, inflight: inflight.size, active, queued: waiting.length, concurrency: CONCURRENCY };
+}
+
+export function clearEspnCache() {
+  cache.clear();
+}
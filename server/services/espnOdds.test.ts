@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { espnOddsItemSchema, type PayloadIssue } from "./providerSchemas.js";
+
+process.env.DATABASE_URL ??= "postgres://localhost/test";
+const { quotesFromOddsItem } = await import("./espnOdds.js");
+
+const updated = "2024-09-08T12:00:00Z";
+
+async function quotes(raw: unknown) {
+  const item = espnOddsItemSchema.parse({ lastModified: updated, ...(raw as object) });
+  const out = await quotesFromOddsItem(item, "Kansas City Chiefs", "Baltimore Ravens");
+  return out.map(({ book, market, team, price, point }) => ({ book, market, team, price, point: point ?? null }));
+}
+
+describe("quotesFromOddsItem", () => {
+  it("reads direct moneyline, spread and total objects", async () => {
+    assert.deepEqual(
+      await quotes({
+        name: "Caesars",
+        moneyline: { home: -150, away: "+130" },
+        spread: { home: -3, away: 3, homeOdds: -105 },
+        total: { total: 46.5, overOdds: -112 },
+      }),
+      [
+        { book: "Caesars", market: "moneyline", team: "home", price: -150, point: null },
+        { book: "Caesars", market: "moneyline", team: "away", price: 130, point: null },
+        { book: "Caesars", market: "spreads", team: "home", price: -105, point: -3 },
+        { book: "Caesars", market: "spreads", team: "away", price: -110, point: 3 },
+        { book: "Caesars", market: "totals", team: "home", price: -112, point: 46.5 },
+        { book: "Caesars", market: "totals", team: "away", price: -110, point: 46.5 },
+      ],
+    );
+  });
+
+  it("reads the core API's numeric lines and each side's own spread", async () => {
+    assert.deepEqual(
+      await quotes({
+        provider: { name: "ESPN BET" },
+        spread: -3.5,
+        overUnder: 47.5,
+        overOdds: -108,
+        underOdds: -112,
+        homeTeamOdds: { moneyLine: -170, spreadOdds: -110 },
+        awayTeamOdds: { moneyLine: 145, spreadOdds: -110, current: { pointSpread: { american: "+3.5" } } },
+      }),
+      [
+        { book: "ESPN BET", market: "moneyline", team: "home", price: -170, point: null },
+        { book: "ESPN BET", market: "moneyline", team: "away", price: 145, point: null },
+        { book: "ESPN BET", market: "spreads", team: "home", price: -110, point: -3.5 },
+        { book: "ESPN BET", market: "spreads", team: "away", price: -110, point: 3.5 },
+        { book: "ESPN BET", market: "totals", team: "home", price: -108, point: 47.5 },
+        { book: "ESPN BET", market: "totals", team: "away", price: -112, point: 47.5 },
+      ],
+    );
+  });
+
+  it("doesn't derive a side's spread the feed didn't give", async () => {
+    const out = await quotes({ provider: { name: "ESPN BET" }, spread: -3.5, homeTeamOdds: { spreadOdds: -110 } });
+    assert.deepEqual(out.map((q) => q.team), ["home"]);
+  });
+
+  it("reads a markets array, matching outcomes by side or team name", async () => {
+    assert.deepEqual(
+      await quotes({
+        provider: { displayName: "FanDuel" },
+        markets: [
+          { type: "Moneyline", outcomes: [{ homeAway: "home", americanOdds: -160 }, { name: "Baltimore Ravens", price: 140 }] },
+          { key: "pointSpread", outcomes: [{ name: "Home", odds: -110, spread: -3 }] },
+          { name: "Over/Under", total: 45, outcomes: [{ type: "Under", price: -105 }, { name: "Over", price: -115, total: 45.5 }] },
+          { type: "Player Props", outcomes: [{ name: "Over", price: -110 }] },
+        ],
+      }),
+      [
+        { book: "FanDuel", market: "moneyline", team: "home", price: -160, point: null },
+        { book: "FanDuel", market: "moneyline", team: "away", price: 140, point: null },
+        { book: "FanDuel", market: "spreads", team: "home", price: -110, point: -3 },
+        { book: "FanDuel", market: "totals", team: "away", price: -105, point: 45 },
+        { book: "FanDuel", market: "totals", team: "home", price: -115, point: 45.5 },
+      ],
+    );
+  });
+
+  it("reports markets that don't match their schema", async () => {
+    const issues: PayloadIssue[] = [];
+    const item = espnOddsItemSchema.parse({ provider: { name: "BetMGM" }, markets: [{ type: 7, outcomes: [] }] });
+    assert.deepEqual(await quotesFromOddsItem(item, null, null, issues), []);
+    assert.equal(issues.length, 1);
+    assert.equal(issues[0].resource, "odds.market");
+  });
+});
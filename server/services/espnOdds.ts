@@ -1,7 +1,95 @@
+import type { FetchOptions, OddsProvider, ProviderBookmaker, ProviderEvent, ProviderHealth, ProviderMarket } from "./oddsProvider.js";
+import type { GameStatus } from "@shared/schema.js";
+import { teamResolver } from "./teamResolver.js";
+import { fetchEspnJson } from "./espnFetch.js";
+import {
+  espnOddsCollectionSchema,
+  espnOddsItemSchema,
+  espnOddsMarketSchema,
+  espnOddsOutcomeSchema,
+  espnScoreboardEventSchema,
+  espnScoreboardSchema,
+  parseItems,
+  parsePayload,
+  type EspnOddsItem,
+  type EspnScoreboardEvent,
+  type PayloadIssue,
+} from "./providerSchemas.js";
+
+type EspnLeague = {
+  path: string; // `${sport}/leagues/${league}` segment shared by the site and core APIs
+  groups?: string; // scoreboard group filter; college defaults to ranked/featured games only
+  daysAhead: number; // default scoreboard window
+};
+
+// Our sport IDs -> ESPN league paths
+const ESPN_LEAGUES: Record<string, EspnLeague> = {
+  NFL: { path: "football/nfl", daysAhead: 7 },
+  NBA: { path: "basketball/nba", daysAhead: 2 },
+  MLB: { path: "baseball/mlb", daysAhead: 2 },
+  NHL: { path: "hockey/nhl", daysAhead: 2 },
+  NCAAF: { path: "football/college-football", groups: "80", daysAhead: 7 },
+  NCAAB: { path: "basketball/mens-college-basketball", groups: "50", daysAhead: 2 },
+  WNBA: { path: "basketball/wnba", daysAhead: 2 },
+  MLS: { path: "soccer/usa.1", daysAhead: 7 },
+};
+
+export type EspnDateRange = {
+  from?: Date;
+  to?: Date;
+};
+
+function getLeague(sport: string): EspnLeague {
+  const league = ESPN_LEAGUES[sport.toUpperCase()];
+  if (!league) throw new Error(`ESPN does not support ${sport}`);
+  return league;
+}
+
+function leagueUrl(api: "site" | "core", league: EspnLeague): string {
+  const [sportPath, leaguePath] = league.path.split("/");
+  return api === "site"
+    ? `https://site.api.espn.com/apis/site/v2/sports/${sportPath}/${leaguePath}`
+    : `https://sports.core.api.espn.com/v2/sports/${sportPath}/leagues/${leaguePath}`;
+}
+
+/** Our sport ID for a site/core API URL, for usage accounting. */
+function sportForUrl(url: string): string | undefined {
+  return Object.keys(ESPN_LEAGUES).find((sport) => {
+    const [sportPath, leaguePath] = ESPN_LEAGUES[sport].path.split("/");
+    return url.includes(`/${sportPath}/${leaguePath}/`) || url.includes(`/${sportPath}/leagues/${leaguePath}/`);
+  });
+}
+
+function espnDate(d: Date): string {
+  return d.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/** Scoreboard URL; without a range ESPN returns its own "current" slate (today, or this week for football). */
+function scoreboardUrl(league: EspnLeague, range?: EspnDateRange): string {
+  const params = new URLSearchParams({ limit: "500" });
+  if (league.groups) params.set("groups", league.groups);
+  if (range?.from || range?.to) {
+    const from = range.from ?? new Date();
+    const to = range.to ?? from;
+    params.set("dates", `${espnDate(from)}-${espnDate(to)}`);
+  }
+  return `${leagueUrl("site", league)}/scoreboard?${params}`;
+}
+
+/** Default fetch window for a sport: today through the league's `daysAhead`. */
+export function defaultEspnRange(sport: string): EspnDateRange {
+  const from = new Date();
+  return { from, to: new Date(from.getTime() + getLeague(sport).daysAhead * 24 * 60 * 60 * 1000) };
+}
+
+export function getEspnSports(): string[] {
+  return Object.keys(ESPN_LEAGUES);
+}
+
 export type OddsQuote = {
   book: string;
   market: "moneyline" | "spreads" | "totals";
-  team?: "home" | "away";
+  team?: "home" | "away" | "draw";
   price?: number | null;
   point?: number | null;
   updated: string;
@@ -9,13 +97,14 @@ export type OddsQuote = {
 
 export type GameOdds = {
   eventId: string;
-  homeTeam: string;
-  awayTeam: string;
+  homeTeam: string | null;
+  awayTeam: string | null;
   commenceTime: string;
   quotes: OddsQuote[];
   best: {
     moneylineHome?: OddsQuote | null;
     moneylineAway?: OddsQuote | null;
+    moneylineDraw?: OddsQuote | null;
     spreadHome?: OddsQuote | null;
     spreadAway?: OddsQuote | null;
     overTotal?: OddsQuote | null;
@@ -26,38 +115,17 @@ export type GameOdds = {
 type OddsResult = Record<string, GameOdds>;
 
 // ===== Fetch helpers =====
-async function getJson(url: string): Promise<any | null> {
-  try {
-    const res = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-        'Accept': 'application/json',
-      }
-    });
-    if (!res.ok) {
-      console.warn(`Failed to fetch ${url}: ${res.status}`);
-      return null;
-    }
-    const text = await res.text();
-    try { 
-      return JSON.parse(text); 
-    } catch (e) {
-      console.warn(`Failed to parse JSON from ${url}`);
-      return null;
-    }
-  } catch (error) {
-    console.error(`Error fetching ${url}:`, error);
-    return null;
-  }
+function getJson(url: string): Promise<any | null> {
+  return fetchEspnJson(url, { sport: sportForUrl(url) });
 }
 
+/** Follow a `$ref` link to its document; null when the referenced document can't be loaded. */
 async function expandOne(obj: any): Promise<any> {
   if (!obj) return obj;
   
   const ref = obj?.$ref || obj?.href;
   if (typeof ref === 'string' && ref.startsWith('http')) {
-    const expanded = await getJson(ref);
-    return expanded ?? obj;
+    return getJson(ref);
   }
   return obj;
 }
@@ -69,8 +137,8 @@ function toNum(v: any): number | null {
 }
 
 // Resolve competition ID from event
-async function resolveCompetitionId(eventId: string): Promise<string> {
-  const base = "https://sports.core.api.espn.com/v2/sports/football/leagues/nfl";
+async function resolveCompetitionId(league: EspnLeague, eventId: string): Promise<string> {
+  const base = leagueUrl("core", league);
   const ev = await getJson(`${base}/events/${eventId}`);
   
   if (ev?.competitions?.[0]) {
@@ -93,199 +161,190 @@ async function resolveCompetitionId(eventId: string): Promise<string> {
   return eventId;
 }
 
-// ===== Main function: Get NFL odds with all markets =====
-export async function getNflOddsToday(): Promise<OddsResult> {
-  console.log('🏈 Fetching NFL odds from ESPN...');
-  
-  const sb = await getJson("https://site.api.espn.com/apis/site/v2/sports/football/nfl/scoreboard");
-  const out: OddsResult = {};
-  
-  if (!sb?.events?.length) {
-    console.log('No events found in scoreboard');
-    return out;
-  }
-
-  console.log(`Found ${sb.events.length} NFL events`);
+/** Scoreboard events for a league; invalid events are dropped and reported in `issues`. */
+async function getScoreboardEvents(league: EspnLeague, range: EspnDateRange | undefined, issues?: PayloadIssue[]): Promise<EspnScoreboardEvent[]> {
+  const sb = await getJson(scoreboardUrl(league, range));
+  if (!sb) return [];
+  const { events } = parsePayload(espnScoreboardSchema, sb, "espn", "scoreboard");
+  return parseItems(espnScoreboardEventSchema, events, "espn", "scoreboard.event", issues);
+}
 
-  for (const ev of sb.events) {
-    const eventId: string | undefined = ev?.id;
-    if (!eventId) continue;
+function competitorTeam(ev: EspnScoreboardEvent, side: 'home' | 'away'): string | null {
+  return ev.competitions[0].competitors.find((c) => c.homeAway === side)?.team?.displayName ?? null;
+}
 
-    // Get team names from the event
-    const homeTeam = ev?.competitions?.[0]?.competitors?.find((c: any) => c.homeAway === 'home')?.team?.displayName || 'Home';
-    const awayTeam = ev?.competitions?.[0]?.competitors?.find((c: any) => c.homeAway === 'away')?.team?.displayName || 'Away';
-    const commenceTime = ev?.date || new Date().toISOString();
+/** Quotes from one sportsbook's entry in a competition's odds collection. */
+export async function quotesFromOddsItem(
+  prov: EspnOddsItem,
+  homeTeam: string | null,
+  awayTeam: string | null,
+  issues?: PayloadIssue[],
+): Promise<OddsQuote[]> {
+  const providerName =
+    prov.provider?.name ||
+    prov.provider?.displayName ||
+    prov.name ||
+    prov.displayName ||
+    'Unknown';
+
+  const updated = prov.lastModified || prov.updated || new Date().toISOString();
+  const quotes: OddsQuote[] = [];
+
+  // --- Case A: Direct fields (moneyline, spread, total), or the core API's per-team odds ---
+
+  // Moneyline
+  const mlHome = prov.moneyline?.home ?? prov.homeTeamOdds?.moneyLine;
+  const mlAway = prov.moneyline?.away ?? prov.awayTeamOdds?.moneyLine;
+  const mlDraw = prov.drawOdds?.moneyLine;
+  if (mlHome != null) quotes.push({ book: providerName, market: "moneyline", team: "home", price: toNum(mlHome), updated });
+  if (mlAway != null) quotes.push({ book: providerName, market: "moneyline", team: "away", price: toNum(mlAway), updated });
+  if (mlDraw != null) quotes.push({ book: providerName, market: "moneyline", team: "draw", price: toNum(mlDraw), updated });
+
+  // Spread; each side's line is read from the feed, never derived from the other's
+  const spread = typeof prov.spread === 'object' ? prov.spread : null;
+  const spreadHome = spread ? spread.home : prov.spread ?? prov.homeTeamOdds?.current?.pointSpread?.american;
+  const spreadAway = spread ? spread.away : prov.awayTeamOdds?.current?.pointSpread?.american;
+  if (spreadHome != null) {
+    quotes.push({
+      book: providerName,
+      market: "spreads",
+      team: "home",
+      price: toNum(spread?.homeOdds || prov.homeTeamOdds?.spreadOdds || -110),
+      point: toNum(spreadHome),
+      updated,
+    });
+  }
+  if (spreadAway != null) {
+    quotes.push({
+      book: providerName,
+      market: "spreads",
+      team: "away",
+      price: toNum(spread?.awayOdds || prov.awayTeamOdds?.spreadOdds || -110),
+      point: toNum(spreadAway),
+      updated,
+    });
+  }
 
-    let compId: string | undefined = ev?.competitions?.[0]?.id;
-    
-    // Resolve compId if missing
-    if (!compId) {
-      compId = await resolveCompetitionId(eventId);
+  // Total (Over/Under)
+  const total = prov.total ?? prov.overUnder;
+  if (total != null) {
+    const line = typeof total === 'object' ? total : null;
+    const totalValue = toNum(line ? line.total || line.value : total);
+    if (totalValue != null) {
+      quotes.push({
+        book: providerName,
+        market: "totals",
+        team: "home", // "over" pseudo-team
+        price: toNum(line?.overOdds || prov.overOdds || -110),
+        point: totalValue,
+        updated,
+      });
+      quotes.push({
+        book: providerName,
+        market: "totals",
+        team: "away", // "under" pseudo-team
+        price: toNum(line?.underOdds || prov.underOdds || -110),
+        point: totalValue,
+        updated,
+      });
     }
+  }
 
-    const oddsUrl = `https://sports.core.api.espn.com/v2/sports/football/leagues/nfl/events/${eventId}/competitions/${compId}/odds`;
-    console.log(`Fetching odds for ${awayTeam} @ ${homeTeam} (${eventId})`);
-    
-    const oddsRoot = await getJson(oddsUrl);
-
-    const items: any[] =
-      Array.isArray(oddsRoot) ? oddsRoot :
-      Array.isArray(oddsRoot?.items) ? oddsRoot.items :
-      [];
-
-    const quotes: OddsQuote[] = [];
-
-    for (const item of items) {
-      // Expand provider references
-      const prov = await expandOne(item);
-      if (!prov) continue;
+  // --- Case B: Markets array ---
+  const markets = (await Promise.all((prov.markets ?? prov.odds ?? []).map(expandOne))).filter((m) => m != null);
 
-      const providerName =
-        prov?.provider?.name ||
-        prov?.provider?.displayName ||
-        prov?.name ||
-        prov?.displayName ||
-        'Unknown';
+  for (const m of parseItems(espnOddsMarketSchema, markets, "espn", "odds.market", issues)) {
+    const marketType = (m.type || m.key || m.name || '').toLowerCase();
 
-      const updated = prov?.lastModified || prov?.updated || new Date().toISOString();
+    let market: "moneyline" | "spreads" | "totals" | null = null;
+    if (marketType.includes('moneyline') || marketType === 'ml') {
+      market = "moneyline";
+    } else if (marketType.includes('spread') || marketType.includes('point')) {
+      market = "spreads";
+    } else if (marketType.includes('total') || marketType.includes('over')) {
+      market = "totals";
+    }
 
-      // --- Case A: Direct fields (moneyline, spread, total) ---
-      
-      // Moneyline
-      const ml = prov?.moneyline;
-      if (ml && (ml.home != null || ml.away != null)) {
-        if (ml.home != null) {
-          quotes.push({ 
-            book: providerName, 
-            market: "moneyline", 
-            team: "home", 
-            price: toNum(ml.home), 
-            updated 
-          });
-        }
-        if (ml.away != null) {
-          quotes.push({ 
-            book: providerName, 
-            market: "moneyline", 
-            team: "away", 
-            price: toNum(ml.away), 
-            updated 
-          });
-        }
+    if (!market) continue;
+
+    const outcomes = (await Promise.all(m.outcomes.map(expandOne))).filter((o) => o != null);
+
+    for (const o of parseItems(espnOddsOutcomeSchema, outcomes, "espn", "odds.outcome", issues)) {
+      let team: "home" | "away" | undefined;
+      const outcomeName = (o.name || '').toLowerCase();
+
+      if (market === "totals") {
+        // For totals, map over/under to home/away for consistency
+        const overUnder = (o.name || o.type || '').toLowerCase();
+        team = overUnder.includes('over') ? "home" :
+               overUnder.includes('under') ? "away" : undefined;
+      } else {
+        // For moneyline and spreads
+        team = o.homeAway === 'home' ? "home" :
+               o.homeAway === 'away' ? "away" :
+               outcomeName.includes('home') ? "home" :
+               outcomeName.includes('away') ? "away" :
+               outcomeName === homeTeam?.toLowerCase() ? "home" :
+               outcomeName === awayTeam?.toLowerCase() ? "away" :
+               undefined;
       }
 
-      // Spread
-      const spread = prov?.spread;
-      if (spread) {
-        if (spread.home != null) {
-          quotes.push({ 
-            book: providerName, 
-            market: "spreads", 
-            team: "home", 
-            price: toNum(spread.homeOdds || -110),
-            point: toNum(spread.home),
-            updated 
-          });
-        }
-        if (spread.away != null) {
-          quotes.push({ 
-            book: providerName, 
-            market: "spreads", 
-            team: "away", 
-            price: toNum(spread.awayOdds || -110),
-            point: toNum(spread.away),
-            updated 
-          });
-        }
-      }
+      const price = toNum(o.price || o.odds || o.americanOdds || o.moneyline);
+      const point = market === "spreads" ? toNum(o.spread || o.pointSpread || o.line) :
+                    market === "totals" ? toNum(o.total || o.overUnder || m.total) :
+                    null;
 
-      // Total (Over/Under)
-      const total = prov?.total || prov?.overUnder;
-      if (total) {
-        const totalValue = toNum(total.total || total.value || total);
-        if (totalValue != null) {
-          quotes.push({ 
-            book: providerName, 
-            market: "totals", 
-            team: "home", // "over" pseudo-team
-            price: toNum(total.overOdds || -110),
-            point: totalValue,
-            updated 
-          });
-          quotes.push({ 
-            book: providerName, 
-            market: "totals", 
-            team: "away", // "under" pseudo-team
-            price: toNum(total.underOdds || -110),
-            point: totalValue,
-            updated 
-          });
-        }
+      if (team && price !== null) {
+        quotes.push({ book: providerName, market, team, price, point, updated });
       }
+    }
+  }
 
-      // --- Case B: Markets array ---
-      const markets: any[] = Array.isArray(prov?.markets) ? prov.markets :
-                             Array.isArray(prov?.odds) ? prov.odds : [];
+  return quotes;
+}
 
-      for (const m0 of markets) {
-        const m = await expandOne(m0);
-        if (!m) continue;
+/** Every sportsbook's current quotes for one scoreboard event. */
+async function fetchEventQuotes(league: EspnLeague, ev: EspnScoreboardEvent, issues?: PayloadIssue[]): Promise<OddsQuote[]> {
+  const compId = ev.competitions[0].id ?? await resolveCompetitionId(league, ev.id);
+  const oddsRoot = await getJson(`${leagueUrl("core", league)}/events/${ev.id}/competitions/${compId}/odds`);
+  const { items } = oddsRoot ? parsePayload(espnOddsCollectionSchema, oddsRoot, "espn", "odds") : { items: [] };
+
+  // Expand provider references; ones that failed to load were already logged by the fetch layer
+  const expanded = (await Promise.all(items.map(expandOne))).filter((item) => item != null);
+  const homeTeam = competitorTeam(ev, 'home');
+  const awayTeam = competitorTeam(ev, 'away');
+  const quotes = await Promise.all(
+    parseItems(espnOddsItemSchema, expanded, "espn", "odds.item", issues)
+      .map((item) => quotesFromOddsItem(item, homeTeam, awayTeam, issues)),
+  );
+  return quotes.flat();
+}
 
-        const marketType = String(m?.type || m?.key || m?.name || '').toLowerCase();
-        
-        let market: "moneyline" | "spreads" | "totals" | null = null;
-        if (marketType.includes('moneyline') || marketType === 'ml') {
-          market = "moneyline";
-        } else if (marketType.includes('spread') || marketType.includes('point')) {
-          market = "spreads";
-        } else if (marketType.includes('total') || marketType.includes('over')) {
-          market = "totals";
-        }
-
-        if (!market) continue;
-
-        const outcomes: any[] = Array.isArray(m?.outcomes) ? m.outcomes : [];
-        
-        for (const o0 of outcomes) {
-          const o = await expandOne(o0);
-          if (!o) continue;
+// ===== Main function: Get a league's odds with all markets =====
+export async function getEspnOdds(sport: string, range?: EspnDateRange, issues?: PayloadIssue[]): Promise<OddsResult> {
+  const league = getLeague(sport);
+  console.log(`Fetching ${sport.toUpperCase()} odds from ESPN...`);
+  await teamResolver.ensureLoaded();
+  
+  const events = await getScoreboardEvents(league, range, issues);
+  const out: OddsResult = {};
+  
+  if (!events.length) {
+    console.log('No events found in scoreboard');
+    return out;
+  }
 
-          let team: "home" | "away" | undefined;
-          
-          if (market === "totals") {
-            // For totals, map over/under to home/away for consistency
-            const outcomeName = String(o?.name || o?.type || '').toLowerCase();
-            team = outcomeName.includes('over') ? "home" : 
-                   outcomeName.includes('under') ? "away" : undefined;
-          } else {
-            // For moneyline and spreads
-            team = o?.homeAway === 'home' ? "home" :
-                   o?.homeAway === 'away' ? "away" :
-                   String(o?.name || '').toLowerCase().includes('home') ? "home" :
-                   String(o?.name || '').toLowerCase().includes('away') ? "away" :
-                   String(o?.name || '').toLowerCase() === homeTeam.toLowerCase() ? "home" :
-                   String(o?.name || '').toLowerCase() === awayTeam.toLowerCase() ? "away" :
-                   undefined;
-          }
+  console.log(`Found ${events.length} ${sport.toUpperCase()} events`);
 
-          const price = toNum(o?.price || o?.odds || o?.americanOdds || o?.moneyline);
-          const point = market === "spreads" ? toNum(o?.spread || o?.pointSpread || o?.line) :
-                       market === "totals" ? toNum(o?.total || o?.overUnder || m?.total) :
-                       null;
-
-          if (team && price !== null) {
-            quotes.push({ 
-              book: providerName, 
-              market, 
-              team, 
-              price, 
-              point,
-              updated 
-            });
-          }
-        }
-      }
-    }
+  // Events are walked concurrently; fetchEspnJson bounds the actual request fan-out
+  await Promise.all(events.map(async (ev) => {
+    const eventId = ev.id;
+    const homeTeam = competitorTeam(ev, 'home');
+    const awayTeam = competitorTeam(ev, 'away');
+    const commenceTime = ev.date;
+
+    console.log(`Fetching odds for ${awayTeam} @ ${homeTeam} (${eventId})`);
+    const quotes = await fetchEventQuotes(league, ev, issues);
 
     // Calculate best odds
     const best: GameOdds['best'] = {};
@@ -293,10 +352,13 @@ export async function getNflOddsToday(): Promise<OddsResult> {
     // Best moneyline
     const mlHome = quotes.filter(q => q.market === "moneyline" && q.team === "home");
     const mlAway = quotes.filter(q => q.market === "moneyline" && q.team === "away");
+    const mlDraw = quotes.filter(q => q.market === "moneyline" && q.team === "draw");
     best.moneylineHome = mlHome.reduce((best, q) => 
       !best || (q.price && q.price > (best.price || -Infinity)) ? q : best, null as OddsQuote | null);
     best.moneylineAway = mlAway.reduce((best, q) => 
       !best || (q.price && q.price > (best.price || -Infinity)) ? q : best, null as OddsQuote | null);
+    best.moneylineDraw = mlDraw.reduce((best, q) => 
+      !best || (q.price && q.price > (best.price || -Infinity)) ? q : best, null as OddsQuote | null);
     
     // Best spreads (most favorable)
     const spreadHome = quotes.filter(q => q.market === "spreads" && q.team === "home");
@@ -320,17 +382,24 @@ export async function getNflOddsToday(): Promise<OddsResult> {
       quotes, 
       best 
     };
-  }
+  }));
 
   console.log(`✅ Processed ${Object.keys(out).length} events with odds`);
   return out;
 }
 
+export function getNflOddsToday(): Promise<OddsResult> {
+  return getEspnOdds("NFL");
+}
+
 // ===== Transform ESPN odds to your DB format =====
-export function transformEspnToDbFormat(espnOdds: OddsResult, sport: string = "NFL"): any[] {
-  const events: any[] = [];
+export function transformEspnToDbFormat(espnOdds: OddsResult, sport: string = "NFL"): ProviderEvent[] {
+  const events: ProviderEvent[] = [];
   
   for (const [eventId, data] of Object.entries(espnOdds)) {
+    const home = teamResolver.canonical(sport, data.homeTeam);
+    const away = teamResolver.canonical(sport, data.awayTeam);
+
     // Group quotes by bookmaker
     const bookmakerMap = new Map<string, OddsQuote[]>();
     
@@ -342,10 +411,10 @@ export function transformEspnToDbFormat(espnOdds: OddsResult, sport: string = "N
     }
     
     // Transform to your expected format
-    const bookmakers: any[] = [];
+    const bookmakers: ProviderBookmaker[] = [];
     
     for (const [bookName, bookQuotes] of bookmakerMap) {
-      const markets: any[] = [];
+      const markets: ProviderMarket[] = [];
       
       // Group by market type
       const marketGroups = {
@@ -359,17 +428,19 @@ export function transformEspnToDbFormat(espnOdds: OddsResult, sport: string = "N
         if (marketQuotes.length === 0) continue;
         
         const outcomes = marketQuotes.map(q => {
-          let name = q.team;
+          let name: string | null | undefined = q.team;
           if (marketKey === "totals") {
             name = q.team === "home" ? "Over" : "Under";
+          } else if (q.team === "draw") {
+            name = "Draw";
           } else if (marketKey === "moneyline" || marketKey === "spreads") {
-            name = q.team === "home" ? data.homeTeam : data.awayTeam;
+            name = q.team === "home" ? home.name : away.name;
           }
           
           return {
-            name,
-            price: q.price || 0,
-            point: q.point || null,
+            name: name ?? null,
+            price: q.price ?? 0,
+            point: q.point ?? null,
           };
         });
         
@@ -395,8 +466,10 @@ export function transformEspnToDbFormat(espnOdds: OddsResult, sport: string = "N
       sport_key: sport,
       sport_title: sport,
       commence_time: data.commenceTime,
-      home_team: data.homeTeam,
-      away_team: data.awayTeam,
+      home_team: home.name,
+      away_team: away.name,
+      home_team_id: home.teamId,
+      away_team_id: away.teamId,
       completed: false,
       bookmakers,
     });
@@ -405,6 +478,103 @@ export function transformEspnToDbFormat(espnOdds: OddsResult, sport: string = "N
   return events;
 }
 
+// ===== Scoreboard events (no odds) =====
+function espnGameStatus(status: EspnScoreboardEvent["status"]): GameStatus {
+  if (!status) return 'scheduled';
+  const name = status.type.name.toUpperCase();
+  if (name.includes('POSTPONED') || name.includes('SUSPENDED')) return 'postponed';
+  if (name.includes('CANCELED') || name.includes('CANCELLED') || name.includes('FORFEIT')) return 'canceled';
+  if (status.type.state === 'post') return 'final';
+  if (status.type.state === 'in') return 'in_progress';
+  return 'scheduled';
+}
+
+function scoreboardEventToProviderEvent(ev: EspnScoreboardEvent, sport: string): ProviderEvent {
+  const competitors = ev.competitions[0].competitors;
+  const home = competitors.find((c) => c.homeAway === 'home');
+  const away = competitors.find((c) => c.homeAway === 'away');
+  const homeTeam = teamResolver.canonical(sport, home?.team?.displayName);
+  const awayTeam = teamResolver.canonical(sport, away?.team?.displayName);
+
+  return {
+    id: `espn_${ev.id}`,
+    sport_key: sport,
+    sport_title: sport,
+    commence_time: ev.date,
+    home_team: homeTeam.name,
+    away_team: awayTeam.name,
+    home_team_id: homeTeam.teamId,
+    away_team_id: awayTeam.teamId,
+    completed: espnGameStatus(ev.status) === 'final',
+    home_score: toNum(home?.score),
+    away_score: toNum(away?.score),
+    status: espnGameStatus(ev.status),
+    period: ev.status?.period != null ? String(ev.status.period) : null,
+    clock: ev.status?.displayClock ?? null,
+    bookmakers: [],
+  };
+}
+
+/** In-play quotes for the league's games in progress on today's slate, with score, period and clock. */
+export async function getEspnLiveOdds(sport: string, issues?: PayloadIssue[]): Promise<ProviderEvent[]> {
+  const sportKey = sport.toUpperCase();
+  const league = getLeague(sportKey);
+  await teamResolver.ensureLoaded();
+
+  const live = (await getScoreboardEvents(league, undefined, issues)).filter((ev) => espnGameStatus(ev.status) === 'in_progress');
+  return Promise.all(live.map(async (ev) => {
+    const state = scoreboardEventToProviderEvent(ev, sportKey);
+    const quotes = await fetchEventQuotes(league, ev, issues);
+    const [priced] = transformEspnToDbFormat({
+      [ev.id]: { eventId: ev.id, homeTeam: state.home_team, awayTeam: state.away_team, commenceTime: ev.date, quotes, best: {} },
+    }, sportKey);
+    return { ...state, bookmakers: priced.bookmakers };
+  }));
+}
+
+// ===== OddsProvider adapter =====
+function rangeFromOptions(sport: string, options: FetchOptions): EspnDateRange {
+  return options.from || options.to ? { from: options.from, to: options.to } : defaultEspnRange(sport);
+}
+
+export const espnOddsProvider: OddsProvider = {
+  name: "ESPN",
+
+  capabilities() {
+    return { sports: getEspnSports(), markets: ["h2h", "spreads", "totals"], requiresApiKey: false };
+  },
+
+  async fetchEvents(sport: string, options: FetchOptions = {}): Promise<ProviderEvent[]> {
+    const sportKey = sport.toUpperCase();
+    const league = getLeague(sportKey);
+    await teamResolver.ensureLoaded();
+    const events = await getScoreboardEvents(league, rangeFromOptions(sportKey, options), options.issues);
+    return events.map((ev) => scoreboardEventToProviderEvent(ev, sportKey));
+  },
+
+  async fetchOdds(sport: string, options: FetchOptions = {}): Promise<ProviderEvent[]> {
+    const sportKey = sport.toUpperCase();
+    const odds = await getEspnOdds(sportKey, rangeFromOptions(sportKey, options), options.issues);
+    const events = transformEspnToDbFormat(odds, sportKey);
+    return options.limit ? events.slice(0, options.limit) : events;
+  },
+
+  async fetchLiveOdds(sport: string, options: FetchOptions = {}): Promise<ProviderEvent[]> {
+    return getEspnLiveOdds(sport, options.issues);
+  },
+
+  async health(): Promise<ProviderHealth> {
+    const sb = await getJson(scoreboardUrl(getLeague("NFL")));
+    return {
+      provider: "ESPN",
+      ok: Boolean(sb),
+      configured: true,
+      checkedAt: new Date().toISOString(),
+      ...(sb ? {} : { error: "Scoreboard request failed" }),
+    };
+  },
+};
+
 // ===== Debug helper =====
 export async function debugEspnOdds() {
   console.log('\n🔍 ESPN Odds Debug Report\n' + '='.repeat(50));
@@ -449,6 +619,9 @@ export async function debugEspnOdds() {
     if (firstData.best.moneylineAway) {
       console.log(`  • Best ML Away: ${firstData.best.moneylineAway.price} (${firstData.best.moneylineAway.book})`);
     }
+    if (firstData.best.moneylineDraw) {
+      console.log(`  • Best ML Draw: ${firstData.best.moneylineDraw.price} (${firstData.best.moneylineDraw.book})`);
+    }
   }
   
   console.log('\n' + '='.repeat(50));
@@ -0,0 +1,91 @@
+import { after, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { OddsProvider, ProviderFuturesMarket, ProviderFuturesOutcome } from "./oddsProvider.js";
+import { startTestDatabase } from "../testDatabase.js";
+
+const database = await startTestDatabase();
+after(() => database.stop());
+const { syncFutures } = await import("./futures.js");
+const { sportsDataIoService } = await import("./sportsDataIoApi.js");
+const { teamResolver } = await import("./teamResolver.js");
+const { storage } = await import("../storage.js");
+
+// fetchFutures is optional on the interface; SportsDataIO implements it
+const sdio = sportsDataIoService as Required<OddsProvider>;
+
+const quote = (book: string, team: string, price: number): ProviderFuturesOutcome => ({
+  selection: team,
+  team,
+  outcome_type: "yes",
+  bookmaker: { key: book, title: book },
+  price,
+  point: null,
+});
+
+const winner = (outcomes: ProviderFuturesOutcome[]): ProviderFuturesMarket => ({
+  id: "1",
+  name: "Super Bowl Winner",
+  season: "2024",
+  starts_at: "2025-02-09T23:30:00Z",
+  outcomes,
+});
+
+describe("syncFutures", () => {
+  beforeEach(async () => {
+    await database.reset();
+    await storage.upsertSport({ id: "NFL", title: "NFL" });
+    await storage.upsertSport({ id: "NBA", title: "NBA" });
+    await storage.upsertTeam({ sportId: "NFL", name: "Kansas City Chiefs", abbreviation: "KC", location: "Kansas City", aliases: ["KC Chiefs"] });
+    // Team IDs change with every reset
+    await teamResolver.refresh();
+  });
+
+  it("writes markets and puts every book's quote for a team on one selection", async (t) => {
+    t.mock.method(sdio, "fetchFutures", async () => [
+      winner([quote("DraftKings", "Kansas City Chiefs", 450), quote("FanDuel", "KC Chiefs", 500), quote("FanDuel", "Detroit Lions", 600)]),
+      { ...winner([]), id: "2", name: "AFC Winner" },
+    ]);
+
+    const result = await syncFutures("nfl", ["SportsDataIO"]);
+    assert.equal(result.season, "2024");
+    assert.equal(result.marketsUpdated, 1);
+    assert.equal(result.oddsUpdated, 3);
+
+    const [market] = await storage.getFuturesMarkets({ sportId: "NFL" });
+    assert.equal(market.marketType, "super_bowl_winner");
+    const board = await storage.getFuturesBoard(market.id);
+    assert.deepEqual(board.map((s) => [s.selection, Object.keys(s.books).sort(), s.best?.bookmakerId]), [
+      ["Kansas City Chiefs", ["draftkings", "fanduel"], "fanduel"],
+      ["Detroit Lions", ["fanduel"], "fanduel"],
+    ]);
+  });
+
+  it("snapshots only quotes whose price moved", async (t) => {
+    const fetchFutures = t.mock.method(sdio, "fetchFutures", async () => [winner([quote("DraftKings", "Kansas City Chiefs", 450)])]);
+    assert.equal((await syncFutures("NFL", ["SportsDataIO"])).snapshots, 1);
+    assert.equal((await syncFutures("NFL", ["SportsDataIO"])).snapshots, 0);
+
+    fetchFutures.mock.mockImplementation(async () => [winner([quote("DraftKings", "Kansas City Chiefs", 400)])]);
+    assert.equal((await syncFutures("NFL", ["SportsDataIO"])).snapshots, 1);
+
+    const [market] = await storage.getFuturesMarkets({ sportId: "NFL" });
+    assert.equal((await storage.getFuturesHistory(market.id, "kansas city chiefs")).length, 2);
+  });
+
+  it("keeps markets from different sports apart when they share a provider ID", async (t) => {
+    t.mock.method(sdio, "fetchFutures", async (sport: string) =>
+      sport === "NFL"
+        ? [winner([quote("DraftKings", "Kansas City Chiefs", 450)])]
+        : [{ ...winner([quote("DraftKings", "Boston Celtics", 300)]), name: "NBA Champion" }],
+    );
+    await syncFutures("NFL", ["SportsDataIO"]);
+    await syncFutures("NBA", ["SportsDataIO"]);
+    await syncFutures("NFL", ["SportsDataIO"]);
+
+    const [nfl] = await storage.getFuturesMarkets({ sportId: "NFL" });
+    const [nba] = await storage.getFuturesMarkets({ sportId: "NBA" });
+    assert.equal(nfl.name, "Super Bowl Winner");
+    assert.equal(nba.name, "NBA Champion");
+    assert.deepEqual((await storage.getFuturesBoard(nba.id)).map((s) => s.selection), ["Boston Celtics"]);
+  });
+});
@@ -0,0 +1,132 @@
+import { storage, type FuturesBatch } from "../storage.js";
+import type { InsertFuturesMarket } from "@shared/schema.js";
+import { supportsSport } from "./oddsProvider.js";
+import type { ProviderFuturesMarket } from "./oddsProvider.js";
+import { getOddsProvider, toDate, toNumber } from "./oddsPipeline.js";
+import { normalizeStatType } from "./playerProps.js";
+import { normalizeTeamName } from "./gameIdentity.js";
+import { bookmakerRegistry } from "./bookmakerRegistry.js";
+import { teamResolver } from "./teamResolver.js";
+import { ProviderValidationError, type PayloadIssue } from "./providerSchemas.js";
+
+// Futures move slowly; the scheduler pulls them at most this often per sport
+export const FUTURES_SOURCES = ["SportsDataIO"];
+export const FUTURES_MIN_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+export interface FuturesSyncResult {
+  source: string;
+  sport: string;
+  season: string | null;
+  marketsUpdated: number;
+  oddsUpdated: number;
+  snapshots: number; // quotes whose price or line moved
+  errors: string[];
+  validationIssues: PayloadIssue[];
+  timestamp: Date;
+}
+
+function emptyFuturesSync(source: string, sport: string, season: string | null): FuturesSyncResult {
+  return {
+    source,
+    sport,
+    season,
+    marketsUpdated: 0,
+    oddsUpdated: 0,
+    snapshots: 0,
+    errors: [],
+    validationIssues: [],
+    timestamp: new Date(),
+  };
+}
+
+/** Upsert the markets, then every book's quotes against their IDs. */
+async function persistFutures(markets: ProviderFuturesMarket[], source: string, sport: string): Promise<FuturesSyncResult> {
+  const result = emptyFuturesSync(source, sport, markets[0]?.season ?? null);
+  await Promise.all([bookmakerRegistry.ensureLoaded(), teamResolver.ensureLoaded()]);
+
+  const marketRows: InsertFuturesMarket[] = markets
+    .filter((m) => m.outcomes.length > 0)
+    .map((m) => ({
+      sportId: sport,
+      season: m.season,
+      name: m.name,
+      // Same normalization as prop stats: 'Super Bowl Winner' -> 'super_bowl_winner'
+      marketType: normalizeStatType(m.name),
+      provider: source,
+      externalId: m.id,
+      settlesAt: toDate(m.starts_at),
+    }));
+  const written = await storage.upsertFuturesMarkets(marketRows);
+  const marketIds = new Map(written.map((m) => [m.externalId, m.id]));
+  result.marketsUpdated = written.length;
+
+  const batch: FuturesBatch = { bookmakers: [], odds: [] };
+  for (const market of markets) {
+    const marketId = marketIds.get(market.id);
+    if (!marketId) continue;
+
+    for (const outcome of market.outcomes) {
+      const price = toNumber(outcome.price);
+      if (!price) continue;
+
+      const book = bookmakerRegistry.resolve(source, outcome.bookmaker.key, outcome.bookmaker.title);
+      batch.bookmakers.push({ id: book.id, title: book.title, lastUpdate: toDate(outcome.last_update) ?? new Date() });
+
+      // Team selections use the registry's canonical name, so every book's quote lands on one row
+      const team = outcome.team ? teamResolver.canonical(sport, outcome.team) : null;
+      const selection = team?.teamId ? team.name! : outcome.selection;
+      const point = toNumber(outcome.point);
+      batch.odds.push({
+        marketId,
+        bookmakerId: book.id,
+        selection,
+        selectionKey: normalizeTeamName(selection),
+        teamId: team?.teamId ?? null,
+        outcomeType: outcome.outcome_type,
+        price: String(price),
+        point: point != null ? String(point) : null,
+      });
+    }
+  }
+
+  try {
+    const applied = await storage.applyFuturesBatch(batch);
+    result.oddsUpdated = applied.odds;
+    result.snapshots = applied.snapshots;
+  } catch (error: any) {
+    result.errors.push(`Write failed: ${error.message}`);
+  }
+  return result;
+}
+
+/**
+ * Pull a sport's futures for `season` (default: the provider's current season) from the first
+ * source in `sources` that returns any markets.
+ */
+export async function syncFutures(sport: string, sources: string[] = FUTURES_SOURCES, season?: string): Promise<FuturesSyncResult> {
+  const sportKey = sport.toUpperCase();
+  const errors: string[] = [];
+  const issues: PayloadIssue[] = [];
+
+  for (const name of sources) {
+    const provider = getOddsProvider(name);
+    if (!provider?.fetchFutures || !supportsSport(provider, sportKey)) continue;
+
+    let markets: ProviderFuturesMarket[];
+    try {
+      markets = await provider.fetchFutures(sportKey, season, { issues });
+    } catch (error: any) {
+      if (error instanceof ProviderValidationError) issues.push(...error.issues);
+      errors.push(`${provider.name}: ${error.message}`);
+      continue;
+    }
+    if (markets.length === 0) continue;
+
+    const result = await persistFutures(markets, provider.name, sportKey);
+    result.errors.unshift(...errors);
+    result.validationIssues = issues;
+    return result;
+  }
+
+  return { ...emptyFuturesSync("none", sportKey, season ?? null), errors, validationIssues: issues };
+}
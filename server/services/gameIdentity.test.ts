@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Game } from "@shared/schema.js";
+
+process.env.DATABASE_URL ??= "postgres://localhost/test";
+const { isSameEvent, newGameId, normalizeTeamName, resolveCanonicalGames, teamsMatch } = await import("./gameIdentity.js");
+const { storage } = await import("../storage.js");
+
+describe("team matching", () => {
+  it("normalizes case, accents and punctuation", () => {
+    assert.equal(normalizeTeamName("  Atlético  Madrid "), "atletico madrid");
+    assert.equal(normalizeTeamName("St. Louis Blues"), "st louis blues");
+  });
+
+  it("matches a nickname against the full name, on word boundaries only", () => {
+    assert.ok(teamsMatch("Rams", "Los Angeles Rams"));
+    assert.ok(teamsMatch("LOS ANGELES RAMS", "los angeles rams"));
+    assert.ok(!teamsMatch("Angeles", "Los Angeles Rams"));
+    assert.ok(!teamsMatch("Sox", "Red Soxx"));
+    assert.ok(!teamsMatch("", "Rams"));
+  });
+});
+
+describe("isSameEvent", () => {
+  const game = {
+    homeTeam: "Kansas City Chiefs",
+    awayTeam: "Baltimore Ravens",
+    commenceTime: new Date("2024-09-06T00:20:00Z"),
+  };
+
+  it("matches the same fixture with different names and a nearby kickoff", () => {
+    assert.ok(isSameEvent(game, { homeTeam: "Chiefs", awayTeam: "Ravens", commenceTime: new Date("2024-09-06T00:15:00Z") }));
+  });
+
+  it("doesn't match swapped sides or a kickoff hours away", () => {
+    assert.ok(!isSameEvent(game, { ...game, homeTeam: game.awayTeam, awayTeam: game.homeTeam }));
+    assert.ok(!isSameEvent(game, { ...game, commenceTime: new Date("2024-09-06T03:30:00Z") }));
+  });
+
+  it("trusts registry team IDs over names when both sides have them", () => {
+    const withIds = { ...game, homeTeamId: "nfl-kc", awayTeamId: "nfl-bal" };
+    assert.ok(isSameEvent(withIds, { ...withIds, homeTeam: "KC", awayTeam: "BAL" }));
+    assert.ok(!isSameEvent(withIds, { ...withIds, homeTeamId: "nfl-lv" }));
+  });
+});
+
+describe("newGameId", () => {
+  it("namespaces sport-scoped IDs by provider and sport", () => {
+    assert.equal(newGameId("SportsDataIO", "NBA", "18234"), "sportsdataio_nba_18234");
+    assert.notEqual(newGameId("SportsDataIO", "NBA", "18234"), newGameId("SportsDataIO", "NHL", "18234"));
+  });
+
+  it("keeps IDs the provider already prefixes", () => {
+    assert.equal(newGameId("ESPN", "NFL", "espn_401547"), "espn_401547");
+  });
+});
+
+describe("resolveCanonicalGames", () => {
+  const stored = (id: string, homeTeam: string, awayTeam: string, commenceTime: string) =>
+    ({ id, sportId: "NFL", homeTeam, awayTeam, homeTeamId: null, awayTeamId: null, commenceTime: new Date(commenceTime) }) as Game;
+  const chiefs = stored("espn_401", "Kansas City Chiefs", "Baltimore Ravens", "2024-09-06T00:20:00Z");
+  const eagles = stored("espn_402", "Philadelphia Eagles", "Green Bay Packers", "2024-09-07T00:15:00Z");
+
+  it("resolves a whole sync from one mapping read and one candidate read, without writing links", async (t) => {
+    const byIds = t.mock.method(storage, "getGamesByExternalIds", async () => [{ externalId: "18001", game: chiefs }]);
+    const between = t.mock.method(storage, "getGamesBetween", async () => [chiefs, eagles]);
+
+    const resolved = await resolveCanonicalGames("SportsDataIO", "NFL", [
+      { externalId: "18001", homeTeam: "Chiefs", awayTeam: "Ravens", commenceTime: new Date("2024-09-06T00:20:00Z") },
+      { externalId: "18002", homeTeam: "Eagles", awayTeam: "Packers", commenceTime: new Date("2024-09-07T00:10:00Z") },
+      { externalId: "18003", homeTeam: "Bills", awayTeam: "Cardinals", commenceTime: new Date("2024-09-08T17:00:00Z") },
+    ]);
+
+    assert.deepEqual(resolved.get("18001"), { gameId: "espn_401", existing: chiefs, mapped: true });
+    assert.deepEqual(resolved.get("18002"), { gameId: "espn_402", existing: eagles, mapped: false });
+    assert.deepEqual(resolved.get("18003"), { gameId: "sportsdataio_nfl_18003", mapped: false });
+
+    assert.equal(byIds.mock.callCount(), 1);
+    assert.equal(between.mock.callCount(), 1);
+    const [, from, to] = between.mock.calls[0].arguments;
+    assert.equal(from?.toISOString(), "2024-09-05T22:20:00.000Z");
+    assert.equal(to?.toISOString(), "2024-09-08T19:00:00.000Z");
+  });
+
+  it("skips the reads when there is nothing to resolve", async (t) => {
+    const byIds = t.mock.method(storage, "getGamesByExternalIds", async () => []);
+    assert.equal((await resolveCanonicalGames("ESPN", "NFL", [])).size, 0);
+    assert.equal(byIds.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,128 @@
+import { storage } from "../storage.js";
+import type { Game } from "@shared/schema.js";
+import type { ProviderEvent } from "./oddsProvider.js";
+
+// Feeds disagree on kickoff by minutes, never by hours (MLB doubleheaders are ~3h+ apart)
+export const COMMENCE_TOLERANCE_MS = 2 * 60 * 60 * 1000;
+
+type EventIdentity = {
+  homeTeam: string;
+  awayTeam: string;
+  homeTeamId?: string | null;
+  awayTeamId?: string | null;
+  commenceTime: Date;
+};
+
+export function normalizeTeamName(name: string): string {
+  return String(name || "")
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9 ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Exact normalized match, or one name being the trailing part of the other ("Rams" / "Los Angeles Rams"). */
+export function teamsMatch(a: string, b: string): boolean {
+  const x = normalizeTeamName(a);
+  const y = normalizeTeamName(b);
+  if (!x || !y) return false;
+  return x === y || x.endsWith(` ${y}`) || y.endsWith(` ${x}`);
+}
+
+function sameTeam(nameA: string, nameB: string, idA?: string | null, idB?: string | null): boolean {
+  if (idA && idB) return idA === idB;
+  return teamsMatch(nameA, nameB);
+}
+
+export function isSameEvent(a: EventIdentity, b: EventIdentity): boolean {
+  return (
+    sameTeam(a.homeTeam, b.homeTeam, a.homeTeamId, b.homeTeamId) &&
+    sameTeam(a.awayTeam, b.awayTeam, a.awayTeamId, b.awayTeamId) &&
+    Math.abs(a.commenceTime.getTime() - b.commenceTime.getTime()) <= COMMENCE_TOLERANCE_MS
+  );
+}
+
+/**
+ * ID for a game first seen from `provider`. Feeds whose event IDs are only unique within a
+ * sport (SportsDataIO's GameID) are namespaced by provider and sport; ones that already prefix
+ * their IDs ("espn_401547", "rapidapi_abc") are globally unique and kept as they are.
+ */
+export function newGameId(provider: string, sport: string, externalId: string): string {
+  const prefix = `${provider.toLowerCase()}_`;
+  return externalId.startsWith(prefix) ? externalId : `${prefix}${sport.toLowerCase()}_${externalId}`;
+}
+
+type ProviderEventIdentity = EventIdentity & { externalId: string };
+
+/** Identities of the events that have both teams and a valid start time; the rest can't be matched. */
+export function eventIdentities(events: ProviderEvent[]): ProviderEventIdentity[] {
+  return events.flatMap((event) => {
+    const commenceTime = event?.commence_time ? new Date(event.commence_time) : null;
+    if (!event?.home_team || !event?.away_team || !commenceTime || isNaN(commenceTime.getTime())) return [];
+    return [{
+      externalId: event.id,
+      homeTeam: event.home_team,
+      awayTeam: event.away_team,
+      homeTeamId: event.home_team_id,
+      awayTeamId: event.away_team_id,
+      commenceTime,
+    }];
+  });
+}
+
+/** Where a provider event lands: its canonical game, and whether the provider's ID is already linked to it. */
+export type CanonicalGame = { gameId: string; existing?: Game; mapped: boolean };
+
+/**
+ * Resolve a sync's provider events to canonical games from two reads made up front: the
+ * provider's stored ID mappings and the sport's games around the events' start times. An
+ * event matches an already-mapped game first, then a stored game with the same
+ * sport/teams/time, and otherwise gets the ID a new game should be created with. Nothing is
+ * written here; callers queue the missing links (`mapped: false`) with the rest of their writes.
+ */
+export async function resolveCanonicalGames(
+  provider: string,
+  sport: string,
+  events: ProviderEventIdentity[],
+): Promise<Map<string, CanonicalGame>> {
+  const resolved = new Map<string, CanonicalGame>();
+  if (events.length === 0) return resolved;
+
+  const times = events.map((e) => e.commenceTime.getTime());
+  const [mappings, candidates] = await Promise.all([
+    storage.getGamesByExternalIds(provider, sport, events.map((e) => e.externalId)),
+    storage.getGamesBetween(
+      sport,
+      new Date(Math.min(...times) - COMMENCE_TOLERANCE_MS),
+      new Date(Math.max(...times) + COMMENCE_TOLERANCE_MS),
+    ),
+  ]);
+  const mapped = new Map(mappings.map((m) => [m.externalId, m.game]));
+
+  for (const event of events) {
+    const game = mapped.get(event.externalId);
+    if (game) {
+      resolved.set(event.externalId, { gameId: game.id, existing: game, mapped: true });
+      continue;
+    }
+
+    const match = candidates.find((g) =>
+      isSameEvent(event, {
+        homeTeam: g.homeTeam,
+        awayTeam: g.awayTeam,
+        homeTeamId: g.homeTeamId,
+        awayTeamId: g.awayTeamId,
+        commenceTime: g.commenceTime,
+      })
+    );
+    resolved.set(
+      event.externalId,
+      match
+        ? { gameId: match.id, existing: match, mapped: false }
+        : { gameId: newGameId(provider, sport, event.externalId), mapped: false },
+    );
+  }
+  return resolved;
+}
@@ -0,0 +1,95 @@
+import { after, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { ProviderEvent } from "./oddsProvider.js";
+import { startTestDatabase } from "../testDatabase.js";
+
+const database = await startTestDatabase();
+after(() => database.stop());
+const { syncResults } = await import("./gameResults.js");
+const { syncFromProviders } = await import("./oddsPipeline.js");
+const { espnOddsProvider } = await import("./espnOdds.js");
+const { sportsDataIoService } = await import("./sportsDataIoApi.js");
+const { storage } = await import("../storage.js");
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+const event: ProviderEvent = {
+  id: "espn_401",
+  sport_key: "NFL",
+  commence_time: hoursAgo(4),
+  home_team: "Kansas City Chiefs",
+  away_team: "Baltimore Ravens",
+  bookmakers: [{
+    key: "draftkings",
+    title: "DraftKings",
+    markets: [{ key: "h2h", outcomes: [{ name: "Kansas City Chiefs", price: -170, point: null }, { name: "Baltimore Ravens", price: 145, point: null }] }],
+  }],
+};
+
+const final: ProviderEvent = { ...event, bookmakers: [], status: "final", home_score: 27, away_score: 20 };
+
+describe("syncResults", () => {
+  beforeEach(async () => {
+    await database.reset();
+    await storage.upsertSport({ id: "NFL", title: "NFL" });
+    const fetchOdds = mock.method(espnOddsProvider, "fetchOdds", async () => [event]);
+    await syncFromProviders("NFL", ["ESPN"]);
+    fetchOdds.mock.restore();
+  });
+
+  it("finalizes games the odds sync created, once", async (t) => {
+    t.mock.method(espnOddsProvider, "fetchEvents", async () => [final]);
+
+    const result = await syncResults("nfl", ["ESPN"]);
+    assert.equal(result.source, "ESPN");
+    assert.equal(result.eventsChecked, 1);
+    assert.equal(result.gamesUpdated, 1);
+    assert.equal(result.gamesFinalized, 1);
+
+    const game = await storage.getGameByExternalId("ESPN", "NFL", "espn_401");
+    assert.equal(game?.status, "final");
+    assert.equal(game?.completed, true);
+    assert.deepEqual([game?.homeScore, game?.awayScore], [27, 20]);
+
+    const again = await syncResults("NFL", ["ESPN"]);
+    assert.equal(again.gamesUpdated, 0);
+    assert.equal(again.gamesFinalized, 0);
+  });
+
+  it("stops odds syncs from writing to finished games", async (t) => {
+    t.mock.method(espnOddsProvider, "fetchEvents", async () => [final]);
+    await syncResults("NFL", ["ESPN"]);
+
+    const game = await storage.getGameByExternalId("ESPN", "NFL", "espn_401");
+    const before = await storage.getOddsByGame(game!.id);
+    assert.equal(before.length, 2);
+    t.mock.method(espnOddsProvider, "fetchOdds", async () => [event]);
+    const resync = await syncFromProviders("NFL", ["ESPN"]);
+    assert.equal(resync.gamesSkipped, 1);
+    assert.deepEqual(await storage.getOddsByGame(game!.id), before);
+  });
+
+  it("counts events for games it doesn't have without creating them", async (t) => {
+    const other = { ...final, id: "espn_402", home_team: "Buffalo Bills", away_team: "Miami Dolphins" };
+    t.mock.method(espnOddsProvider, "fetchEvents", async () => [other, { ...final, id: "espn_403", commence_time: hoursAgo(24 * 10) }]);
+
+    const result = await syncResults("NFL", ["ESPN"]);
+    assert.equal(result.eventsChecked, 1);
+    assert.equal(result.unmatched, 1);
+    assert.equal(result.gamesUpdated, 0);
+    assert.equal(await storage.getGameByExternalId("ESPN", "NFL", "espn_402"), undefined);
+  });
+
+  it("falls back to the next source when one fails, matching its event to the same game", async (t) => {
+    t.mock.method(espnOddsProvider, "fetchEvents", async () => {
+      throw new Error("ESPN is down");
+    });
+    t.mock.method(sportsDataIoService, "fetchEvents", async () => [{ ...final, id: "18001" }]);
+
+    const result = await syncResults("NFL", ["ESPN", "SportsDataIO"]);
+    assert.equal(result.source, "SportsDataIO");
+    assert.deepEqual(result.errors, ["ESPN: ESPN is down"]);
+    assert.equal(result.gamesFinalized, 1);
+    assert.equal((await storage.getGameByExternalId("ESPN", "NFL", "espn_401"))?.status, "final");
+  });
+});
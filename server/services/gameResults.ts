@@ -0,0 +1,133 @@
+import { storage, type GameResultUpdate } from "../storage.js";
+import { supportsSport } from "./oddsProvider.js";
+import type { ProviderEvent } from "./oddsProvider.js";
+import { getOddsProvider } from "./oddsPipeline.js";
+import { eventIdentities, resolveCanonicalGames, type CanonicalGame } from "./gameIdentity.js";
+import { ProviderValidationError, type PayloadIssue } from "./providerSchemas.js";
+
+// ESPN first: its scoreboard is free and takes a date range; SportsDataIO's Schedules cost budget
+export const RESULT_SOURCES = ["ESPN", "SportsDataIO"];
+export const RESULTS_LOOKBACK_DAYS = 3;
+
+export interface ResultsSyncResult {
+  source: string;
+  sport: string;
+  eventsChecked: number;
+  gamesUpdated: number; // status or score changed
+  gamesFinalized: number;
+  unmatched: number; // events for games we don't have
+  errors: string[];
+  validationIssues: PayloadIssue[];
+  timestamp: Date;
+}
+
+export type ResultsSyncOptions = {
+  from?: Date;
+  to?: Date;
+};
+
+function emptyResultsSync(source: string, sport: string): ResultsSyncResult {
+  return {
+    source,
+    sport,
+    eventsChecked: 0,
+    gamesUpdated: 0,
+    gamesFinalized: 0,
+    unmatched: 0,
+    errors: [],
+    validationIssues: [],
+    timestamp: new Date(),
+  };
+}
+
+/** Compare feed events against stored games and write the ones whose status or score moved. */
+async function applyResults(events: ProviderEvent[], source: string, sport: string): Promise<ResultsSyncResult> {
+  const result = emptyResultsSync(source, sport);
+  const updates: GameResultUpdate[] = [];
+
+  let canonical: Map<string, CanonicalGame>;
+  try {
+    canonical = await resolveCanonicalGames(source, sport, eventIdentities(events));
+  } catch (error: any) {
+    result.errors.push(`Game lookup failed: ${error.message}`);
+    return result;
+  }
+
+  for (const event of events) {
+    const commenceTime = event.commence_time ? new Date(event.commence_time) : null;
+    if (!event.status || !event.home_team || !event.away_team || !commenceTime || isNaN(commenceTime.getTime())) continue;
+    result.eventsChecked++;
+
+    try {
+      const { existing } = canonical.get(event.id)!;
+      // Results only update games the odds sync created
+      if (!existing) {
+        result.unmatched++;
+        continue;
+      }
+
+      const homeScore = event.home_score ?? null;
+      const awayScore = event.away_score ?? null;
+      if (existing.status === event.status && existing.homeScore === homeScore && existing.awayScore === awayScore) continue;
+
+      updates.push({ gameId: existing.id, status: event.status, homeScore, awayScore });
+      if (event.status === "final" && existing.status !== "final") result.gamesFinalized++;
+    } catch (error: any) {
+      result.errors.push(`Event ${event.id}: ${error.message}`);
+    }
+  }
+
+  try {
+    result.gamesUpdated = await storage.applyGameResults(updates);
+  } catch (error: any) {
+    result.errors.push(`Write failed: ${error.message}`);
+    result.gamesFinalized = 0;
+  }
+  return result;
+}
+
+/**
+ * Pull status and scores for a sport's games in [from, to] (default: the last
+ * RESULTS_LOOKBACK_DAYS through tomorrow) from the first source in `sources` that returns
+ * events, and update the matching games. Finished games drop out of odds syncs and upcoming lists.
+ */
+export async function syncResults(
+  sport: string,
+  sources: string[] = RESULT_SOURCES,
+  options: ResultsSyncOptions = {},
+): Promise<ResultsSyncResult> {
+  const sportKey = sport.toUpperCase();
+  const now = Date.now();
+  const from = options.from ?? new Date(now - RESULTS_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const to = options.to ?? new Date(now + 24 * 60 * 60 * 1000);
+  const errors: string[] = [];
+  const issues: PayloadIssue[] = [];
+
+  for (const name of sources) {
+    const provider = getOddsProvider(name);
+    if (!provider || !supportsSport(provider, sportKey)) continue;
+
+    let events: ProviderEvent[];
+    try {
+      events = await provider.fetchEvents(sportKey, { from, to, issues });
+    } catch (error: any) {
+      if (error instanceof ProviderValidationError) issues.push(...error.issues);
+      errors.push(`${provider.name}: ${error.message}`);
+      continue;
+    }
+
+    // Schedule endpoints can return a whole season; only the window needs checking
+    const inWindow = events.filter((e) => {
+      const t = e.commence_time ? new Date(e.commence_time).getTime() : NaN;
+      return t >= from.getTime() && t <= to.getTime();
+    });
+    if (inWindow.length === 0) continue;
+
+    const result = await applyResults(inWindow, provider.name, sportKey);
+    result.errors.unshift(...errors);
+    result.validationIssues = issues;
+    return result;
+  }
+
+  return { ...emptyResultsSync("none", sportKey), errors, validationIssues: issues };
+}
@@ -0,0 +1,110 @@
+import { after, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { OddsProvider, ProviderEvent, ProviderMarket } from "./oddsProvider.js";
+import { startTestDatabase } from "../testDatabase.js";
+
+const database = await startTestDatabase();
+after(() => database.stop());
+const { getLiveBoard, syncLiveOdds } = await import("./liveOdds.js");
+const { syncFromProviders } = await import("./oddsPipeline.js");
+const { espnOddsProvider } = await import("./espnOdds.js");
+const { storage } = await import("../storage.js");
+
+// fetchLiveOdds is optional on the interface; ESPN implements it
+const espnLive = espnOddsProvider as Required<OddsProvider>;
+
+const moneyline = (home: number, away: number, period?: string): ProviderMarket => ({
+  key: "h2h",
+  period,
+  outcomes: [{ name: "Kansas City Chiefs", price: home, point: null }, { name: "Baltimore Ravens", price: away, point: null }],
+});
+
+const pregame: ProviderEvent = {
+  id: "espn_401",
+  sport_key: "NFL",
+  commence_time: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+  home_team: "Kansas City Chiefs",
+  away_team: "Baltimore Ravens",
+  bookmakers: [{ key: "draftkings", title: "DraftKings", markets: [moneyline(-170, 145)] }],
+};
+
+const live = (markets: ProviderMarket[], changes: Partial<ProviderEvent> = {}): ProviderEvent => ({
+  ...pregame,
+  status: "in_progress",
+  home_score: 14,
+  away_score: 10,
+  period: "Q2",
+  clock: "4:12",
+  bookmakers: [{ key: "draftkings", title: "DraftKings", markets }],
+  ...changes,
+});
+
+describe("syncLiveOdds", () => {
+  let gameId: string;
+
+  beforeEach(async () => {
+    await database.reset();
+    await storage.upsertSport({ id: "NFL", title: "NFL" });
+    const fetchOdds = mock.method(espnOddsProvider, "fetchOdds", async () => [pregame]);
+    await syncFromProviders("NFL", ["ESPN"]);
+    fetchOdds.mock.restore();
+    gameId = (await storage.getGameByExternalId("ESPN", "NFL", "espn_401"))!.id;
+  });
+
+  it("captures each segment's quotes with the game's state, skipping segments it doesn't know", async (t) => {
+    t.mock.method(espnLive, "fetchLiveOdds", async () => [
+      live([moneyline(-300, 240), moneyline(-200, 165, "1st Half"), moneyline(-110, -110, "5th Quarter")]),
+    ]);
+
+    const result = await syncLiveOdds("nfl", ["ESPN"]);
+    assert.equal(result.gamesLive, 1);
+    assert.equal(result.oddsCaptured, 4);
+
+    const game = await storage.getGameById(gameId);
+    assert.equal(game?.status, "in_progress");
+    assert.deepEqual([game?.homeScore, game?.awayScore], [14, 10]);
+
+    const [board] = await getLiveBoard("NFL");
+    assert.equal(board.clockPeriod, "Q2");
+    assert.equal(board.clock, "4:12");
+    assert.deepEqual(board.odds.map((o) => o.period).sort(), ["1h", "1h", "full_game", "full_game"]);
+
+    const [fullGame] = await getLiveBoard("NFL", "full_game");
+    assert.deepEqual(fullGame.odds.map((o) => [o.outcomeType, o.price]).sort(), [["away", "240.00"], ["home", "-300.00"]]);
+    assert.equal((await storage.getLiveOddsHistory(gameId, "h2h", "1h")).length, 2);
+  });
+
+  it("only captures quotes that moved since the last pull", async (t) => {
+    const fetchLiveOdds = t.mock.method(espnLive, "fetchLiveOdds", async () => [live([moneyline(-300, 240)])]);
+    await syncLiveOdds("NFL", ["ESPN"]);
+    assert.equal((await syncLiveOdds("NFL", ["ESPN"])).oddsCaptured, 0);
+
+    fetchLiveOdds.mock.mockImplementation(async () => [live([moneyline(-350, 240)], { clock: "1:05" })]);
+    assert.equal((await syncLiveOdds("NFL", ["ESPN"])).oddsCaptured, 1);
+
+    const [board] = await getLiveBoard("NFL");
+    assert.equal(board.odds.find((o) => o.outcomeType === "home")?.price, "-350.00");
+    assert.equal((await storage.getLiveOddsHistory(gameId, "h2h")).length, 3);
+  });
+
+  it("skips games that weren't synced pregame", async (t) => {
+    t.mock.method(espnLive, "fetchLiveOdds", async () => [
+      live([moneyline(-120, 100)], { id: "espn_402", home_team: "Buffalo Bills", away_team: "Miami Dolphins" }),
+    ]);
+
+    const result = await syncLiveOdds("NFL", ["ESPN"]);
+    assert.equal(result.gamesSkipped, 1);
+    assert.equal(result.oddsCaptured, 0);
+    assert.equal(await storage.getGameByExternalId("ESPN", "NFL", "espn_402"), undefined);
+  });
+
+  it("drops a game that ended off the live board", async (t) => {
+    const fetchLiveOdds = t.mock.method(espnLive, "fetchLiveOdds", async () => [live([moneyline(-300, 240)])]);
+    await syncLiveOdds("NFL", ["ESPN"]);
+    fetchLiveOdds.mock.mockImplementation(async () => [live([], { status: "final", home_score: 27, away_score: 20 })]);
+    await syncLiveOdds("NFL", ["ESPN"]);
+
+    assert.deepEqual(await getLiveBoard("NFL"), []);
+    assert.equal((await storage.getGameById(gameId))?.homeScore, 27);
+  });
+});
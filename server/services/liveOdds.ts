@@ -0,0 +1,183 @@
+import { storage, type GameResultUpdate, type LiveBatch } from "../storage.js";
+import type { Game, LiveOdds } from "@shared/schema.js";
+import { supportsSport } from "./oddsProvider.js";
+import type { ProviderEvent } from "./oddsProvider.js";
+import { getOddsProvider, lineKeyFor, mapOutcomeType, normalizeMarketKey, normalizePeriod, toDate, toNumber } from "./oddsPipeline.js";
+import { eventIdentities, resolveCanonicalGames, type CanonicalGame } from "./gameIdentity.js";
+import { bookmakerRegistry } from "./bookmakerRegistry.js";
+import { ProviderValidationError, type PayloadIssue } from "./providerSchemas.js";
+
+// ESPN first: free, and its scoreboard carries period and clock; SportsDataIO's live odds cost budget
+export const LIVE_SOURCES = ["ESPN", "SportsDataIO"];
+
+export interface LiveSyncResult {
+  source: string;
+  sport: string;
+  gamesLive: number; // in-progress games the feed reported that we have
+  gamesSkipped: number; // in-progress games we never synced pregame
+  oddsCaptured: number; // live rows written (unchanged lines aren't)
+  errors: string[];
+  validationIssues: PayloadIssue[];
+  timestamp: Date;
+}
+
+/** One game on the live board: its latest state and every book's latest in-play quote. */
+export type LiveGame = {
+  game: Game;
+  clockPeriod: string | null;
+  clock: string | null;
+  capturedAt: Date;
+  odds: LiveOdds[];
+};
+
+function emptyLiveSync(source: string, sport: string): LiveSyncResult {
+  return {
+    source,
+    sport,
+    gamesLive: 0,
+    gamesSkipped: 0,
+    oddsCaptured: 0,
+    errors: [],
+    validationIssues: [],
+    timestamp: new Date(),
+  };
+}
+
+/** Store one feed's in-play events against the games we already have, tagged with their state. */
+async function persistLiveEvents(events: ProviderEvent[], source: string, sport: string): Promise<LiveSyncResult> {
+  const result = emptyLiveSync(source, sport);
+  const batch: LiveBatch = { bookmakers: [], odds: [] };
+  const states: GameResultUpdate[] = [];
+  await bookmakerRegistry.ensureLoaded();
+
+  let canonical: Map<string, CanonicalGame>;
+  try {
+    canonical = await resolveCanonicalGames(source, sport, eventIdentities(events));
+  } catch (error: any) {
+    result.errors.push(`Game lookup failed: ${error.message}`);
+    return result;
+  }
+
+  for (const event of events) {
+    const commenceTime = toDate(event.commence_time);
+    if (!event.home_team || !event.away_team || !commenceTime) continue;
+
+    try {
+      const { existing } = canonical.get(event.id)!;
+      // Live mode never creates games; a game nobody priced pregame isn't worth tracking in play
+      if (!existing) {
+        result.gamesSkipped++;
+        continue;
+      }
+      result.gamesLive++;
+
+      const homeScore = event.home_score ?? existing.homeScore;
+      const awayScore = event.away_score ?? existing.awayScore;
+      states.push({ gameId: existing.id, status: event.status ?? "in_progress", homeScore, awayScore });
+
+      for (const bookmaker of event.bookmakers) {
+        const book = bookmakerRegistry.resolve(source, bookmaker.key, bookmaker.title);
+        batch.bookmakers.push({ id: book.id, title: book.title, lastUpdate: toDate(bookmaker.last_update) ?? new Date() });
+
+        for (const market of bookmaker.markets) {
+          const marketKey = normalizeMarketKey(market.key);
+          const period = normalizePeriod(market.period);
+          if (!marketKey || !period) continue;
+
+          for (const outcome of market.outcomes) {
+            const outcomeType = mapOutcomeType(marketKey, outcome, event);
+            const price = toNumber(outcome.price);
+            // Suspended markets come through as 0/empty prices; unattributable outcomes are dropped
+            // here rather than quarantined, since the next live pull replaces them seconds later
+            if (!price || !outcomeType) continue;
+
+            const point = toNumber(outcome.point);
+            const lineKey = lineKeyFor(marketKey, point);
+            if (lineKey === null) continue;
+            batch.odds.push({
+              gameId: existing.id,
+              bookmakerId: book.id,
+              market: marketKey,
+              outcomeType,
+              lineKey,
+              period,
+              price: String(price),
+              point: point != null ? String(point) : null,
+              source,
+              homeScore,
+              awayScore,
+              clockPeriod: event.period ?? null,
+              clock: event.clock ?? null,
+            });
+          }
+        }
+      }
+    } catch (error: any) {
+      result.errors.push(`Event ${event.id}: ${error.message}`);
+    }
+  }
+
+  try {
+    // State first, so a game that just ended drops off the live board with its final score
+    await storage.applyGameResults(states);
+    result.oddsCaptured = await storage.applyLiveBatch(batch);
+  } catch (error: any) {
+    result.errors.push(`Write failed: ${error.message}`);
+  }
+  return result;
+}
+
+/**
+ * Capture in-play odds for a sport's games in progress from the first source in `sources`
+ * that supports live odds and reports any. Only games that already exist are tracked.
+ */
+export async function syncLiveOdds(sport: string, sources: string[] = LIVE_SOURCES): Promise<LiveSyncResult> {
+  const sportKey = sport.toUpperCase();
+  const errors: string[] = [];
+  const issues: PayloadIssue[] = [];
+
+  for (const name of sources) {
+    const provider = getOddsProvider(name);
+    if (!provider?.fetchLiveOdds || !supportsSport(provider, sportKey)) continue;
+
+    let events: ProviderEvent[];
+    try {
+      events = await provider.fetchLiveOdds(sportKey, { issues });
+    } catch (error: any) {
+      if (error instanceof ProviderValidationError) issues.push(...error.issues);
+      errors.push(`${provider.name}: ${error.message}`);
+      continue;
+    }
+    if (events.length === 0) continue;
+
+    const result = await persistLiveEvents(events, provider.name, sportKey);
+    result.errors.unshift(...errors);
+    result.validationIssues = issues;
+    return result;
+  }
+
+  return { ...emptyLiveSync("none", sportKey), errors, validationIssues: issues };
+}
+
+/** Games in progress with their latest live quotes (every segment unless `period` is given), most recently captured first. */
+export async function getLiveBoard(sport?: string, period?: string): Promise<LiveGame[]> {
+  const rows = await storage.getLiveBoard(sport?.toUpperCase(), period);
+  const board = new Map<string, LiveGame>();
+
+  for (const { game, ...row } of rows) {
+    let entry = board.get(game.id);
+    if (!entry) {
+      entry = { game, clockPeriod: row.clockPeriod, clock: row.clock, capturedAt: row.capturedAt, odds: [] };
+      board.set(game.id, entry);
+    }
+    // The freshest capture carries the freshest state
+    if (row.capturedAt > entry.capturedAt) {
+      entry.clockPeriod = row.clockPeriod;
+      entry.clock = row.clock;
+      entry.capturedAt = row.capturedAt;
+    }
+    entry.odds.push(row);
+  }
+
+  return Array.from(board.values()).sort((a, b) => b.capturedAt.getTime() - a.capturedAt.getTime());
+}
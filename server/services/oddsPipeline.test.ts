@@ -0,0 +1,205 @@
+import { after, beforeEach, describe, it, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import type { ProviderEvent } from "./oddsProvider.js";
+import { startTestDatabase } from "../testDatabase.js";
+
+const database = await startTestDatabase();
+after(() => database.stop());
+const { lineKeyFor, mapOutcomeType, normalizePeriod, reprocessQuarantined, syncFromProviders } = await import("./oddsPipeline.js");
+const { espnOddsProvider } = await import("./espnOdds.js");
+const { storage } = await import("../storage.js");
+
+const event: ProviderEvent = {
+  id: "evt1",
+  sport_key: "soccer_epl",
+  commence_time: "2024-09-14T14:00:00Z",
+  home_team: "Arsenal",
+  away_team: "Tottenham Hotspur",
+  bookmakers: [],
+};
+
+const outcome = (name: string | null) => ({ name, price: -110, point: null });
+
+describe("normalizePeriod", () => {
+  it("treats a missing or full-game label as the full game", () => {
+    for (const label of [null, undefined, "", "Full Game", "full_game", "Pregame"]) {
+      assert.equal(normalizePeriod(label), "full_game");
+    }
+  });
+
+  it("maps spelled-out segments onto MARKET_PERIODS", () => {
+    assert.equal(normalizePeriod("1st Half"), "1h");
+    assert.equal(normalizePeriod("second-half"), "2h");
+    assert.equal(normalizePeriod("Third Quarter"), "3q");
+    assert.equal(normalizePeriod("1st Period"), "1p");
+    assert.equal(normalizePeriod("First 5 Innings"), "f5");
+    assert.equal(normalizePeriod("F5"), "f5");
+  });
+
+  it("accepts labels already in MARKET_PERIODS form", () => {
+    assert.equal(normalizePeriod("2Q"), "2q");
+    assert.equal(normalizePeriod("1h"), "1h");
+  });
+
+  it("rejects segments it doesn't know", () => {
+    assert.equal(normalizePeriod("5th Quarter"), null);
+    assert.equal(normalizePeriod("overtime"), null);
+  });
+});
+
+describe("mapOutcomeType", () => {
+  it("reads over/under on totals and alternate totals", () => {
+    assert.equal(mapOutcomeType("totals", outcome("Over"), event), "over");
+    assert.equal(mapOutcomeType("alternate_totals", outcome("Under 2.5"), event), "under");
+    assert.equal(mapOutcomeType("totals", outcome("Arsenal"), event), null);
+  });
+
+  it("attributes team names, including partial ones, to a side", () => {
+    assert.equal(mapOutcomeType("h2h", outcome("Arsenal"), event), "home");
+    assert.equal(mapOutcomeType("spreads", outcome("Tottenham"), event), "away");
+    assert.equal(mapOutcomeType("h2h", outcome("Chelsea"), event), null);
+    assert.equal(mapOutcomeType("h2h", outcome(null), event), null);
+  });
+
+  it("only takes a draw on the moneyline", () => {
+    assert.equal(mapOutcomeType("h2h", outcome("Draw"), event), "draw");
+    assert.equal(mapOutcomeType("draw_no_bet", outcome("Draw"), event), null);
+    assert.equal(mapOutcomeType("draw_no_bet", outcome("Arsenal"), event), "home");
+  });
+
+  it("orders double chance legs home/draw/away whatever way the feed writes them", () => {
+    assert.equal(mapOutcomeType("double_chance", outcome("1X"), event), "home_draw");
+    assert.equal(mapOutcomeType("double_chance", outcome("Draw or Arsenal"), event), "home_draw");
+    assert.equal(mapOutcomeType("double_chance", outcome("Tottenham Hotspur/Draw"), event), "draw_away");
+    assert.equal(mapOutcomeType("double_chance", outcome("12"), event), "home_away");
+    assert.equal(mapOutcomeType("double_chance", outcome("11"), event), null);
+  });
+});
+
+describe("lineKeyFor", () => {
+  it("keys main lines with an empty string", () => {
+    assert.equal(lineKeyFor("spreads", -3.5), "");
+    assert.equal(lineKeyFor("h2h", null), "");
+  });
+
+  it("keys alternate lines by their point, and can't key one without it", () => {
+    assert.equal(lineKeyFor("alternate_spreads", -3.5), "-3.5");
+    assert.equal(lineKeyFor("alternate_totals", 0), "0");
+    assert.equal(lineKeyFor("alternate_totals", null), null);
+  });
+});
+
+describe("syncFromProviders", () => {
+  beforeEach(async () => {
+    await database.reset();
+    await storage.upsertSport({ id: "NFL", title: "NFL" });
+  });
+
+  const upcoming: ProviderEvent = {
+    id: "espn_401",
+    sport_key: "NFL",
+    commence_time: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+    home_team: "Kansas City Chiefs",
+    away_team: "Baltimore Ravens",
+    bookmakers: [{
+      key: "draftkings",
+      title: "DraftKings",
+      markets: [{ key: "h2h", outcomes: [{ name: "Kansas City Chiefs", price: -170, point: null }, { name: "Baltimore Ravens", price: 145, point: null }] }],
+    }],
+  };
+
+  it("records every run in the sync ledger with its trigger, outcome and counts", async (t) => {
+    t.mock.method(espnOddsProvider, "fetchOdds", async () => [upcoming]);
+    await syncFromProviders("nfl", ["ESPN"], { trigger: "manual" });
+
+    const [run] = await storage.getSyncRuns({ sport: "NFL" });
+    assert.equal(run.source, "ESPN");
+    assert.equal(run.trigger, "manual");
+    assert.equal(run.status, "success");
+    assert.equal(run.gamesUpdated, 1);
+    assert.equal(run.oddsUpdated, 2);
+    assert.ok(run.finishedAt >= run.startedAt);
+  });
+
+  it("records a failed run and keeps the last success alongside it in the summary", async (t) => {
+    const fetchOdds = t.mock.method(espnOddsProvider, "fetchOdds", async () => [upcoming]);
+    await syncFromProviders("NFL", ["ESPN"], { trigger: "scheduled" });
+    fetchOdds.mock.mockImplementation(async () => {
+      throw new Error("ESPN is down");
+    });
+    await syncFromProviders("NFL", ["ESPN"], { trigger: "scheduled" });
+
+    const runs = await storage.getSyncRuns({ sport: "NFL" });
+    assert.deepEqual(runs.map((r) => r.status), ["failed", "success"]);
+    assert.deepEqual(runs[0].errors, ["ESPN: ESPN is down"]);
+    assert.equal((await storage.getSyncRuns({ status: "failed" })).length, 1);
+
+    const [summary] = await storage.getSyncRunSummary();
+    assert.equal(summary.lastRun.status, "failed");
+    assert.equal(summary.lastSuccess?.id, runs[1].id);
+  });
+});
+
+describe("reprocessQuarantined", () => {
+  beforeEach(async () => {
+    await database.reset();
+    await storage.upsertSport({ id: "NFL", title: "NFL" });
+  });
+
+  const startsIn = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+
+  const withOutcome = (id: string, commence_time: string, name: string): ProviderEvent => ({
+    id,
+    sport_key: "NFL",
+    commence_time,
+    home_team: "Kansas City Chiefs",
+    away_team: "Baltimore Ravens",
+    bookmakers: [{ key: "draftkings", title: "DraftKings", markets: [{ key: "h2h", outcomes: [{ name, price: -170, point: null }] }] }],
+  });
+
+  /** Sync `events` through ESPN, then return the quarantine as it stands. */
+  async function quarantined(t: TestContext, events: ProviderEvent[]) {
+    t.mock.method(espnOddsProvider, "fetchOdds", async () => events);
+    await syncFromProviders("NFL", ["ESPN"]);
+    return storage.getQuarantinedItems({ resolved: false });
+  }
+
+  it("leaves items that are still rejected open, counting the new sighting", async (t) => {
+    const items = await quarantined(t, [withOutcome("espn_401", startsIn(24), "Chelsea")]);
+    assert.equal(items.length, 1);
+
+    assert.deepEqual(await reprocessQuarantined(items), { resolved: [], expired: [], stillFailing: [items[0].id] });
+    const [after] = await storage.getQuarantinedItems({ ids: [items[0].id] });
+    assert.equal(after.resolvedAt, null);
+    assert.equal(after.seenCount, 2);
+  });
+
+  it("resolves items that persist now, writing their quotes", async (t) => {
+    const [item] = await quarantined(t, [withOutcome("espn_401", startsIn(24), "Chelsea")]);
+    // As if the outcome were attributable under today's rules
+    const payload = item.payload as { outcome: { name: string } };
+    payload.outcome.name = "Kansas City Chiefs";
+
+    assert.deepEqual(await reprocessQuarantined([{ ...item, payload }]), { resolved: [item.id], expired: [], stillFailing: [] });
+    const [after] = await storage.getQuarantinedItems({ ids: [item.id] });
+    assert.equal(after.resolution, "reprocessed");
+    const game = await storage.getGameByExternalId("ESPN", "NFL", "espn_401");
+    assert.equal((await storage.getBestOdds(game!.id, "h2h")).length, 1);
+  });
+
+  it("expires items whose game has started instead of replaying them", async (t) => {
+    const items = await quarantined(t, [{ ...withOutcome("espn_402", startsIn(-1), "Chelsea"), home_team: null }]);
+    assert.equal(items[0].reason, "missing_teams");
+
+    assert.deepEqual(await reprocessQuarantined(items), { resolved: [], expired: [items[0].id], stillFailing: [] });
+    const [after] = await storage.getQuarantinedItems({ ids: [items[0].id] });
+    assert.equal(after.resolution, "game_started");
+  });
+
+  it("leaves a payload that no longer parses quarantined", async (t) => {
+    const [item] = await quarantined(t, [withOutcome("espn_401", startsIn(24), "Chelsea")]);
+    const result = await reprocessQuarantined([{ ...item, payload: { event: { id: 401 } } }]);
+    assert.deepEqual(result.stillFailing, [item.id]);
+    assert.equal((await storage.getQuarantinedItems({ ids: [item.id] }))[0].resolvedAt, null);
+  });
+});
@@ -0,0 +1,453 @@
+import { storage, type SyncBatch } from "../storage.js";
+import { ALTERNATE_MARKETS, FULL_GAME, MARKET_PERIODS, isFinishedStatus, type QuarantinedItem } from "@shared/schema.js";
+import { supportsSport } from "./oddsProvider.js";
+import { ProviderValidationError, providerEventSchema, quarantinedOutcomeSchema, type PayloadIssue } from "./providerSchemas.js";
+import type { FetchOptions, OddsProvider, ProviderEvent, ProviderOutcome } from "./oddsProvider.js";
+import { sportsDataIoService } from "./sportsDataIoApi.js";
+import { espnOddsProvider } from "./espnOdds.js";
+import { arbitrageApiService } from "./arbitrageApi.js";
+import { eventIdentities, resolveCanonicalGames, type CanonicalGame } from "./gameIdentity.js";
+import { bookmakerRegistry } from "./bookmakerRegistry.js";
+
+export interface SyncResult {
+  source: string;
+  sport: string;
+  gamesUpdated: number;
+  oddsUpdated: number;
+  booksUpdated: number;
+  gamesSkipped: number;
+  quarantined: number; // events + outcomes written to quarantined_items
+  errors: string[];
+  validationIssues: PayloadIssue[]; // provider payload items that failed their schema
+  timestamp: Date;
+}
+
+// Every registered feed; sync paths pick from these by name
+export const oddsProviders: OddsProvider[] = [sportsDataIoService, espnOddsProvider, arbitrageApiService];
+
+export function getOddsProvider(name: string): OddsProvider | undefined {
+  return oddsProviders.find((p) => p.name.toLowerCase() === name.toLowerCase());
+}
+
+export function emptySyncResult(source: string, sport: string): SyncResult {
+  return {
+    source,
+    sport,
+    gamesUpdated: 0,
+    oddsUpdated: 0,
+    booksUpdated: 0,
+    gamesSkipped: 0,
+    quarantined: 0,
+    errors: [],
+    validationIssues: [],
+    timestamp: new Date(),
+  };
+}
+
+const MARKET_KEYS: Record<string, string> = {
+  h2h: "h2h",
+  moneyline: "h2h",
+  spreads: "spreads",
+  spread: "spreads",
+  totals: "totals",
+  total: "totals",
+  alternate_spreads: "alternate_spreads",
+  alternate_totals: "alternate_totals",
+  double_chance: "double_chance",
+  draw_no_bet: "draw_no_bet",
+  dnb: "draw_no_bet",
+};
+
+export function normalizeMarketKey(key: string): string | null {
+  return MARKET_KEYS[String(key || "").toLowerCase()] ?? null;
+}
+
+const PERIOD_ORDINALS: Record<string, string> = { "1st": "1", first: "1", "2nd": "2", second: "2", "3rd": "3", third: "3", "4th": "4", fourth: "4" };
+const PERIOD_UNITS: Record<string, string> = { half: "h", quarter: "q", period: "p" };
+
+/**
+ * Map a feed's segment label ("1st Half", "First 5 Innings", "2Q", ...) onto MARKET_PERIODS;
+ * no label is the full game, and null means a segment we don't track.
+ */
+export function normalizePeriod(label: string | null | undefined): string | null {
+  const text = String(label ?? "").trim().toLowerCase().replace(/[\s_-]+/g, " ");
+  if (!text || text === "full game" || text === "game" || text === "pregame") return FULL_GAME;
+  if (/^(f5|(1st|first) (5|five) innings?)$/.test(text)) return "f5";
+
+  const match = text.match(/^(1st|first|2nd|second|3rd|third|4th|fourth) (half|quarter|period)$/);
+  const period = match ? PERIOD_ORDINALS[match[1]] + PERIOD_UNITS[match[2]] : text.replace(/ /g, "");
+  return MARKET_PERIODS.includes(period) ? period : null;
+}
+
+/** Events with each book's markets narrowed to one period; undefined keeps every period. */
+export function eventsForPeriod(events: ProviderEvent[], period: string | undefined): ProviderEvent[] {
+  if (period === undefined) return events;
+  return events.map((event) => ({
+    ...event,
+    bookmakers: (event.bookmakers || []).map((b) => ({
+      ...b,
+      markets: b.markets.filter((m) => normalizePeriod(m.period) === period),
+    })),
+  }));
+}
+
+/** Which team an outcome name refers to: 'home', 'away', or null when it can't be attributed. */
+function sideOf(name: string, event: ProviderEvent): "home" | "away" | null {
+  const home = String(event.home_team ?? "").trim().toLowerCase();
+  const away = String(event.away_team ?? "").trim().toLowerCase();
+
+  if (name === "home" || name === "1" || name === home) return "home";
+  if (name === "away" || name === "2" || name === away) return "away";
+
+  // Partial names ("Chiefs" vs "Kansas City Chiefs") only count when exactly one side matches
+  const homeHit = Boolean(home) && (home.includes(name) || name.includes(home));
+  const awayHit = Boolean(away) && (away.includes(name) || name.includes(away));
+  if (homeHit && !awayHit) return "home";
+  if (awayHit && !homeHit) return "away";
+  return null;
+}
+
+const DRAW_NAMES = new Set(["draw", "tie", "x"]);
+
+// Double chance pairs in home/draw/away order, keyed by the legs they cover
+const DOUBLE_CHANCE_TYPES: Record<string, string> = {
+  "home+draw": "home_draw",
+  "draw+away": "draw_away",
+  "home+away": "home_away",
+};
+
+/**
+ * Map a provider outcome name to home/away/draw/over/under (or a double chance pair such as
+ * 'home_draw'), or null when it can't be attributed.
+ */
+export function mapOutcomeType(market: string, outcome: ProviderOutcome, event: ProviderEvent): string | null {
+  const name = String(outcome.name ?? "").trim().toLowerCase();
+  if (!name) return null;
+
+  if ((ALTERNATE_MARKETS[market] ?? market) === "totals") {
+    if (name.startsWith("over")) return "over";
+    if (name.startsWith("under")) return "under";
+    return null;
+  }
+
+  if (market === "double_chance") {
+    // "1X", "Home/Draw", "Arsenal or Draw", "home_away", ...
+    const legs = /^[12x]{2}$/.test(name)
+      ? name.split("")
+      : name.split(/\s*(?:\/|\bor\b|_|\+)\s*/).filter(Boolean);
+    if (legs.length !== 2) return null;
+    const sides = legs.map((leg) => (DRAW_NAMES.has(leg) ? "draw" : sideOf(leg, event)));
+    const order = ["home", "draw", "away"];
+    if (sides.some((s) => s === null) || sides[0] === sides[1]) return null;
+    sides.sort((a, b) => order.indexOf(a!) - order.indexOf(b!));
+    return DOUBLE_CHANCE_TYPES[sides.join("+")] ?? null;
+  }
+
+  // Draw-no-bet refunds the draw, so it only ever quotes the two teams
+  if (DRAW_NAMES.has(name)) return market === "h2h" ? "draw" : null;
+  return sideOf(name, event);
+}
+
+/** Row key within a market: '' for the main line, the point for an alternate line (null = unusable). */
+export function lineKeyFor(market: string, point: number | null): string | null {
+  if (!(market in ALTERNATE_MARKETS)) return "";
+  return point != null ? String(point) : null;
+}
+
+export function toNumber(v: unknown): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function toDate(v: string | null | undefined): Date | null {
+  if (!v) return null;
+  const d = new Date(v);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+/**
+ * Write normalized provider events into games/bookmakers/odds. Rows are collected per event
+ * and applied in one storage transaction, so a sync is a handful of queries, not thousands.
+ */
+export async function persistEvents(events: ProviderEvent[], source: string, sport: string): Promise<SyncResult> {
+  const result = emptySyncResult(source, sport);
+  const batch: SyncBatch = { games: [], externalIds: [], bookmakers: [], odds: [], quarantine: [] };
+  await bookmakerRegistry.ensureLoaded();
+
+  const quarantine = (
+    event: ProviderEvent,
+    kind: "event" | "outcome",
+    reason: string,
+    detail: string,
+    payload: unknown,
+    fingerprint = "",
+  ) => {
+    batch.quarantine.push({ provider: source, sport, externalId: String(event?.id ?? "unknown"), kind, reason, fingerprint, detail, payload });
+    result.quarantined++;
+  };
+
+  let canonical: Map<string, CanonicalGame>;
+  try {
+    canonical = await resolveCanonicalGames(source, sport, eventIdentities(events));
+  } catch (error: any) {
+    result.errors.push(`Game lookup failed: ${error.message}`);
+    return result;
+  }
+
+  for (const event of events) {
+    try {
+      const commenceTime = toDate(event?.commence_time);
+      if (!event?.home_team || !event?.away_team || !commenceTime) {
+        if (!event?.home_team || !event?.away_team) {
+          quarantine(event, "event", "missing_teams", `home=${event?.home_team ?? "null"} away=${event?.away_team ?? "null"}`, event);
+        } else {
+          quarantine(event, "event", "invalid_commence_time", `commence_time=${event.commence_time ?? "null"}`, event);
+        }
+        result.gamesSkipped++;
+        continue;
+      }
+
+      // Write against the canonical game, keeping the team names it was created with
+      // unless this feed's names resolved to registry teams
+      const { gameId, existing, mapped } = canonical.get(event.id)!;
+
+      // Finished games keep the lines they closed with; games in progress only take live odds (liveOdds.ts)
+      if (existing && (isFinishedStatus(existing.status) || existing.status === "in_progress")) {
+        result.gamesSkipped++;
+        continue;
+      }
+
+      batch.games.push({
+        id: gameId,
+        sportId: sport,
+        homeTeam: event.home_team_id ? event.home_team : existing?.homeTeam ?? event.home_team,
+        awayTeam: event.away_team_id ? event.away_team : existing?.awayTeam ?? event.away_team,
+        homeTeamId: event.home_team_id ?? existing?.homeTeamId ?? null,
+        awayTeamId: event.away_team_id ?? existing?.awayTeamId ?? null,
+        commenceTime,
+        status: event.status ?? "scheduled",
+        completed: event.status === "final",
+        homeScore: event.home_score ?? null,
+        awayScore: event.away_score ?? null,
+      });
+      // Linked in the same transaction as the game, so a rolled-back sync leaves no stray mapping
+      if (!mapped) {
+        batch.externalIds.push({ gameId, provider: source, sportId: sport, externalId: event.id });
+      }
+      result.gamesUpdated++;
+
+      for (const bookmaker of event.bookmakers || []) {
+        const book = bookmakerRegistry.resolve(source, bookmaker.key, bookmaker.title);
+        batch.bookmakers.push({
+          id: book.id,
+          title: book.title,
+          lastUpdate: toDate(bookmaker.last_update) ?? new Date(),
+        });
+        result.booksUpdated++;
+
+        for (const market of bookmaker.markets || []) {
+          const marketKey = normalizeMarketKey(market.key);
+          const period = normalizePeriod(market.period);
+          if (!marketKey || !period) continue;
+
+          for (const outcome of market.outcomes || []) {
+            const outcomeType = mapOutcomeType(marketKey, outcome, event);
+            const price = toNumber(outcome.price);
+            // American odds are never 0; a 0/empty price means the book isn't quoting it
+            if (!price) continue;
+            if (!outcomeType) {
+              quarantine(
+                event,
+                "outcome",
+                "unmapped_outcome",
+                `"${outcome.name ?? ""}" in ${marketKey} for ${event.away_team} @ ${event.home_team}`,
+                {
+                  event: { ...event, bookmakers: [] },
+                  bookmaker: { key: bookmaker.key, title: bookmaker.title, last_update: bookmaker.last_update },
+                  market: { key: market.key, period: market.period, last_update: market.last_update },
+                  outcome,
+                },
+                `${bookmaker.key}|${marketKey}|${period}|${outcome.name ?? ""}`,
+              );
+              continue;
+            }
+
+            const point = toNumber(outcome.point);
+            const lineKey = lineKeyFor(marketKey, point);
+            if (lineKey === null) continue;
+            batch.odds.push({
+              gameId,
+              bookmakerId: book.id,
+              market: marketKey,
+              outcomeType,
+              lineKey,
+              period,
+              price: String(price),
+              point: point != null ? String(point) : null,
+            });
+            result.oddsUpdated++;
+          }
+        }
+      }
+    } catch (error: any) {
+      result.errors.push(`Event ${event?.id}: ${error.message}`);
+    }
+  }
+
+  try {
+    await storage.applySyncBatch(batch);
+  } catch (error: any) {
+    // The batch is one transaction: nothing from this sync was written
+    result.errors.push(`Write failed: ${error.message}`);
+    result.gamesUpdated = 0;
+    result.booksUpdated = 0;
+    result.oddsUpdated = 0;
+  }
+
+  return result;
+}
+
+/**
+ * Run quarantined items through persistEvents again (e.g. after adding a team or bookmaker
+ * alias). Each item is replayed from its latest sighting; ones that now persist are marked resolved,
+ * ones still rejected are re-quarantined as usual. persistEvents leaves started games alone, so
+ * items whose game is in progress, final, or past its start time are expired instead of replayed.
+ */
+export async function reprocessQuarantined(
+  items: QuarantinedItem[],
+): Promise<{ resolved: string[]; expired: string[]; stillFailing: string[] }> {
+  const resolved: string[] = [];
+  const expired: string[] = [];
+  const stillFailing: string[] = [];
+
+  for (const item of items) {
+    const event = replayableEvent(item);
+    if (!event) {
+      console.warn(`[quarantine] ${item.id}: stored ${item.kind} payload doesn't match its schema; leaving it quarantined`);
+      stillFailing.push(item.id);
+      continue;
+    }
+
+    if (await hasStarted(item, event)) {
+      expired.push(item.id);
+      continue;
+    }
+
+    const result = await persistEvents([event], item.provider, item.sport);
+    const ok = item.kind === "outcome" ? result.oddsUpdated > 0 : result.gamesUpdated > 0;
+    (ok ? resolved : stillFailing).push(item.id);
+  }
+
+  await storage.markQuarantineResolved(resolved, "reprocessed");
+  await storage.markQuarantineResolved(expired, "game_started");
+  return { resolved, expired, stillFailing };
+}
+
+/** The stored payload rebuilt into the one-event batch persistEvents takes; null if it no longer parses. */
+function replayableEvent(item: QuarantinedItem): ProviderEvent | null {
+  if (item.kind !== "outcome") {
+    const parsed = providerEventSchema.safeParse(item.payload);
+    return parsed.success ? parsed.data : null;
+  }
+  const parsed = quarantinedOutcomeSchema.safeParse(item.payload);
+  if (!parsed.success) return null;
+  const { event, bookmaker, market, outcome } = parsed.data;
+  return { ...event, bookmakers: [{ ...bookmaker, markets: [{ ...market, outcomes: [outcome] }] }] };
+}
+
+/** True once the item's game is no longer pregame, by its stored status or, failing that, its start time. */
+async function hasStarted(item: QuarantinedItem, event: ProviderEvent): Promise<boolean> {
+  const game = await storage.getGameByExternalId(item.provider, item.sport, event.id);
+  if (game) return isFinishedStatus(game.status) || game.status === "in_progress";
+  const commenceTime = toDate(event.commence_time);
+  return commenceTime !== null && commenceTime.getTime() <= Date.now();
+}
+
+export type SyncTrigger = "manual" | "scheduled" | "route";
+
+export type SyncOptions = FetchOptions & {
+  trigger?: SyncTrigger;
+};
+
+function runStatus(result: SyncResult): string {
+  if (result.gamesUpdated > 0) return "success";
+  return result.errors.length > 0 ? "failed" : "empty";
+}
+
+/** Ledger entry for a finished sync; a ledger write failure never fails the sync itself. */
+async function recordSyncRun(result: SyncResult, trigger: SyncTrigger, startedAt: Date): Promise<void> {
+  const finishedAt = new Date();
+  try {
+    await storage.createSyncRun({
+      sport: result.sport,
+      source: result.source,
+      trigger,
+      status: runStatus(result),
+      gamesUpdated: result.gamesUpdated,
+      oddsUpdated: result.oddsUpdated,
+      booksUpdated: result.booksUpdated,
+      gamesSkipped: result.gamesSkipped,
+      errors: result.errors,
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+    });
+  } catch (error: any) {
+    console.warn(`Failed to record sync run for ${result.sport}: ${error.message}`);
+  }
+}
+
+/** One line per provider/resource for the sync's error list, e.g. "sportsdataio GameOdds: 3 items failed validation". */
+function summarizeIssues(issues: PayloadIssue[]): string[] {
+  const counts = new Map<string, Set<string | null>>();
+  for (const issue of issues) {
+    const key = `${issue.provider} ${issue.resource}`;
+    counts.set(key, (counts.get(key) ?? new Set()).add(issue.itemId));
+  }
+  return Array.from(counts, ([key, items]) => `${key}: ${items.size} items failed validation`);
+}
+
+async function fetchAndPersist(sport: string, sources: string[], options: FetchOptions): Promise<SyncResult> {
+  const errors: string[] = [];
+  const issues: PayloadIssue[] = []; // per-item failures, collected by the adapters
+  const rejected: PayloadIssue[] = []; // whole responses that failed, already in `errors`
+
+  for (const name of sources) {
+    const provider = getOddsProvider(name);
+    if (!provider || !supportsSport(provider, sport)) continue;
+
+    let events: ProviderEvent[];
+    try {
+      events = await provider.fetchOdds(sport, { ...options, issues });
+    } catch (error: any) {
+      if (error instanceof ProviderValidationError) rejected.push(...error.issues);
+      errors.push(`${provider.name}: ${error.message}`);
+      continue;
+    }
+    if (events.length === 0) continue;
+
+    const result = await persistEvents(options.limit ? events.slice(0, options.limit) : events, provider.name, sport);
+    result.errors.unshift(...errors, ...summarizeIssues(issues));
+    result.validationIssues = [...rejected, ...issues];
+    return result;
+  }
+
+  return { ...emptySyncResult("none", sport), errors: [...errors, ...summarizeIssues(issues)], validationIssues: [...rejected, ...issues] };
+}
+
+/**
+ * Fetch odds for a sport from the first provider (in `sources` order) that returns events,
+ * and persist them. Providers that don't cover the sport are skipped. Every call is
+ * recorded in sync_runs.
+ */
+export async function syncFromProviders(
+  sport: string,
+  sources: string[],
+  { trigger = "route", ...options }: SyncOptions = {},
+): Promise<SyncResult> {
+  const startedAt = new Date();
+  const result = await fetchAndPersist(sport.toUpperCase(), sources, options);
+  await recordSyncRun(result, trigger, startedAt);
+  return result;
+}
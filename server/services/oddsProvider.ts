@@ -0,0 +1,118 @@
+import type { GameStatus } from "@shared/schema.js";
+import type { PayloadIssue } from "./providerSchemas.js";
+
+// Common contract for every odds feed. Adapters translate their provider's payloads into
+// the Odds-API style event shape below; oddsPipeline.ts does all mapping and persistence.
+
+export type ProviderOutcome = {
+  name: string | null;
+  price: number | string | null;
+  point: number | string | null;
+};
+
+export type ProviderMarket = {
+  key: string;
+  period?: string | null; // game segment as the feed labels it, e.g. '1st Half'; absent = full game
+  last_update?: string | null;
+  outcomes: ProviderOutcome[];
+};
+
+export type ProviderBookmaker = {
+  key: string;
+  title: string;
+  last_update?: string | null;
+  markets: ProviderMarket[];
+};
+
+export type ProviderEvent = {
+  id: string;
+  sport_key: string;
+  sport_title?: string;
+  commence_time: string | null;
+  home_team: string | null;
+  away_team: string | null;
+  home_team_id?: string | null;
+  away_team_id?: string | null;
+  completed?: boolean;
+  home_score?: number | null;
+  away_score?: number | null;
+  status?: GameStatus; // normalized by the adapter
+  period?: string | null; // live game state, when the feed reports it
+  clock?: string | null;
+  bookmakers: ProviderBookmaker[];
+};
+
+/** One player's over/under line for one stat at one book. */
+export type ProviderPlayerProp = {
+  event_id: string; // provider event ID, as in ProviderEvent.id
+  player_id: string; // provider player ID
+  player_name: string;
+  team?: string | null; // as the feed names it; resolved through the team registry
+  position?: string | null;
+  stat: string; // the feed's stat label, e.g. 'Passing Yards'
+  bookmaker: { key: string; title: string };
+  point: number | string | null;
+  over_price: number | string | null;
+  under_price: number | string | null;
+  last_update?: string | null;
+};
+
+export type ProviderFuturesOutcome = {
+  selection: string; // team or player name
+  team?: string | null; // when the selection is a team, as the feed names it
+  outcome_type: "yes" | "no" | "over" | "under";
+  bookmaker: { key: string; title: string };
+  price: number | string | null;
+  point: number | string | null;
+  last_update?: string | null;
+};
+
+/** A futures/outright market with every book's quotes on it. */
+export type ProviderFuturesMarket = {
+  id: string; // provider market ID
+  name: string; // e.g. 'Super Bowl Winner'
+  season: string;
+  starts_at?: string | null; // when the deciding event starts, if known
+  outcomes: ProviderFuturesOutcome[];
+};
+
+export type ProviderCapabilities = {
+  sports: string[];
+  markets: string[];
+  requiresApiKey: boolean;
+};
+
+export type ProviderHealth = {
+  provider: string;
+  ok: boolean;
+  configured: boolean;
+  checkedAt: string;
+  error?: string;
+};
+
+export type FetchOptions = {
+  limit?: number;
+  // Schedule window; providers without date-range queries ignore it
+  from?: Date;
+  to?: Date;
+  // Collects per-item schema validation failures so the caller can report them
+  issues?: PayloadIssue[];
+};
+
+export interface OddsProvider {
+  readonly name: string;
+  capabilities(): ProviderCapabilities;
+  fetchEvents(sport: string, options?: FetchOptions): Promise<ProviderEvent[]>;
+  fetchOdds(sport: string, options?: FetchOptions): Promise<ProviderEvent[]>;
+  // In-play odds for games in progress, with their current state; absent for pregame-only feeds
+  fetchLiveOdds?(sport: string, options?: FetchOptions): Promise<ProviderEvent[]>;
+  // Player props for the given provider event IDs; absent for feeds without props
+  fetchPlayerProps?(sport: string, eventIds: string[], options?: FetchOptions): Promise<ProviderPlayerProp[]>;
+  // Futures for a season (default: the current one); absent for feeds without futures
+  fetchFutures?(sport: string, season?: string, options?: FetchOptions): Promise<ProviderFuturesMarket[]>;
+  health(): Promise<ProviderHealth>;
+}
+
+export function supportsSport(provider: OddsProvider, sport: string): boolean {
+  return provider.capabilities().sports.includes(sport.toUpperCase());
+}
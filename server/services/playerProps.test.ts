@@ -0,0 +1,106 @@
+import { after, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { OddsProvider, ProviderEvent, ProviderPlayerProp } from "./oddsProvider.js";
+import { startTestDatabase } from "../testDatabase.js";
+
+const database = await startTestDatabase();
+after(() => database.stop());
+const { normalizeStatType, syncPlayerProps } = await import("./playerProps.js");
+const { syncFromProviders } = await import("./oddsPipeline.js");
+const { sportsDataIoService } = await import("./sportsDataIoApi.js");
+const { storage } = await import("../storage.js");
+
+// fetchPlayerProps is optional on the interface; SportsDataIO implements it
+const sdio = sportsDataIoService as Required<OddsProvider>;
+
+const game: ProviderEvent = {
+  id: "18001",
+  sport_key: "NFL",
+  commence_time: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+  home_team: "Kansas City Chiefs",
+  away_team: "Baltimore Ravens",
+  bookmakers: [{
+    key: "draftkings",
+    title: "DraftKings",
+    markets: [{ key: "h2h", outcomes: [{ name: "Kansas City Chiefs", price: -170, point: null }, { name: "Baltimore Ravens", price: 145, point: null }] }],
+  }],
+};
+
+const prop = (changes: Partial<ProviderPlayerProp> = {}): ProviderPlayerProp => ({
+  event_id: "18001",
+  player_id: "19801",
+  player_name: "Patrick Mahomes",
+  team: "KC",
+  position: "QB",
+  stat: "Passing Yards",
+  bookmaker: { key: "DraftKings", title: "DraftKings" },
+  point: 274.5,
+  over_price: -115,
+  under_price: -105,
+  ...changes,
+});
+
+describe("normalizeStatType", () => {
+  it("snake-cases the feed's stat label", () => {
+    assert.equal(normalizeStatType("Passing Yards"), "passing_yards");
+    assert.equal(normalizeStatType(" Pass + Rush Yds "), "pass_rush_yds");
+  });
+});
+
+describe("syncPlayerProps", () => {
+  let gameId: string;
+
+  beforeEach(async () => {
+    await database.reset();
+    await storage.upsertSport({ id: "NFL", title: "NFL" });
+    await storage.upsertSport({ id: "NBA", title: "NBA" });
+    const fetchOdds = mock.method(sportsDataIoService, "fetchOdds", async () => [game]);
+    await syncFromProviders("NFL", ["SportsDataIO"]);
+    fetchOdds.mock.restore();
+    gameId = (await storage.getGameByExternalId("SportsDataIO", "NFL", "18001"))!.id;
+  });
+
+  it("writes players and each priced side, skipping unpriced props and games we didn't ask about", async (t) => {
+    const fetchPlayerProps = t.mock.method(sdio, "fetchPlayerProps", async () => [
+      prop(),
+      prop({ player_id: "19802", player_name: "Travis Kelce", stat: "Receiving Yards", point: 64.5, under_price: null }),
+      prop({ player_id: "19803", over_price: null, under_price: null }),
+      prop({ event_id: "18999" }),
+    ]);
+
+    const result = await syncPlayerProps("nfl", ["SportsDataIO"]);
+    assert.deepEqual(fetchPlayerProps.mock.calls[0].arguments.slice(0, 2), ["NFL", ["18001"]]);
+    assert.equal(result.gamesChecked, 1);
+    assert.equal(result.playersUpdated, 2);
+    assert.equal(result.propsUpdated, 3);
+    assert.equal(result.propsSkipped, 2);
+
+    const props = await storage.getGameProps(gameId, { statType: "passing_yards" });
+    assert.deepEqual(props.map((p) => [p.player.name, p.outcomeType, p.price]).sort(), [
+      ["Patrick Mahomes", "over", "-115.00"],
+      ["Patrick Mahomes", "under", "-105.00"],
+    ]);
+  });
+
+  it("snapshots only props whose price or line moved", async (t) => {
+    const fetchPlayerProps = t.mock.method(sdio, "fetchPlayerProps", async () => [prop()]);
+    assert.equal((await syncPlayerProps("NFL", ["SportsDataIO"])).snapshots, 2);
+    assert.equal((await syncPlayerProps("NFL", ["SportsDataIO"])).snapshots, 0);
+
+    fetchPlayerProps.mock.mockImplementation(async () => [prop({ point: 279.5 })]);
+    assert.equal((await syncPlayerProps("NFL", ["SportsDataIO"])).snapshots, 2);
+
+    const [player] = await storage.getPlayers({ search: "mahomes" });
+    assert.equal((await storage.getPropHistory(gameId, player.id, "passing_yards")).length, 4);
+  });
+
+  it("keeps players from different sports apart when they share a provider ID", async () => {
+    const row = { provider: "SportsDataIO", externalId: "20000", teamId: null, position: null };
+    await storage.upsertPlayers([{ ...row, sportId: "NFL", name: "Josh Allen" }]);
+    await storage.upsertPlayers([{ ...row, sportId: "NBA", name: "Jarrett Allen" }]);
+    await storage.upsertPlayers([{ ...row, sportId: "NFL", name: "Josh Allen", position: "QB" }]);
+
+    assert.deepEqual((await storage.getPlayers({ sportId: "NFL" })).map((p) => [p.name, p.position]), [["Josh Allen", "QB"]]);
+    assert.deepEqual((await storage.getPlayers({ sportId: "NBA" })).map((p) => p.name), ["Jarrett Allen"]);
+  });
+});
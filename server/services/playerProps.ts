@@ -0,0 +1,145 @@
+import { storage, type PropsBatch } from "../storage.js";
+import type { InsertPlayer, InsertPlayerProp } from "@shared/schema.js";
+import { supportsSport } from "./oddsProvider.js";
+import type { ProviderPlayerProp } from "./oddsProvider.js";
+import { getOddsProvider, toDate, toNumber } from "./oddsPipeline.js";
+import { bookmakerRegistry } from "./bookmakerRegistry.js";
+import { teamResolver } from "./teamResolver.js";
+import { ProviderValidationError, type PayloadIssue } from "./providerSchemas.js";
+
+// Only SportsDataIO carries props; every game costs a request, so only games this close are pulled
+export const PROP_SOURCES = ["SportsDataIO"];
+export const PROPS_WINDOW_HOURS = 48;
+
+export interface PropsSyncResult {
+  source: string;
+  sport: string;
+  gamesChecked: number;
+  playersUpdated: number;
+  propsUpdated: number;
+  snapshots: number; // props whose price or line moved
+  propsSkipped: number; // unpriced, or for a game we didn't ask about
+  errors: string[];
+  validationIssues: PayloadIssue[];
+  timestamp: Date;
+}
+
+function emptyPropsSync(source: string, sport: string): PropsSyncResult {
+  return {
+    source,
+    sport,
+    gamesChecked: 0,
+    playersUpdated: 0,
+    propsUpdated: 0,
+    snapshots: 0,
+    propsSkipped: 0,
+    errors: [],
+    validationIssues: [],
+    timestamp: new Date(),
+  };
+}
+
+/** "Passing Yards" -> "passing_yards", so stats compare across books and feeds. */
+export function normalizeStatType(label: string): string {
+  return String(label || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/** Upsert the props' players, then their over/under quotes against our game IDs. */
+async function persistProps(
+  props: ProviderPlayerProp[],
+  gameIds: Map<string, string>, // provider event ID -> game ID
+  source: string,
+  sport: string,
+): Promise<PropsSyncResult> {
+  const result = emptyPropsSync(source, sport);
+  await Promise.all([bookmakerRegistry.ensureLoaded(), teamResolver.ensureLoaded()]);
+
+  const priced = props.filter((p) => {
+    const ok = gameIds.has(p.event_id) && toNumber(p.point) != null && (toNumber(p.over_price) || toNumber(p.under_price));
+    if (!ok) result.propsSkipped++;
+    return ok;
+  });
+
+  const playerRows: InsertPlayer[] = priced.map((p) => ({
+    sportId: sport,
+    teamId: teamResolver.canonical(sport, p.team).teamId,
+    name: p.player_name,
+    position: p.position ?? null,
+    provider: source,
+    externalId: p.player_id,
+  }));
+  const written = await storage.upsertPlayers(playerRows);
+  const playerIds = new Map(written.map((p) => [p.externalId, p.id]));
+  result.playersUpdated = written.length;
+
+  const batch: PropsBatch = { bookmakers: [], props: [] };
+  for (const p of priced) {
+    const book = bookmakerRegistry.resolve(source, p.bookmaker.key, p.bookmaker.title);
+    batch.bookmakers.push({ id: book.id, title: book.title, lastUpdate: toDate(p.last_update) ?? new Date() });
+
+    const entry = {
+      gameId: gameIds.get(p.event_id)!,
+      playerId: playerIds.get(p.player_id)!,
+      bookmakerId: book.id,
+      statType: normalizeStatType(p.stat),
+      point: String(toNumber(p.point)),
+    };
+    // American odds are never 0; a missing side means the book only hangs the other one
+    const sides: InsertPlayerProp[] = [];
+    const over = toNumber(p.over_price);
+    const under = toNumber(p.under_price);
+    if (over) sides.push({ ...entry, outcomeType: "over", price: String(over) });
+    if (under) sides.push({ ...entry, outcomeType: "under", price: String(under) });
+    batch.props.push(...sides);
+  }
+
+  try {
+    const applied = await storage.applyPropsBatch(batch);
+    result.propsUpdated = applied.props;
+    result.snapshots = applied.snapshots;
+  } catch (error: any) {
+    result.errors.push(`Write failed: ${error.message}`);
+  }
+  return result;
+}
+
+/**
+ * Pull player props for a sport's games starting within PROPS_WINDOW_HOURS from the first
+ * source in `sources` that has any, for games the odds sync already linked to that source.
+ */
+export async function syncPlayerProps(sport: string, sources: string[] = PROP_SOURCES): Promise<PropsSyncResult> {
+  const sportKey = sport.toUpperCase();
+  const errors: string[] = [];
+  const issues: PayloadIssue[] = [];
+  const before = new Date(Date.now() + PROPS_WINDOW_HOURS * 60 * 60 * 1000);
+
+  for (const name of sources) {
+    const provider = getOddsProvider(name);
+    if (!provider?.fetchPlayerProps || !supportsSport(provider, sportKey)) continue;
+
+    const linked = await storage.getUpcomingExternalIds(provider.name, sportKey, before);
+    if (linked.length === 0) continue;
+    const gameIds = new Map(linked.map((l) => [l.externalId, l.gameId]));
+
+    let props: ProviderPlayerProp[];
+    try {
+      props = await provider.fetchPlayerProps(sportKey, Array.from(gameIds.keys()), { issues });
+    } catch (error: any) {
+      if (error instanceof ProviderValidationError) issues.push(...error.issues);
+      errors.push(`${provider.name}: ${error.message}`);
+      continue;
+    }
+    if (props.length === 0) continue;
+
+    const result = await persistProps(props, gameIds, provider.name, sportKey);
+    result.gamesChecked = gameIds.size;
+    result.errors.unshift(...errors);
+    result.validationIssues = issues;
+    return result;
+  }
+
+  return { ...emptyPropsSync("none", sportKey), errors, validationIssues: issues };
+}
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+// The replay directory is read once, when providerFetch loads
+process.env.ODDS_REPLAY_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "__fixtures__", "replay");
+process.env.DATABASE_URL ??= "postgres://localhost/test";
+const { advanceReplayFrame, fixtureKey, getReplayStatus, normalizeFixtureUrl, providerFetch, resetReplay } = await import("./providerFetch.js");
+const { parseItems, sdioGameOddsSchema } = await import("./providerSchemas.js");
+
+function isoDay(offsetDays: number): string {
+  return new Date(Date.now() + offsetDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+const sdioUrl = (day: string) => `https://api.sportsdata.io/v3/nba/odds/json/GameOddsByDate/${day}?key=secret`;
+const espnUrl = (from: string, to: string) =>
+  `https://site.api.espn.com/apis/site/v2/sports/basketball/nba/scoreboard?limit=500&dates=${from.replace(/-/g, "")}-${to.replace(/-/g, "")}`;
+
+describe("normalizeFixtureUrl", () => {
+  const now = new Date("2024-09-08T17:00:00Z");
+
+  it("keys path dates as day offsets and redacts credentials", () => {
+    assert.equal(
+      normalizeFixtureUrl("https://api.sportsdata.io/v3/mlb/odds/json/GameOddsByDate/2024-09-09?key=abc", now),
+      "https://api.sportsdata.io/v3/mlb/odds/json/GameOddsByDate/{day+1}?key=REDACTED",
+    );
+  });
+
+  it("keys ESPN's compact date range", () => {
+    assert.equal(
+      normalizeFixtureUrl("https://site.api.espn.com/apis/site/v2/sports/football/nfl/scoreboard?limit=500&dates=20240907-20240915", now),
+      "https://site.api.espn.com/apis/site/v2/sports/football/nfl/scoreboard?limit=500&dates={day-1}-{day+7}",
+    );
+  });
+
+  it("leaves eight-digit IDs outside `dates` alone", () => {
+    const url = "https://sports.core.api.espn.com/v2/sports/football/leagues/nfl/events/20240908/competitions/20240908/odds";
+    assert.equal(normalizeFixtureUrl(url, now), url);
+  });
+
+  it("gives a request the same key on every day it's made", () => {
+    const recorded = fixtureKey(sdioUrl("2024-09-08"), now);
+    const nextWeek = new Date("2024-09-15T09:00:00Z");
+    assert.equal(fixtureKey(sdioUrl("2024-09-15"), nextWeek), recorded);
+    assert.notEqual(fixtureKey(sdioUrl("2024-09-16"), nextWeek), recorded);
+  });
+});
+
+describe("providerFetch replay", () => {
+  it("serves today's request from the recorded frame, whatever day it was recorded", async () => {
+    resetReplay();
+    const res = await providerFetch("sportsdataio", sdioUrl(isoDay(0)));
+    assert.equal(res.status, 200);
+
+    const games = parseItems(sdioGameOddsSchema, await res.json(), "sportsdataio", "GameInfo");
+    assert.equal(games.length, 1);
+    assert.equal(games[0].PregameOdds[0].Sportsbook, "DraftKings");
+  });
+
+  it("misses without a network call, and lists the fixture it needed", async () => {
+    resetReplay();
+    const url = sdioUrl(isoDay(1));
+    const res = await providerFetch("sportsdataio", url);
+    assert.equal(res.status, 404);
+    assert.deepEqual(getReplayStatus().misses.map((m) => m.key), [fixtureKey(url)]);
+  });
+
+  it("falls back to earlier frames for requests a later frame doesn't have", async () => {
+    resetReplay();
+    const scoreboard = espnUrl(isoDay(0), isoDay(2));
+    assert.equal((await providerFetch("espn", scoreboard)).status, 404);
+
+    advanceReplayFrame();
+    assert.equal(getReplayStatus().currentFrame, "001");
+    assert.equal((await providerFetch("espn", scoreboard)).status, 200);
+    assert.equal((await providerFetch("sportsdataio", sdioUrl(isoDay(0)))).status, 200);
+  });
+});
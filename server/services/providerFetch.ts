@@ -0,0 +1,249 @@
+import { createHash } from "node:crypto";
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { getRecordDir, recordResponse } from "./responseRecorder.js";
+import { providerUsageTracker } from "./providerUsage.js";
+
+// Single choke point for outbound provider HTTP. With ODDS_REPLAY_DIR set, responses come
+// from recorded fixtures instead of the network:
+//
+//   $ODDS_REPLAY_DIR/<frame>/<provider>/<fixtureKey(url)>.json
+//
+// Dates in the URL ("GameOddsByDate/2024-09-08", ESPN's "dates=20240908-20240915") are keyed
+// as day offsets from when the request was made, so a frame recorded on one day replays on any
+// later day: today's slate request always finds the recorded "today" slate.
+//
+// Frames are subdirectories replayed in name order ("000", "001", ...). A request missing
+// from the current frame falls back to the most recent earlier frame that has it, so later
+// frames only need the responses that changed. Frames advance every ODDS_REPLAY_STEP_SECONDS,
+// or manually through advanceReplayFrame() when that's unset.
+//
+// With ODDS_RECORD_DIR set, live responses are also archived (see responseRecorder.ts).
+// Every live call is counted toward the provider's usage (see providerUsage.ts).
+
+export type ProviderName = "espn" | "sportsdataio" | "rapidapi";
+
+export type ProviderFetchContext = {
+  sport?: string;
+};
+
+type ReplayMiss = {
+  provider: ProviderName;
+  url: string;
+  key: string;
+  frame: string;
+  count: number;
+};
+
+// Per-host request timeouts; ESPN's core API is many tiny requests, so fail those fast
+const HOST_TIMEOUTS_MS: Record<string, number> = {
+  "site.api.espn.com": 10_000,
+  "sports.core.api.espn.com": 5_000,
+  "api.sportsdata.io": 20_000,
+  "sportsbook-api2.p.rapidapi.com": 20_000,
+};
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+function timeoutFor(url: string): number {
+  try {
+    return HOST_TIMEOUTS_MS[new URL(url).host] ?? DEFAULT_TIMEOUT_MS;
+  } catch {
+    return DEFAULT_TIMEOUT_MS;
+  }
+}
+
+// Query params that carry credentials; never part of a fixture key or log line
+const SECRET_PARAMS = ["key", "apikey", "api_key", "access_token"];
+
+/** Replace credential query params with a placeholder. */
+export function redactUrl(url: string): string {
+  try {
+    const u = new URL(url);
+    for (const name of Array.from(u.searchParams.keys())) {
+      if (SECRET_PARAMS.includes(name.toLowerCase())) u.searchParams.set(name, "REDACTED");
+    }
+    return u.toString();
+  } catch {
+    return url;
+  }
+}
+
+const ISO_DATE = /\b(\d{4})-(\d{2})-(\d{2})\b/g;
+const COMPACT_DATE = /\b(\d{4})(\d{2})(\d{2})\b/g;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** `{day+N}` for a calendar date N days after `now` (UTC), or the match itself if it isn't a date. */
+function relativeDay(match: string, y: string, m: string, d: string, now: Date): string {
+  const day = Date.UTC(Number(y), Number(m) - 1, Number(d));
+  const date = new Date(day);
+  if (date.getUTCMonth() !== Number(m) - 1 || date.getUTCDate() !== Number(d)) return match;
+  const offset = Math.round((day - Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())) / DAY_MS);
+  return `{day${offset < 0 ? "" : "+"}${offset}}`;
+}
+
+/**
+ * Redacted URL with its dates replaced by day offsets from `now`. Compact dates (YYYYMMDD) are
+ * only read from a `dates` param, where ESPN puts them; elsewhere eight digits may be an ID.
+ */
+export function normalizeFixtureUrl(url: string, now: Date = new Date()): string {
+  const redacted = redactUrl(url);
+  const i = redacted.indexOf("?");
+  const base = i >= 0 ? redacted.slice(0, i) : redacted;
+  const query = i >= 0 ? redacted.slice(i) : "";
+
+  const isoToDay = (match: string, y: string, m: string, d: string) => relativeDay(match, y, m, d, now);
+  return base.replace(ISO_DATE, isoToDay) + query
+    .replace(ISO_DATE, isoToDay)
+    .replace(/([?&]dates=)([^&]*)/g, (_match, name: string, value: string) => name + value.replace(COMPACT_DATE, isoToDay));
+}
+
+/** Fixture file name (without extension) for a request URL made at `now`. */
+export function fixtureKey(url: string, now: Date = new Date()): string {
+  return createHash("sha256").update(normalizeFixtureUrl(url, now)).digest("hex").slice(0, 16);
+}
+
+class ReplayState {
+  readonly dir = process.env.ODDS_REPLAY_DIR ? path.resolve(process.env.ODDS_REPLAY_DIR) : null;
+  private stepMs = Number(process.env.ODDS_REPLAY_STEP_SECONDS || 0) * 1000;
+  private startedAt = Date.now();
+  private manualFrame = 0;
+  private misses = new Map<string, ReplayMiss>();
+
+  get enabled(): boolean {
+    return this.dir !== null;
+  }
+
+  frames(): string[] {
+    if (!this.dir || !existsSync(this.dir)) return [];
+    return readdirSync(this.dir, { withFileTypes: true })
+      .filter((d) => d.isDirectory())
+      .map((d) => d.name)
+      .sort();
+  }
+
+  currentIndex(frameCount: number): number {
+    const index = this.stepMs > 0 ? Math.floor((Date.now() - this.startedAt) / this.stepMs) : this.manualFrame;
+    return Math.min(index, Math.max(frameCount - 1, 0));
+  }
+
+  advance(): number {
+    this.manualFrame = Math.min(this.manualFrame + 1, Math.max(this.frames().length - 1, 0));
+    return this.manualFrame;
+  }
+
+  reset(): void {
+    this.manualFrame = 0;
+    this.startedAt = Date.now();
+    this.misses.clear();
+  }
+
+  read(provider: ProviderName, url: string): string | null {
+    const frames = this.frames();
+    const key = fixtureKey(url);
+
+    for (let i = this.currentIndex(frames.length); i >= 0 && frames.length > 0; i--) {
+      const file = path.join(this.dir!, frames[i], provider, `${key}.json`);
+      if (existsSync(file)) return readFileSync(file, "utf8");
+    }
+
+    const frame = frames[this.currentIndex(frames.length)] ?? "";
+    const entry = this.misses.get(`${provider}:${key}`);
+    this.misses.set(`${provider}:${key}`, { provider, url: redactUrl(url), key, frame, count: (entry?.count ?? 0) + 1 });
+    return null;
+  }
+
+  status() {
+    const frames = this.frames();
+    return {
+      enabled: this.enabled,
+      dir: this.dir,
+      frames,
+      currentFrame: frames[this.currentIndex(frames.length)] ?? null,
+      stepSeconds: this.stepMs / 1000 || null,
+      misses: Array.from(this.misses.values()),
+    };
+  }
+}
+
+const replay = new ReplayState();
+
+export function isReplaying(): boolean {
+  return replay.enabled;
+}
+
+export function getReplayStatus() {
+  return replay.status();
+}
+
+export function advanceReplayFrame() {
+  replay.advance();
+  return replay.status();
+}
+
+export function resetReplay() {
+  replay.reset();
+  return replay.status();
+}
+
+async function liveFetch(
+  provider: ProviderName,
+  url: string,
+  init: RequestInit | undefined,
+  context: ProviderFetchContext,
+): Promise<Response> {
+  const recordDir = getRecordDir();
+  const startedAt = Date.now();
+  let res: Response;
+  try {
+    res = await fetch(url, { ...init, signal: init?.signal ?? AbortSignal.timeout(timeoutFor(url)) });
+  } catch (error) {
+    providerUsageTracker.record(provider, url, context.sport, false);
+    throw error;
+  }
+  providerUsageTracker.record(provider, url, context.sport, res.ok || res.status === 304);
+  if (!recordDir) return res;
+
+  try {
+    const body = await res.clone().text();
+    recordResponse(
+      recordDir,
+      {
+        recordedAt: new Date().toISOString(),
+        provider,
+        method: init?.method ?? "GET",
+        url,
+        status: res.status,
+        contentType: res.headers.get("content-type"),
+        durationMs: Date.now() - startedAt,
+      },
+      body,
+    );
+  } catch (error: any) {
+    console.warn(`[record] failed to archive ${provider} response: ${error.message}`);
+  }
+  return res;
+}
+
+/**
+ * fetch() for provider APIs. In replay mode a missing fixture is a 404 (and is listed in
+ * getReplayStatus().misses with the file name it would need), never a network call.
+ */
+export async function providerFetch(
+  provider: ProviderName,
+  url: string,
+  init?: RequestInit,
+  context: ProviderFetchContext = {},
+): Promise<Response> {
+  if (!replay.enabled) return liveFetch(provider, url, init, context);
+
+  const body = replay.read(provider, url);
+  if (body === null) {
+    console.warn(`[replay] no ${provider} fixture ${fixtureKey(url)}.json for ${redactUrl(url)}`);
+    return new Response(JSON.stringify({ message: "No replay fixture" }), {
+      status: 404,
+      statusText: "Not Found",
+      headers: { "content-type": "application/json" },
+    });
+  }
+  return new Response(body, { status: 200, statusText: "OK", headers: { "content-type": "application/json" } });
+}
@@ -0,0 +1,40 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  espnScoreboardEventSchema,
+  parseItems,
+  sdioGameOddsSchema,
+  type PayloadIssue,
+} from "./providerSchemas.js";
+
+describe("parseItems", () => {
+  it("passes games with a missing team on so the pipeline can quarantine them", () => {
+    const issues: PayloadIssue[] = [];
+    const rows = [
+      { GameId: 1, HomeTeamName: "KC", AwayTeamName: "BUF" },
+      { GameId: 2, HomeTeamName: null, AwayTeamName: "BUF" },
+      { GameId: 3 },
+    ];
+    const games = parseItems(sdioGameOddsSchema, rows, "sportsdataio", "GameOdds", issues);
+    assert.deepEqual(games.map((g) => g.HomeTeamName ?? null), ["KC", null, null]);
+    assert.deepEqual(issues, []);
+  });
+
+  it("keeps scoreboard events whose competition lacks a side", () => {
+    const event = {
+      id: "401",
+      date: "2024-09-08T17:00Z",
+      competitions: [{ id: "401", competitors: [{ homeAway: "home", team: { displayName: "Kansas City Chiefs" } }] }],
+    };
+    assert.equal(parseItems(espnScoreboardEventSchema, [event], "espn", "scoreboard.event").length, 1);
+  });
+
+  it("drops and reports items that can't be keyed", () => {
+    const issues: PayloadIssue[] = [];
+    const games = parseItems(sdioGameOddsSchema, [{ GameId: 4 }, { HomeTeamName: "KC" }], "sportsdataio", "GameOdds", issues);
+    assert.equal(games.length, 1);
+    assert.equal(issues.length, 1);
+    assert.equal(issues[0].path, "GameId");
+    assert.equal(issues[0].itemId, null);
+  });
+});
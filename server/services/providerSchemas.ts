@@ -0,0 +1,400 @@
+import { z } from "zod";
+import { GAME_STATUSES } from "@shared/schema.js";
+import type { ProviderName } from "./providerFetch.js";
+import type { ProviderEvent } from "./oddsProvider.js";
+
+// Wire formats of the provider payloads we actually read. Adapters parse responses through
+// these before transforming them, so a renamed or retyped field shows up as a validation
+// issue instead of a silent null price. Only the fields we use are declared; zod strips the rest.
+
+// ------------ SportsDataIO ------------
+
+const sdioId = z.union([z.number(), z.string()]);
+const sdioNum = z.number().nullish();
+
+/** Every SportsDataIO list endpoint returns a bare JSON array. */
+export const sdioListSchema = z.array(z.unknown());
+
+/** Schedules / GamesByWeek rows. NFL keys games by GameKey/ScoreID, other sports by GameID. */
+export const sdioGameSchema = z
+  .object({
+    GameID: sdioId.nullish(),
+    GameKey: z.string().nullish(),
+    ScoreID: sdioId.nullish(),
+    DateTime: z.string().nullish(),
+    Day: z.string().nullish(),
+    Status: z.string().nullish(),
+    HomeTeam: z.string().nullish(), // missing teams are quarantined by the pipeline, not dropped here
+    AwayTeam: z.string().nullish(),
+    HomeScore: sdioNum, // NFL/NCAAF
+    AwayScore: sdioNum,
+    HomeTeamScore: sdioNum, // everything else
+    AwayTeamScore: sdioNum,
+  })
+  .refine((g) => g.GameID != null || g.GameKey != null || g.ScoreID != null, {
+    message: "Game has no GameID, GameKey or ScoreID",
+  });
+
+export const sdioPregameOddsSchema = z.object({
+  Sportsbook: z.string(),
+  OddType: z.string().nullish(), // "Pregame", "Live", "AlternateSpread", "AlternateTotal", "DrawNoBet", ...
+  Updated: z.string().nullish(),
+  HomeMoneyLine: sdioNum,
+  AwayMoneyLine: sdioNum,
+  DrawMoneyLine: sdioNum, // soccer only; three-way lines
+  HomePointSpread: sdioNum,
+  AwayPointSpread: sdioNum,
+  HomePointSpreadPayout: sdioNum,
+  AwayPointSpreadPayout: sdioNum,
+  OverUnder: sdioNum,
+  OverPayout: sdioNum,
+  UnderPayout: sdioNum,
+});
+
+/** GameOddsByWeek / GameOddsByDate rows ("GameInfo"). */
+export const sdioGameOddsSchema = z.object({
+  GameId: sdioId,
+  DateTime: z.string().nullish(),
+  Day: z.string().nullish(),
+  Status: z.string().nullish(),
+  HomeTeamName: z.string().nullish(), // missing teams are quarantined by the pipeline, not dropped here
+  AwayTeamName: z.string().nullish(),
+  HomeTeamScore: sdioNum,
+  AwayTeamScore: sdioNum,
+  PregameOdds: z.array(sdioPregameOddsSchema).default([]),
+  LiveOdds: z.array(sdioPregameOddsSchema).default([]), // same shape, only on the LiveGameOdds endpoints
+  AlternateMarketPregameOdds: z.array(sdioPregameOddsSchema).default([]), // one entry per alternate line
+});
+
+/** PlayerPropsByGameID rows. NFL keys the game by ScoreID, other sports by GameID. */
+export const sdioPlayerPropSchema = z
+  .object({
+    GameID: sdioId.nullish(),
+    ScoreID: sdioId.nullish(),
+    PlayerID: sdioId,
+    Name: z.string(),
+    Team: z.string().nullish(),
+    Position: z.string().nullish(),
+    Description: z.string(), // stat, e.g. "Passing Yards"
+    Sportsbook: z.string(),
+    OverUnder: sdioNum,
+    OverPayout: sdioNum,
+    UnderPayout: sdioNum,
+    Updated: z.string().nullish(),
+  })
+  .refine((p) => p.GameID != null || p.ScoreID != null, { message: "Prop has no GameID or ScoreID" });
+
+const sdioFuturesOutcomeSchema = z.object({
+  BettingOutcomeType: z.string().nullish(), // "Yes", "No", "Over", "Under"
+  Participant: z.string().nullish(),
+  TeamKey: z.string().nullish(),
+  PayoutAmerican: sdioNum,
+  Value: sdioNum, // the line for over/under futures
+  IsAvailable: z.boolean().nullish(),
+  Updated: z.string().nullish(),
+  SportsBook: z.object({ Name: z.string() }).nullish(),
+});
+
+/** BettingFuturesBySeason rows: a futures event with its markets and every book's outcomes. */
+export const sdioFuturesEventSchema = z.object({
+  BettingEventID: sdioId,
+  Name: z.string().nullish(),
+  Season: sdioId.nullish(),
+  StartDate: z.string().nullish(),
+  BettingMarkets: z
+    .array(
+      z.object({
+        BettingMarketID: sdioId,
+        BettingBetType: z.string().nullish(), // e.g. "NFL Championship Winner", "MVP", "Regular Season Wins"
+        Name: z.string().nullish(),
+        BettingOutcomes: z.array(sdioFuturesOutcomeSchema).default([]),
+      }),
+    )
+    .default([]),
+});
+
+export type SdioGame = z.infer<typeof sdioGameSchema>;
+export type SdioPregameOdds = z.infer<typeof sdioPregameOddsSchema>;
+export type SdioGameOdds = z.infer<typeof sdioGameOddsSchema>;
+export type SdioPlayerProp = z.infer<typeof sdioPlayerPropSchema>;
+export type SdioFuturesEvent = z.infer<typeof sdioFuturesEventSchema>;
+
+// ------------ ESPN ------------
+
+const espnCompetitorSchema = z.object({
+  homeAway: z.enum(["home", "away"]),
+  score: z.union([z.string(), z.number()]).nullish(),
+  team: z.object({ displayName: z.string().nullish() }).nullish(),
+});
+
+export const espnScoreboardEventSchema = z.object({
+  id: z.string(),
+  date: z.string(),
+  competitions: z
+    .array(
+      z.object({
+        id: z.string().nullish(),
+        // A side without a competitor or team name is passed on with a null team for the pipeline to quarantine
+        competitors: z.array(espnCompetitorSchema),
+      }),
+    )
+    .min(1),
+  status: z
+    .object({
+      period: z.number().nullish(),
+      displayClock: z.string().nullish(),
+      type: z.object({
+        name: z.string(), // STATUS_SCHEDULED, STATUS_FINAL, STATUS_POSTPONED, ...
+        state: z.enum(["pre", "in", "post"]),
+        completed: z.boolean(),
+        description: z.string(),
+      }),
+    })
+    .nullish(),
+});
+
+export const espnScoreboardSchema = z.object({
+  events: z.array(z.unknown()).default([]),
+});
+
+/** ESPN writes lines both as numbers and as numeric strings ("-3.5", "+145"). */
+const espnNum = z.union([z.number(), z.string()]).nullish();
+
+const espnTeamOddsSchema = z.object({
+  moneyLine: espnNum,
+  spreadOdds: espnNum,
+  current: z.object({ pointSpread: z.object({ american: espnNum }).nullish() }).nullish(), // this side's own line
+});
+
+const espnTotalSchema = z.union([
+  z.number(),
+  z.object({ total: espnNum, value: espnNum, overOdds: espnNum, underOdds: espnNum }),
+]);
+
+/**
+ * One provider entry of a competition's /odds collection (after $ref expansion). Books come in
+ * two shapes: direct `moneyline`/`spread`/`total` objects, or the core API's numeric `spread` and
+ * `overUnder` with per-team odds. Either may also carry a `markets` (or `odds`) array of $refs.
+ */
+export const espnOddsItemSchema = z.object({
+  provider: z.object({ name: z.string().nullish(), displayName: z.string().nullish() }).nullish(),
+  name: z.string().nullish(),
+  displayName: z.string().nullish(),
+  lastModified: z.string().nullish(),
+  updated: z.string().nullish(),
+  moneyline: z.object({ home: espnNum, away: espnNum }).nullish(),
+  spread: z
+    .union([z.number(), z.object({ home: espnNum, away: espnNum, homeOdds: espnNum, awayOdds: espnNum })])
+    .nullish(), // as a number, the home line
+  total: espnTotalSchema.nullish(),
+  overUnder: espnTotalSchema.nullish(),
+  overOdds: espnNum,
+  underOdds: espnNum,
+  homeTeamOdds: espnTeamOddsSchema.nullish(),
+  awayTeamOdds: espnTeamOddsSchema.nullish(),
+  drawOdds: z.object({ moneyLine: espnNum }).nullish(), // soccer
+  markets: z.array(z.unknown()).nullish(),
+  odds: z.array(z.unknown()).nullish(),
+});
+
+/** An entry of an odds item's `markets` array (after $ref expansion). */
+export const espnOddsMarketSchema = z.object({
+  type: z.string().nullish(),
+  key: z.string().nullish(),
+  name: z.string().nullish(),
+  total: espnNum,
+  outcomes: z.array(z.unknown()).default([]),
+});
+
+/** An outcome of a market (after $ref expansion); which price and line fields are set varies by book. */
+export const espnOddsOutcomeSchema = z.object({
+  name: z.string().nullish(),
+  type: z.string().nullish(),
+  homeAway: z.string().nullish(),
+  price: espnNum,
+  odds: espnNum,
+  americanOdds: espnNum,
+  moneyline: espnNum,
+  spread: espnNum,
+  pointSpread: espnNum,
+  line: espnNum,
+  total: espnNum,
+  overUnder: espnNum,
+});
+
+export const espnOddsCollectionSchema = z.object({
+  items: z.array(z.unknown()).default([]),
+});
+
+export type EspnScoreboardEvent = z.infer<typeof espnScoreboardEventSchema>;
+export type EspnOddsItem = z.infer<typeof espnOddsItemSchema>;
+export type EspnOddsMarket = z.infer<typeof espnOddsMarketSchema>;
+export type EspnOddsOutcome = z.infer<typeof espnOddsOutcomeSchema>;
+
+// ------------ RapidAPI (sportsbook-api2 advantages) ------------
+
+export const rapidAdvantageSchema = z.object({
+  market: z.object({
+    type: z.string(),
+    event: z.object({
+      key: z.string(),
+      startTime: z.string().nullish(),
+      homeParticipantKey: z.string().nullish(),
+      participants: z.array(z.object({ key: z.string(), name: z.string() })),
+    }),
+  }),
+  outcomes: z.array(
+    z.object({
+      source: z.string(),
+      payout: z.number(),
+      modifier: z.number().nullish(),
+      type: z.string().nullish(),
+      participantKey: z.string().nullish(),
+      lastFoundAt: z.string().nullish(),
+    }),
+  ),
+});
+
+export const rapidAdvantagesSchema = z.object({
+  advantages: z.array(z.unknown()),
+});
+
+export type RapidAdvantage = z.infer<typeof rapidAdvantageSchema>;
+
+// ------------ Quarantined payloads ------------
+
+// What oddsPipeline stores in quarantined_items.payload: the adapter's ProviderEvent, or for an
+// outcome the event (without bookmakers) plus the bookmaker, market and outcome it came from.
+// Parsed again on reprocessing, so rows written by an older build don't replay as garbage.
+
+const providerPrice = z.union([z.number(), z.string()]).nullable();
+
+const providerOutcomeSchema = z.object({
+  name: z.string().nullable(),
+  price: providerPrice,
+  point: providerPrice,
+});
+
+const providerMarketSchema = z.object({
+  key: z.string(),
+  period: z.string().nullish(),
+  last_update: z.string().nullish(),
+});
+
+const providerBookmakerSchema = z.object({
+  key: z.string(),
+  title: z.string(),
+  last_update: z.string().nullish(),
+});
+
+export const providerEventSchema: z.ZodType<ProviderEvent, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  sport_key: z.string(),
+  sport_title: z.string().optional(),
+  commence_time: z.string().nullable(),
+  home_team: z.string().nullable(),
+  away_team: z.string().nullable(),
+  home_team_id: z.string().nullish(),
+  away_team_id: z.string().nullish(),
+  completed: z.boolean().optional(),
+  home_score: z.number().nullish(),
+  away_score: z.number().nullish(),
+  status: z.enum(GAME_STATUSES).optional(),
+  period: z.string().nullish(),
+  clock: z.string().nullish(),
+  bookmakers: z.array(providerBookmakerSchema.extend({ markets: z.array(providerMarketSchema.extend({ outcomes: z.array(providerOutcomeSchema) })) })),
+});
+
+export const quarantinedOutcomeSchema = z.object({
+  event: providerEventSchema,
+  bookmaker: providerBookmakerSchema,
+  market: providerMarketSchema,
+  outcome: providerOutcomeSchema,
+});
+
+// ------------ Validation ------------
+
+export type PayloadIssue = {
+  provider: ProviderName;
+  resource: string; // which payload, e.g. "GameOdds" or "scoreboard.event"
+  itemId: string | null;
+  path: string;
+  message: string;
+};
+
+/** A provider response whose envelope doesn't match its schema; nothing in it is usable. */
+export class ProviderValidationError extends Error {
+  constructor(
+    readonly provider: ProviderName,
+    readonly resource: string,
+    readonly issues: PayloadIssue[],
+  ) {
+    super(`${provider} ${resource} payload failed validation: ${issues.map((i) => `${i.path || "(root)"} ${i.message}`).slice(0, 3).join("; ")}`);
+    this.name = "ProviderValidationError";
+  }
+}
+
+/** `market.event.key` of a RapidAPI advantage, if the item has one. */
+function rapidEventKey(market: unknown): unknown {
+  if (!market || typeof market !== "object" || !("event" in market)) return undefined;
+  const { event } = market;
+  return event && typeof event === "object" && "key" in event ? event.key : undefined;
+}
+
+function itemIdOf(raw: unknown): string | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const id = r.GameID ?? r.GameId ?? r.GameKey ?? r.BettingEventID ?? r.id ?? r.key ?? rapidEventKey(r.market);
+  return id != null ? String(id) : null;
+}
+
+function toIssues(error: z.ZodError, provider: ProviderName, resource: string, raw: unknown): PayloadIssue[] {
+  const itemId = itemIdOf(raw);
+  return error.issues.map((issue) => ({
+    provider,
+    resource,
+    itemId,
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+}
+
+/** Parse a whole response (the envelope); throws ProviderValidationError on mismatch. */
+export function parsePayload<T extends z.ZodTypeAny>(
+  schema: T,
+  data: unknown,
+  provider: ProviderName,
+  resource: string,
+): z.output<T> {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) throw new ProviderValidationError(provider, resource, toIssues(parsed.error, provider, resource, data));
+  return parsed.data;
+}
+
+/**
+ * Parse each item of a response independently. Invalid items are dropped, logged, and
+ * their issues appended to `issues` so the sync that fetched them can report them.
+ */
+export function parseItems<T extends z.ZodTypeAny>(
+  schema: T,
+  items: unknown[],
+  provider: ProviderName,
+  resource: string,
+  issues?: PayloadIssue[],
+): z.output<T>[] {
+  const valid: z.output<T>[] = [];
+  let invalid = 0;
+  for (const raw of items) {
+    const parsed = schema.safeParse(raw);
+    if (parsed.success) {
+      valid.push(parsed.data);
+      continue;
+    }
+    invalid++;
+    issues?.push(...toIssues(parsed.error, provider, resource, raw));
+  }
+  if (invalid > 0) {
+    console.warn(`[validation] ${invalid}/${items.length} ${provider} ${resource} items failed validation`);
+  }
+  return valid;
+}
@@ -0,0 +1,142 @@
+import { storage, type ProviderUsageIncrement } from "../storage.js";
+import type { ProviderUsage } from "@shared/schema.js";
+
+// Budgets come from <PROVIDER>_DAILY_BUDGET / <PROVIDER>_MONTHLY_BUDGET, e.g. SPORTSDATAIO_DAILY_BUDGET=500.
+// Unset means unmetered. Providers in METERED_PROVIDERS are the ones we pay for per call.
+export const METERED_PROVIDERS = ["sportsdataio", "rapidapi"];
+
+const FLUSH_INTERVAL_MS = 30 * 1000;
+const DEFAULT_DEGRADE_AT = 0.8;
+
+export type BudgetState = "ok" | "degraded" | "exhausted";
+
+export type ProviderBudget = {
+  provider: string;
+  today: number;
+  month: number;
+  errorsToday: number;
+  dailyBudget: number | null;
+  monthlyBudget: number | null;
+  remaining: number | null; // tighter of the daily/monthly headroom
+  state: BudgetState;
+};
+
+function utcDay(d: Date = new Date()): string {
+  return d.toISOString().slice(0, 10);
+}
+
+function budgetFromEnv(provider: string, period: "DAILY" | "MONTHLY"): number | null {
+  const n = Number(process.env[`${provider.toUpperCase()}_${period}_BUDGET`]);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/** '/v3/nfl/odds/json/GameOddsByWeek/2024REG/3' -> '/v3/nfl/odds/json/GameOddsByWeek/:n/:n' */
+export function usageEndpoint(url: string): string {
+  try {
+    return new URL(url).pathname
+      .split("/")
+      .map((seg) => (/\d/.test(seg) ? ":n" : seg))
+      .join("/");
+  } catch {
+    return "unknown";
+  }
+}
+
+/**
+ * Counts live provider calls in memory and flushes them to provider_usage in batches,
+ * so a sync that expands hundreds of ESPN refs costs one upsert rather than hundreds.
+ */
+export class ProviderUsageTracker {
+  private pending = new Map<string, ProviderUsageIncrement>();
+  private timer: NodeJS.Timeout | null = null;
+
+  record(provider: string, url: string, sport: string | undefined, ok: boolean): void {
+    const row: ProviderUsageIncrement = {
+      provider,
+      endpoint: usageEndpoint(url),
+      sport: sport?.toUpperCase() ?? "",
+      day: utcDay(),
+      requests: 0,
+      errors: 0,
+    };
+    const key = `${row.provider}|${row.endpoint}|${row.sport}|${row.day}`;
+    const entry = this.pending.get(key) ?? row;
+    entry.requests++;
+    if (!ok) entry.errors++;
+    this.pending.set(key, entry);
+
+    if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.flush().catch((error) => console.warn(`Provider usage flush failed: ${error.message}`));
+      }, FLUSH_INTERVAL_MS);
+      this.timer.unref();
+    }
+  }
+
+  async flush(): Promise<void> {
+    const rows = Array.from(this.pending.values());
+    this.pending.clear();
+    try {
+      await storage.incrementProviderUsage(rows);
+    } catch (error) {
+      // Put the counts back so the next flush retries them
+      for (const row of rows) {
+        const key = `${row.provider}|${row.endpoint}|${row.sport}|${row.day}`;
+        const entry = this.pending.get(key);
+        if (entry) {
+          entry.requests += row.requests;
+          entry.errors += row.errors;
+        } else {
+          this.pending.set(key, row);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /** Usage rows for the last `days` days (UTC), including counts not yet flushed. */
+  async getRows(days: number = 1): Promise<ProviderUsage[]> {
+    await this.flush().catch((error) => console.warn(`Provider usage flush failed: ${error.message}`));
+    return storage.getProviderUsage(utcDay(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000)));
+  }
+
+  async getBudgets(providers: string[] = METERED_PROVIDERS): Promise<ProviderBudget[]> {
+    const monthStart = utcDay().slice(0, 8) + "01";
+    await this.flush().catch((error) => console.warn(`Provider usage flush failed: ${error.message}`));
+    const rows = await storage.getProviderUsage(monthStart);
+    const today = utcDay();
+    const degradeAt = Number(process.env.USAGE_DEGRADE_AT || DEFAULT_DEGRADE_AT);
+
+    return providers.map((provider) => {
+      const mine = rows.filter((r) => r.provider === provider);
+      const todayRows = mine.filter((r) => r.day === today);
+      const usedToday = todayRows.reduce((sum, r) => sum + r.requests, 0);
+      const usedMonth = mine.reduce((sum, r) => sum + r.requests, 0);
+      const dailyBudget = budgetFromEnv(provider, "DAILY");
+      const monthlyBudget = budgetFromEnv(provider, "MONTHLY");
+
+      const headroom = [
+        dailyBudget != null ? dailyBudget - usedToday : null,
+        monthlyBudget != null ? monthlyBudget - usedMonth : null,
+      ].filter((n): n is number => n != null);
+      const ratio = Math.max(
+        dailyBudget ? usedToday / dailyBudget : 0,
+        monthlyBudget ? usedMonth / monthlyBudget : 0,
+      );
+
+      return {
+        provider,
+        today: usedToday,
+        month: usedMonth,
+        errorsToday: todayRows.reduce((sum, r) => sum + r.errors, 0),
+        dailyBudget,
+        monthlyBudget,
+        remaining: headroom.length ? Math.max(0, Math.min(...headroom)) : null,
+        state: ratio >= 1 ? "exhausted" : ratio >= degradeAt ? "degraded" : "ok",
+      };
+    });
+  }
+}
+
+export const providerUsageTracker = new ProviderUsageTracker();
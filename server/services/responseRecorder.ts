@@ -0,0 +1,94 @@
+import { createHash } from "node:crypto";
+import { appendFileSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { fixtureKey, redactUrl, type ProviderName } from "./providerFetch.js";
+
+// Raw provider responses, recorded when ODDS_RECORD_DIR is set:
+//
+//   $ODDS_RECORD_DIR/objects/<sha[0:2]>/<sha>   response bodies, content-addressed (identical polls stored once)
+//   $ODDS_RECORD_DIR/index.jsonl                one line per request, pointing at its object
+//
+// URLs are redacted before they touch disk; request headers are never written.
+
+export type Recording = {
+  recordedAt: string;
+  provider: ProviderName;
+  method: string;
+  url: string;
+  fixtureKey: string;
+  status: number;
+  contentType: string | null;
+  durationMs: number;
+  bytes: number;
+  sha256: string;
+};
+
+export function getRecordDir(): string | null {
+  return process.env.ODDS_RECORD_DIR ? path.resolve(process.env.ODDS_RECORD_DIR) : null;
+}
+
+function objectPath(dir: string, sha256: string): string {
+  return path.join(dir, "objects", sha256.slice(0, 2), sha256);
+}
+
+export function recordResponse(
+  dir: string,
+  entry: Omit<Recording, "url" | "fixtureKey" | "bytes" | "sha256"> & { url: string },
+  body: string,
+): Recording {
+  const sha256 = createHash("sha256").update(body).digest("hex");
+  const file = objectPath(dir, sha256);
+  if (!existsSync(file)) {
+    mkdirSync(path.dirname(file), { recursive: true });
+    writeFileSync(file, body);
+  }
+
+  const recording: Recording = {
+    ...entry,
+    url: redactUrl(entry.url),
+    fixtureKey: fixtureKey(entry.url, new Date(entry.recordedAt)),
+    bytes: Buffer.byteLength(body),
+    sha256,
+  };
+  appendFileSync(path.join(dir, "index.jsonl"), JSON.stringify(recording) + "\n");
+  return recording;
+}
+
+export function listRecordings(dir: string): Recording[] {
+  const index = path.join(dir, "index.jsonl");
+  if (!existsSync(index)) return [];
+  return readFileSync(index, "utf8")
+    .split("\n")
+    .filter(Boolean)
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as Recording];
+      } catch {
+        return [];
+      }
+    });
+}
+
+export function readRecordingBody(dir: string, recording: Recording): string {
+  return readFileSync(objectPath(dir, recording.sha256), "utf8");
+}
+
+/**
+ * Drop index entries recorded before `olderThan`, then delete objects no remaining
+ * entry references. Returns what was removed.
+ */
+export function pruneRecordings(dir: string, olderThan: Date): { entries: number; objects: number } {
+  const all = listRecordings(dir);
+  const keep = all.filter((r) => new Date(r.recordedAt) >= olderThan);
+  const referenced = new Set(keep.map((r) => r.sha256));
+
+  let objects = 0;
+  for (const sha of new Set(all.map((r) => r.sha256))) {
+    if (referenced.has(sha)) continue;
+    rmSync(objectPath(dir, sha), { force: true });
+    objects++;
+  }
+
+  writeFileSync(path.join(dir, "index.jsonl"), keep.map((r) => JSON.stringify(r) + "\n").join(""));
+  return { entries: all.length - keep.length, objects };
+}
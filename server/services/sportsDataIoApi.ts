@@ -1,4 +1,73 @@
-export class SportsDataIoService {
+import type {
+  FetchOptions,
+  OddsProvider,
+  ProviderBookmaker,
+  ProviderEvent,
+  ProviderFuturesMarket,
+  ProviderFuturesOutcome,
+  ProviderHealth,
+  ProviderMarket,
+  ProviderOutcome,
+  ProviderPlayerProp,
+} from "./oddsProvider.js";
+import type { GameStatus } from "@shared/schema.js";
+import { teamResolver } from "./teamResolver.js";
+import { isReplaying, providerFetch } from "./providerFetch.js";
+import {
+  parseItems,
+  parsePayload,
+  ProviderValidationError,
+  sdioFuturesEventSchema,
+  sdioGameOddsSchema,
+  sdioGameSchema,
+  sdioListSchema,
+  sdioPlayerPropSchema,
+  type PayloadIssue,
+  type SdioPregameOdds,
+} from "./providerSchemas.js";
+
+const SPORT_ENDPOINTS: Record<string, string> = {
+  NFL: "nfl",
+  NBA: "nba",
+  MLB: "mlb",
+  NHL: "nhl",
+  NCAAF: "cfb",
+  NCAAB: "cbb",
+  MLS: "soccer",
+  WNBA: "wnba",
+};
+
+// SportsDataIO game Status values -> ours; anything unrecognized reads as scheduled
+const SDIO_STATUSES: Record<string, GameStatus> = {
+  Scheduled: "scheduled",
+  InProgress: "in_progress",
+  Delayed: "in_progress",
+  Final: "final",
+  "F/OT": "final",
+  "F/SO": "final",
+  Postponed: "postponed",
+  Suspended: "postponed",
+  Canceled: "canceled",
+  Forfeit: "canceled",
+  NotNecessary: "canceled",
+};
+
+// Sports with a BettingFuturesBySeason feed (soccer futures are per competition, not season)
+const FUTURES_SPORTS = ["NFL", "NBA", "MLB", "NHL", "NCAAF", "NCAAB", "WNBA"];
+
+const FUTURES_OUTCOME_TYPES: Record<string, ProviderFuturesOutcome["outcome_type"]> = {
+  yes: "yes",
+  no: "no",
+  over: "over",
+  under: "under",
+};
+
+function sdioGameStatus(status: string | null | undefined): GameStatus {
+  return SDIO_STATUSES[status ?? ""] ?? "scheduled";
+}
+
+export class SportsDataIoService implements OddsProvider {
+  readonly name = "SportsDataIO";
   private apiKey: string;
   private baseUrl = "https://api.sportsdata.io/v3";
 
@@ -15,7 +84,9 @@ export class SportsDataIoService {
       console.log("[fetch] URL:", safe);
     }
 
-    const response = await fetch(`${url}?key=${this.apiKey}`);
+    const sportEndpoint = url.slice(this.baseUrl.length).split("/")[1];
+    const sport = Object.keys(SPORT_ENDPOINTS).find((s) => SPORT_ENDPOINTS[s] === sportEndpoint);
+    const response = await providerFetch("sportsdataio", `${url}?key=${this.apiKey}`, undefined, { sport });
 
     if (process.env.DEBUG_SYNC === "1") {
       console.log("[fetch] status:", response.status);
@@ -41,6 +112,48 @@ export class SportsDataIoService {
     return response.json();
   }
 
+  // ------------ OddsProvider ------------
+
+  capabilities() {
+    return {
+      sports: Object.keys(SPORT_ENDPOINTS),
+      markets: ["h2h", "spreads", "totals", "alternate_spreads", "alternate_totals", "draw_no_bet"],
+      requiresApiKey: true,
+    };
+  }
+
+  async fetchEvents(sport: string, options: FetchOptions = {}): Promise<ProviderEvent[]> {
+    return this.getGames(sport, options.issues);
+  }
+
+  async fetchOdds(sport: string, options: FetchOptions = {}): Promise<ProviderEvent[]> {
+    return this.getOdds(sport, options.limit ?? 50, options.issues);
+  }
+
+  async fetchLiveOdds(sport: string, options: FetchOptions = {}): Promise<ProviderEvent[]> {
+    return this.getLiveOdds(sport, options.issues);
+  }
+
+  async fetchPlayerProps(sport: string, eventIds: string[], options: FetchOptions = {}): Promise<ProviderPlayerProp[]> {
+    return this.getPlayerProps(sport, eventIds, options.issues);
+  }
+
+  async fetchFutures(sport: string, season?: string, options: FetchOptions = {}): Promise<ProviderFuturesMarket[]> {
+    return this.getFutures(sport, season, options.issues);
+  }
+
+  async health(): Promise<ProviderHealth> {
+    const configured = Boolean(this.apiKey) || isReplaying();
+    const base = { provider: this.name, configured, checkedAt: new Date().toISOString() };
+    if (!configured) return { ...base, ok: false, error: "SPORTSDATAIO_API_KEY not set" };
+    try {
+      await this.fetchWithRetry(`${this.baseUrl}/nfl/scores/json/CurrentWeek`);
+      return { ...base, ok: true };
+    } catch (error: any) {
+      return { ...base, ok: false, error: error.message };
+    }
+  }
+
   // ------------ Public API ------------
 
   async getSports(): Promise<any[]> {
@@ -60,16 +173,17 @@ export class SportsDataIoService {
       title: s.title,
       description: s.title,
       active: s.active,
-      has_outrights: false,
+      has_outrights: FUTURES_SPORTS.includes(s.key),
     }));
   }
 
   // Get games/schedules for a sport
-async getGames(sport: string): Promise<any[]> {
+async getGames(sport: string, issues?: PayloadIssue[]): Promise<ProviderEvent[]> {
   const sportEndpoint = this.getSportEndpoint(sport);
   if (!sportEndpoint) throw new Error(`Unsupported sport: ${sport}`);
 
   const currentSeason = this.getCurrentSeason(sport);
+  await teamResolver.ensureLoaded();
 
   try {
     // Prefer week-based for NFL / NCAAF
@@ -79,13 +193,13 @@ async getGames(sport: string): Promise<any[]> {
 
       try {
         const gamesByWeek = await this.fetchWithRetry(weekUrl);
-        return this.transformGames(gamesByWeek, sport);
+        return this.transformGames(gamesByWeek, sport, issues);
       } catch (err: any) {
         // If that specific week 404s, fall back to the full season schedule
         if (err?.status === 404) {
           const schedUrl = `${this.baseUrl}/${sportEndpoint}/scores/json/Schedules/${currentSeason}`;
           const schedule = await this.fetchWithRetry(schedUrl);
-          return this.transformGames(schedule, sport);
+          return this.transformGames(schedule, sport, issues);
         }
         throw err;
       }
@@ -94,17 +208,21 @@ async getGames(sport: string): Promise<any[]> {
     // Non week-based sports: use full season schedule directly
     const schedUrl = `${this.baseUrl}/${sportEndpoint}/scores/json/Schedules/${currentSeason}`;
     const schedule = await this.fetchWithRetry(schedUrl);
-    return this.transformGames(schedule, sport);
+    return this.transformGames(schedule, sport, issues);
   } catch (error) {
+    // Feed drift should fail the sync, not read as an empty schedule
+    if (error instanceof ProviderValidationError) throw error;
     console.error(`Error fetching games for ${sport}:`, error);
     return [];
   }
 }
 
-  async getOdds(sport: string, limit = 25): Promise<any[]> {
+  async getOdds(sport: string, limit = 25, issues?: PayloadIssue[]): Promise<ProviderEvent[]> {
     const sportEndpoint = this.getSportEndpoint(sport);
     if (!sportEndpoint) throw new Error(`Unsupported sport: ${sport}`);
 
+    await teamResolver.ensureLoaded();
+
     try {
       const today = new Date().toISOString().slice(0, 10);
       const season = this.getCurrentSeason(sport);
@@ -131,17 +249,103 @@ async getGames(sport: string): Promise<any[]> {
       }
 
       const odds = await this.fetchWithRetry(url);
-      return this.transformOddsData(
-        (Array.isArray(odds) ? odds : []).slice(0, limit),
-        sport
-      );
+      return this.transformOddsData(odds, sport.toUpperCase(), limit, issues);
     } catch (error) {
+      if (error instanceof ProviderValidationError) throw error;
       console.error(`Error fetching odds for ${sport}:`, error);
-      const games = await this.getGames(sport);
+      const games = await this.getGames(sport, issues);
       return games.slice(0, limit).map((g) => ({ ...g, bookmakers: [] }));
     }
   }
 
+  /** In-play odds for today's games in progress. The feed carries scores but no period or clock. */
+  async getLiveOdds(sport: string, issues?: PayloadIssue[]): Promise<ProviderEvent[]> {
+    const sportEndpoint = this.getSportEndpoint(sport);
+    if (!sportEndpoint) throw new Error(`Unsupported sport: ${sport}`);
+
+    await teamResolver.ensureLoaded();
+
+    let url: string;
+    if (sport.toUpperCase() === "NFL" || sport.toUpperCase() === "NCAAF") {
+      const week = await this.getCurrentWeek(sportEndpoint);
+      url = `${this.baseUrl}/${sportEndpoint}/odds/json/LiveGameOddsByWeek/${this.getCurrentSeason(sport)}/${week}`;
+    } else {
+      url = `${this.baseUrl}/${sportEndpoint}/odds/json/LiveGameOddsByDate/${new Date().toISOString().slice(0, 10)}`;
+    }
+
+    // No schedule fallback here: a failed live pull just skips this round
+    const odds = await this.fetchWithRetry(url);
+    return this.transformOddsData(odds, sport.toUpperCase(), Infinity, issues, "LiveOdds")
+      .filter((event) => event.status === "in_progress");
+  }
+
+  /**
+   * Player props for the given SportsDataIO game IDs, one request per game. A game whose
+   * request fails is skipped (props often aren't posted yet); a drifted payload fails the pull.
+   */
+  async getPlayerProps(sport: string, gameIds: string[], issues?: PayloadIssue[]): Promise<ProviderPlayerProp[]> {
+    const sportEndpoint = this.getSportEndpoint(sport);
+    if (!sportEndpoint) throw new Error(`Unsupported sport: ${sport}`);
+
+    const props: ProviderPlayerProp[] = [];
+    for (const gameId of gameIds) {
+      let raw: unknown;
+      try {
+        raw = await this.fetchWithRetry(`${this.baseUrl}/${sportEndpoint}/odds/json/PlayerPropsByGameID/${gameId}`);
+      } catch (error: any) {
+        console.warn(`No player props for ${sport} game ${gameId}: ${error.message}`);
+        continue;
+      }
+      props.push(...this.transformPlayerProps(raw, issues));
+    }
+    return props;
+  }
+
+  /** Futures markets for a season (default: the current one), with every book's available outcomes. */
+  async getFutures(sport: string, season?: string, issues?: PayloadIssue[]): Promise<ProviderFuturesMarket[]> {
+    const sportEndpoint = this.getSportEndpoint(sport);
+    if (!sportEndpoint || !FUTURES_SPORTS.includes(sport.toUpperCase())) {
+      throw new Error(`Futures not supported for sport: ${sport}`);
+    }
+
+    const futuresSeason = season ?? this.getCurrentSeason(sport);
+    await teamResolver.ensureLoaded();
+    const raw = await this.fetchWithRetry(`${this.baseUrl}/${sportEndpoint}/odds/json/BettingFuturesBySeason/${futuresSeason}`);
+    const rows = parsePayload(sdioListSchema, raw, "sportsdataio", "BettingFutures");
+
+    return parseItems(sdioFuturesEventSchema, rows, "sportsdataio", "BettingFuturesEvent", issues).flatMap((event) =>
+      event.BettingMarkets.map((market) => ({
+        id: String(market.BettingMarketID),
+        name: market.BettingBetType ?? market.Name ?? event.Name ?? `Market ${market.BettingMarketID}`,
+        season: String(event.Season ?? futuresSeason),
+        starts_at: event.StartDate ?? null,
+        outcomes: market.BettingOutcomes.flatMap((o): ProviderFuturesOutcome[] => {
+          const outcomeType = FUTURES_OUTCOME_TYPES[(o.BettingOutcomeType ?? "yes").toLowerCase()];
+          const selection = o.Participant ?? (o.TeamKey ? teamResolver.canonical(sport, o.TeamKey).name : null);
+          if (o.IsAvailable === false || !outcomeType || !selection || !o.SportsBook) return [];
+          return [{
+            selection,
+            team: o.TeamKey ?? null,
+            outcome_type: outcomeType,
+            bookmaker: { key: o.SportsBook.Name, title: o.SportsBook.Name },
+            price: o.PayoutAmerican ?? null,
+            point: o.Value ?? null,
+            last_update: o.Updated ?? null,
+          }];
+        }),
+      })),
+    );
+  }
+
+  /** Raw team records (Key, City, Name, FullName...) used to seed the teams registry. */
+  async getTeams(sport: string): Promise<any[]> {
+    const sportEndpoint = this.getSportEndpoint(sport);
+    if (!sportEndpoint) throw new Error(`Unsupported sport: ${sport}`);
+
+    const teams = await this.fetchWithRetry(`${this.baseUrl}/${sportEndpoint}/scores/json/Teams`);
+    return Array.isArray(teams) ? teams : [];
+  }
+
   async getPlayerStats(sport: string, season?: string): Promise<any[]> {
     const sportEndpoint = this.getSportEndpoint(sport);
     if (!sportEndpoint) throw new Error(`Unsupported sport: ${sport}`);
@@ -176,17 +380,7 @@ async getGames(sport: string): Promise<any[]> {
   // ------------ Helpers ------------
 
   private getSportEndpoint(sport: string): string | null {
-    const endpoints: Record<string, string> = {
-      NFL: "nfl",
-      NBA: "nba",
-      MLB: "mlb",
-      NHL: "nhl",
-      NCAAF: "cfb",
-      NCAAB: "cbb",
-      MLS: "soccer",
-      WNBA: "wnba",
-    };
-    return endpoints[sport.toUpperCase()] || null;
+    return SPORT_ENDPOINTS[sport.toUpperCase()] || null;
   }
 
   private getCurrentSeason(sport: string): string {
@@ -218,158 +412,148 @@ async getGames(sport: string): Promise<any[]> {
     }
   }
 
-  private transformGames(games: any[], sport: string): any[] {
-    if (!Array.isArray(games)) return [];
-    return games.map((g) => ({
-      id: g.GameID?.toString() || g.GameKey || `${sport}_${Date.now()}_${Math.random()}`,
-      sport_key: sport,
-      sport_title: sport.toUpperCase(),
-      commence_time: g.DateTime || g.Day || null,
-      home_team: g.HomeTeam || g.HomeTeamName || "Home Team",
-      away_team: g.AwayTeam || g.AwayTeamName || "Away Team",
-      completed: g.Status === "Final" || g.IsClosed === true,
-      home_score: g.HomeScore ?? null,
-      away_score: g.AwayScore ?? null,
-      status: g.Status || "Scheduled",
-      bookmakers: [],
-    }));
+  private transformGames(raw: unknown, sport: string, issues?: PayloadIssue[]): ProviderEvent[] {
+    const rows = parsePayload(sdioListSchema, raw, "sportsdataio", "Games");
+    return parseItems(sdioGameSchema, rows, "sportsdataio", "Game", issues).map((g) => {
+      const home = teamResolver.canonical(sport, g.HomeTeam);
+      const away = teamResolver.canonical(sport, g.AwayTeam);
+      return {
+        id: String(g.GameID ?? g.GameKey ?? g.ScoreID),
+        sport_key: sport,
+        sport_title: sport.toUpperCase(),
+        commence_time: g.DateTime ?? g.Day ?? null,
+        home_team: home.name,
+        away_team: away.name,
+        home_team_id: home.teamId,
+        away_team_id: away.teamId,
+        completed: sdioGameStatus(g.Status) === "final",
+        home_score: g.HomeScore ?? g.HomeTeamScore ?? null,
+        away_score: g.AwayScore ?? g.AwayTeamScore ?? null,
+        status: sdioGameStatus(g.Status),
+        bookmakers: [],
+      };
+    });
   }
 
-  // Safe normalizer for odds payloads
-private transformOddsData(raw: any[], fallbackSportKey?: string): any[] {
-  const arr = Array.isArray(raw) ? raw : [];
-
-  return arr.map((event: any) => {
-    // -------- basic event fields --------
-    const commence =
-      event.commence_time ??
-      event.commenceTime ??
-      event.DateTime ??
-      event.Day ??
-      null;
-
-    const homeTeam =
-      event.home_team ??
-      event.homeTeam ??
-      event.HomeTeam ??
-      event.HomeTeamName ??
-      null;
-
-    const awayTeam =
-      event.away_team ??
-      event.awayTeam ??
-      event.AwayTeam ??
-      event.AwayTeamName ??
-      null;
-
-    const id =
-      event.id ??
-      (event.GameID != null ? String(event.GameID) : undefined) ??
-      (event.GameId != null ? String(event.GameId) : undefined) ??
-      event.GameKey ??
-      `${fallbackSportKey ?? "NFL"}_${Date.now()}_${Math.random()}`;
-
-    const sportKey =
-      event.sport_key ??
-      event.sportKey ??
-      event.sport ??
-      (fallbackSportKey ?? "NFL");
-
-    const sportTitle =
-      event.sport_title ??
-      event.sportTitle ??
-      (fallbackSportKey ?? "NFL");
-
-    // -------- “TheOddsAPI-style” bookmakers (pass through, keep American prices as strings) --------
-    const fromOddsApi = Array.isArray(event.bookmakers ?? event.Bookmakers)
-      ? (event.bookmakers ?? event.Bookmakers).map((bm: any) => ({
-          key: bm.key ?? bm.Key ?? "unknown",
-          title: bm.title ?? bm.Title ?? (bm.key ?? "Unknown"),
-          last_update: bm.last_update ?? bm.LastUpdate ?? null,
-          markets: (bm.markets ?? bm.Markets ?? []).map((m: any) => ({
-            key: m.key ?? m.Key ?? "h2h",
-            last_update: m.last_update ?? m.LastUpdate ?? (bm.last_update ?? null),
-            outcomes: (m.outcomes ?? m.Outcomes ?? []).map((o: any) => ({
-              name: o.name ?? o.Name ?? null,
-              price: String(o.price ?? o.Price ?? ""), // keep American odds as string
-              point: o.point ?? o.Point ?? null,
-            })),
-          })),
-        }))
-      : [];
-
-    // -------- SportsDataIO PregameOdds -> synthesize bookmakers (keep American odds) --------
-    const pregame = Array.isArray(event.PregameOdds) ? event.PregameOdds : [];
-    const fromSdio = pregame.map((po: any) => {
-      const sportsbook = po.Sportsbook ?? po.SportsBook ?? po.Source ?? "SportsDataIO";
-      const updated = po.Updated ?? po.LastUpdated ?? null;
-
-      // moneyline (h2h)
-      const homeMl = po.HomeMoneyLine ?? po.HomeLine ?? po.MoneyLineHome ?? null;
-      const awayMl = po.AwayMoneyLine ?? po.AwayLine ?? po.MoneyLineAway ?? null;
-
-      const h2hOutcomes: any[] = [];
-      if (homeMl !== null && homeMl !== undefined) {
-        h2hOutcomes.push({ name: "home", price: String(homeMl), point: null });
-      }
-      if (awayMl !== null && awayMl !== undefined) {
-        h2hOutcomes.push({ name: "away", price: String(awayMl), point: null });
-      }
+  /** PregameOdds rows -> one bookmaker per sportsbook, keeping American prices. */
+  private pregameToBookmaker(po: SdioPregameOdds): ProviderBookmaker {
+    const updated = po.Updated ?? null;
+    const markets: ProviderMarket[] = [];
+
+    const h2h: ProviderOutcome[] = [];
+    if (po.HomeMoneyLine != null) h2h.push({ name: "home", price: String(po.HomeMoneyLine), point: null });
+    if (po.AwayMoneyLine != null) h2h.push({ name: "away", price: String(po.AwayMoneyLine), point: null });
+    if (po.DrawMoneyLine != null) h2h.push({ name: "draw", price: String(po.DrawMoneyLine), point: null });
+    if (h2h.length) markets.push({ key: "h2h", last_update: updated, outcomes: h2h });
+
+    const spreads: ProviderOutcome[] = [];
+    if (po.HomePointSpread != null && po.HomePointSpreadPayout != null) {
+      spreads.push({ name: "home", price: String(po.HomePointSpreadPayout), point: String(po.HomePointSpread) });
+    }
+    if (po.AwayPointSpread != null && po.AwayPointSpreadPayout != null) {
+      spreads.push({ name: "away", price: String(po.AwayPointSpreadPayout), point: String(po.AwayPointSpread) });
+    }
+    if (spreads.length) markets.push({ key: "spreads", last_update: updated, outcomes: spreads });
 
-      // totals (over/under)
-      const totalPoint =
-        po.OverUnder ?? po.TotalNumber ?? po.Total ?? po.PointTotal ?? null;
+    const totals: ProviderOutcome[] = [];
+    if (po.OverUnder != null && po.OverPayout != null) {
+      totals.push({ name: "over", price: String(po.OverPayout), point: String(po.OverUnder) });
+    }
+    if (po.OverUnder != null && po.UnderPayout != null) {
+      totals.push({ name: "under", price: String(po.UnderPayout), point: String(po.OverUnder) });
+    }
+    if (totals.length) markets.push({ key: "totals", last_update: updated, outcomes: totals });
 
-      const overAmerican =
-        po.OverPayout ?? po.OverOdds ?? po.OverPrice ?? po.OverMoneyLine ?? null;
-      const underAmerican =
-        po.UnderPayout ?? po.UnderOdds ?? po.UnderPrice ?? po.UnderMoneyLine ?? null;
+    return { key: po.Sportsbook, title: po.Sportsbook, last_update: updated, markets };
+  }
 
-      const totalsOutcomes: any[] = [];
-      if (totalPoint != null && overAmerican != null) {
-        totalsOutcomes.push({ name: "over", price: String(overAmerican), point: String(totalPoint) });
-      }
-      if (totalPoint != null && underAmerican != null) {
-        totalsOutcomes.push({ name: "under", price: String(underAmerican), point: String(totalPoint) });
+  /**
+   * Alternate-line entries merged into the main lines' bookmakers as alternate_spreads /
+   * alternate_totals, one outcome per side per entry. Draw-no-bet entries carry their two
+   * prices in the moneyline fields; period entries ("1st Half", "First 5 Innings", ...) are
+   * ordinary h2h/spreads/totals tagged with that period. Other types (team totals) are skipped.
+   */
+  private withAlternateLines(bookmakers: ProviderBookmaker[], alternates: SdioPregameOdds[]): ProviderBookmaker[] {
+    const byKey = new Map(bookmakers.map((b) => [b.key, { ...b, markets: [...b.markets] }]));
+
+    for (const po of alternates) {
+      const oddType = po.OddType ?? "";
+      const main = this.pregameToBookmaker(po);
+      const markets = /^alternate/i.test(oddType)
+        ? main.markets
+          .filter((m) => m.key === "spreads" || m.key === "totals")
+          .map((m) => ({ ...m, key: `alternate_${m.key}` }))
+        : /^draw\s*no\s*bet$/i.test(oddType)
+          ? main.markets
+            .filter((m) => m.key === "h2h")
+            .map((m) => ({ ...m, key: "draw_no_bet", outcomes: m.outcomes.filter((o) => o.name !== "draw") }))
+          : /half|quarter|period|inning/i.test(oddType)
+            ? main.markets.map((m) => ({ ...m, period: oddType }))
+            : [];
+      if (markets.length === 0) continue;
+
+      const book = byKey.get(main.key) ?? { ...main, markets: [] };
+      for (const market of markets) {
+        const existing = book.markets.find((m) => m.key === market.key && m.period === market.period);
+        if (existing) existing.outcomes.push(...market.outcomes);
+        else book.markets.push(market);
       }
+      byKey.set(main.key, book);
+    }
+    return Array.from(byKey.values());
+  }
 
-      const markets: any[] = [];
-      if (h2hOutcomes.length) {
-        markets.push({ key: "h2h", last_update: updated, outcomes: h2hOutcomes });
-      }
-      if (totalsOutcomes.length) {
-        markets.push({ key: "totals", last_update: updated, outcomes: totalsOutcomes });
-      }
+  private transformPlayerProps(raw: unknown, issues?: PayloadIssue[]): ProviderPlayerProp[] {
+    const rows = parsePayload(sdioListSchema, raw, "sportsdataio", "PlayerProps");
+    return parseItems(sdioPlayerPropSchema, rows, "sportsdataio", "PlayerProp", issues).map((p) => ({
+      event_id: String(p.GameID ?? p.ScoreID),
+      player_id: String(p.PlayerID),
+      player_name: p.Name,
+      team: p.Team ?? null,
+      position: p.Position ?? null,
+      stat: p.Description,
+      bookmaker: { key: p.Sportsbook, title: p.Sportsbook },
+      point: p.OverUnder ?? null,
+      over_price: p.OverPayout ?? null,
+      under_price: p.UnderPayout ?? null,
+      last_update: p.Updated ?? null,
+    }));
+  }
+
+  /** GameOdds rows -> provider events; rows that fail the schema are dropped and reported in `issues`. */
+  private transformOddsData(
+    raw: unknown,
+    sport: string,
+    limit: number,
+    issues?: PayloadIssue[],
+    field: "PregameOdds" | "LiveOdds" = "PregameOdds",
+  ): ProviderEvent[] {
+    const rows = parsePayload(sdioListSchema, raw, "sportsdataio", "GameOdds").slice(0, limit);
+
+    return parseItems(sdioGameOddsSchema, rows, "sportsdataio", "GameOdds", issues).map((event) => {
+      const home = teamResolver.canonical(sport, event.HomeTeamName);
+      const away = teamResolver.canonical(sport, event.AwayTeamName);
 
       return {
-        key: sportsbook,
-        title: sportsbook,
-        last_update: updated,
-        markets,
+        id: String(event.GameId),
+        sport_key: sport,
+        sport_title: sport,
+        commence_time: event.DateTime ?? event.Day ?? null,
+        home_team: home.name,
+        away_team: away.name,
+        home_team_id: home.teamId,
+        away_team_id: away.teamId,
+        completed: sdioGameStatus(event.Status) === "final",
+        home_score: event.HomeTeamScore ?? null,
+        away_score: event.AwayTeamScore ?? null,
+        status: sdioGameStatus(event.Status),
+        bookmakers: this.withAlternateLines(
+          event[field].map((po) => this.pregameToBookmaker(po)).filter((b) => b.markets.length > 0),
+          field === "PregameOdds" ? event.AlternateMarketPregameOdds : [],
+        ),
       };
     });
-
-    const bookmakers = [...fromOddsApi, ...fromSdio].filter(
-      (b) => Array.isArray(b.markets) && b.markets.length > 0
-    );
-
-  return {
-      id,
-      sport_key: sportKey,
-      sport_title: sportTitle,
-      commence_time: commence,
-      home_team: homeTeam,
-      away_team: awayTeam,
-      completed: Boolean(
-        event.completed || event.IsClosed === true || event.Status === "Final"
-      ),
-      home_score: event.home_score ?? event.HomeScore ?? null,
-      away_score: event.away_score ?? event.AwayScore ?? null,
-      status: event.status ?? event.Status ?? "Scheduled",
-      bookmakers,
-    };
-  });
-} // ✅ closes transformOddsData
+  }
 
 } // ✅ closes the SportsDataIoService class
 
@@ -0,0 +1,53 @@
+import { after, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestDatabase } from "../testDatabase.js";
+
+const database = await startTestDatabase();
+after(() => database.stop());
+const { TeamResolver } = await import("./teamResolver.js");
+const { storage } = await import("../storage.js");
+
+describe("TeamResolver", () => {
+  beforeEach(async () => {
+    await database.reset();
+    await storage.upsertSport({ id: "NFL", title: "NFL" });
+    await storage.upsertSport({ id: "NBA", title: "NBA" });
+    await storage.upsertTeam({ sportId: "NFL", name: "Los Angeles Rams", abbreviation: "LAR", location: "Los Angeles", aliases: ["LA Rams"] });
+    await storage.upsertTeam({ sportId: "NBA", name: "Los Angeles Lakers", abbreviation: "LAL", location: "Los Angeles", aliases: [] });
+  });
+
+  it("resolves names, abbreviations and aliases within the sport only", async () => {
+    const resolver = new TeamResolver();
+    await resolver.refresh();
+
+    for (const name of ["Los Angeles Rams", "LAR", "la rams", "LOS ANGELES RAMS"]) {
+      assert.equal(resolver.canonical("nfl", name).name, "Los Angeles Rams", name);
+    }
+    assert.equal(resolver.resolve("NBA", "LA Rams"), undefined);
+    assert.deepEqual(resolver.canonical("NBA", "LA Rams"), { name: "LA Rams", teamId: null });
+  });
+
+  it("keeps aliases admins added when the team is seeded again", async () => {
+    const [rams] = await storage.getTeams("NFL");
+    await storage.addTeamAliases(rams.id, ["Rams", " "]);
+    await storage.upsertTeam({ sportId: "NFL", name: "Los Angeles Rams", abbreviation: "LAR", location: "Los Angeles", aliases: ["St. Louis Rams"] });
+
+    const [after] = await storage.getTeams("NFL");
+    assert.equal(after.id, rams.id);
+    assert.deepEqual([...after.aliases].sort(), ["LA Rams", "Rams", "St. Louis Rams"]);
+  });
+
+  it("counts unmatched names until an alias makes them resolve", async () => {
+    const resolver = new TeamResolver();
+    await resolver.refresh();
+    resolver.resolve("NFL", "LA Rams FC");
+    resolver.resolve("nfl", "la rams fc");
+    assert.deepEqual(resolver.getUnmatched("NFL").map(({ name, count }) => ({ name, count })), [{ name: "la rams fc", count: 2 }]);
+
+    const [rams] = await storage.getTeams("NFL");
+    await storage.addTeamAliases(rams.id, ["LA Rams FC"]);
+    await resolver.refresh();
+    assert.deepEqual(resolver.getUnmatched(), []);
+    assert.equal(resolver.canonical("NFL", "LA Rams FC").teamId, rams.id);
+  });
+});
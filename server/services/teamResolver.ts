@@ -0,0 +1,88 @@
+import { storage } from "../storage.js";
+import type { Team } from "@shared/schema.js";
+import { normalizeTeamName } from "./gameIdentity.js";
+
+type UnmatchedName = {
+  sport: string;
+  name: string;
+  count: number;
+  lastSeen: string;
+};
+
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * In-memory index of the teams table by normalized name, abbreviation and alias.
+ * Transforms are synchronous, so callers `ensureLoaded()` before transforming a payload.
+ */
+export class TeamResolver {
+  private bySport = new Map<string, Map<string, Team>>();
+  private unmatched = new Map<string, UnmatchedName>();
+  private loadedAt = 0;
+
+  async refresh(): Promise<void> {
+    const all = await storage.getTeams();
+    const bySport = new Map<string, Map<string, Team>>();
+
+    for (const team of all) {
+      const index = bySport.get(team.sportId) ?? new Map<string, Team>();
+      for (const key of [team.name, team.abbreviation, ...team.aliases]) {
+        const normalized = normalizeTeamName(key ?? "");
+        if (normalized && !index.has(normalized)) index.set(normalized, team);
+      }
+      bySport.set(team.sportId, index);
+    }
+
+    this.bySport = bySport;
+    this.loadedAt = Date.now();
+
+    // Names that resolve now are no longer unmatched
+    for (const [key, entry] of this.unmatched) {
+      if (this.lookup(entry.sport, entry.name)) this.unmatched.delete(key);
+    }
+  }
+
+  async ensureLoaded(): Promise<void> {
+    if (Date.now() - this.loadedAt < REFRESH_INTERVAL_MS) return;
+    try {
+      await this.refresh();
+    } catch (error: any) {
+      console.warn(`Team registry unavailable, using raw team names: ${error.message}`);
+      this.loadedAt = Date.now();
+    }
+  }
+
+  private lookup(sport: string, name: string): Team | undefined {
+    return this.bySport.get(sport.toUpperCase())?.get(normalizeTeamName(name));
+  }
+
+  resolve(sport: string, name: string | null | undefined): Team | undefined {
+    if (!name) return undefined;
+    const team = this.lookup(sport, name);
+    if (!team) {
+      const key = `${sport.toUpperCase()}:${normalizeTeamName(name)}`;
+      const entry = this.unmatched.get(key);
+      this.unmatched.set(key, {
+        sport: sport.toUpperCase(),
+        name,
+        count: (entry?.count ?? 0) + 1,
+        lastSeen: new Date().toISOString(),
+      });
+    }
+    return team;
+  }
+
+  /** Canonical team name and ID for a feed's name, falling back to the raw name. */
+  canonical(sport: string, name: string | null | undefined): { name: string | null; teamId: string | null } {
+    const team = this.resolve(sport, name);
+    return team ? { name: team.name, teamId: team.id } : { name: name ?? null, teamId: null };
+  }
+
+  getUnmatched(sport?: string): UnmatchedName[] {
+    return Array.from(this.unmatched.values())
+      .filter((u) => !sport || u.sport === sport.toUpperCase())
+      .sort((a, b) => b.count - a.count);
+  }
+}
+
+export const teamResolver = new TeamResolver();
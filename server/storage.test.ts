@@ -0,0 +1,211 @@
+import { after, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { oddsSnapshots, type Odds } from "@shared/schema.js";
+import type { SyncBatch } from "./storage.js";
+import { startTestDatabase } from "./testDatabase.js";
+
+const database = await startTestDatabase();
+after(() => database.stop());
+const { detectLineMovement, impliedProbability, storage } = await import("./storage.js");
+const { db } = await import("./db.js");
+
+const quote = (changes: Partial<Odds>): Odds => ({
+  id: "o1",
+  gameId: "g1",
+  bookmakerId: "draftkings",
+  market: "spreads",
+  outcomeType: "home",
+  lineKey: "",
+  period: "full_game",
+  price: "-110",
+  point: "-3.5",
+  lastUpdate: new Date("2024-09-08T17:00:00Z"),
+  ...changes,
+});
+
+describe("impliedProbability", () => {
+  it("converts American prices to percentage points", () => {
+    assert.equal(impliedProbability(100), 50);
+    assert.equal(impliedProbability(-100), 50);
+    assert.equal(impliedProbability(-110).toFixed(1), "52.4");
+    assert.equal(impliedProbability(300), 25);
+  });
+});
+
+describe("detectLineMovement", () => {
+  it("measures spreads and totals on the point", () => {
+    const move = detectLineMovement(quote({}), quote({ point: "-4.5", price: "-105" }));
+    assert.equal(move?.oldValue, "-3.5");
+    assert.equal(move?.newValue, "-4.5");
+    assert.equal(move?.movement, "-1.0");
+    assert.equal(move?.unit, "points");
+  });
+
+  it("ignores a price change when the point holds", () => {
+    assert.equal(detectLineMovement(quote({}), quote({ price: "-120" })), null);
+  });
+
+  it("measures moneylines in implied probability, so crossing even money is a small move", () => {
+    const h2h = { market: "h2h", point: null };
+    const small = detectLineMovement(quote({ ...h2h, price: "-105" }), quote({ ...h2h, price: "105" }));
+    assert.equal(small?.movement, "-2.4");
+    assert.equal(small?.unit, "probability");
+
+    const large = detectLineMovement(quote({ ...h2h, price: "-150" }), quote({ ...h2h, price: "-200" }));
+    assert.equal(large?.movement, "6.7");
+  });
+
+  it("needs both sides of the comparison", () => {
+    assert.equal(detectLineMovement(quote({ point: null }), quote({})), null);
+    assert.equal(detectLineMovement(quote({ market: "h2h", price: null }), quote({ market: "h2h" })), null);
+  });
+});
+
+describe("applySyncBatch", () => {
+  beforeEach(async () => {
+    await database.reset();
+    await storage.upsertSport({ id: "NFL", title: "NFL" });
+  });
+
+  const batch = (point: string, changes: Partial<SyncBatch> = {}): SyncBatch => ({
+    games: [{ id: "g1", sportId: "NFL", homeTeam: "Kansas City Chiefs", awayTeam: "Baltimore Ravens", commenceTime: new Date("2024-09-06T00:20:00Z") }],
+    externalIds: [{ gameId: "g1", provider: "SportsDataIO", sportId: "NFL", externalId: "18001" }],
+    bookmakers: [{ id: "draftkings", title: "DraftKings", lastUpdate: new Date() }],
+    odds: [
+      { gameId: "g1", bookmakerId: "draftkings", market: "spreads", outcomeType: "home", price: "-110", point },
+      { gameId: "g1", bookmakerId: "draftkings", market: "h2h", outcomeType: "home", price: "-170", point: null },
+    ],
+    quarantine: [],
+    ...changes,
+  });
+
+  it("writes games, links, books and quotes, with a snapshot and opener per new quote", async () => {
+    const result = await storage.applySyncBatch(batch("-3.5"));
+    assert.deepEqual(result, { games: 1, bookmakers: 1, odds: 2, snapshots: 2, movements: 0, quarantined: 0 });
+
+    assert.equal((await storage.getGameByExternalId("SportsDataIO", "NFL", "18001"))?.id, "g1");
+    const lines = await storage.getGameLines("g1", "spreads");
+    assert.equal(lines.length, 1);
+    assert.equal(lines[0].open?.point, "-3.5");
+    assert.equal(lines[0].current?.point, "-3.5");
+  });
+
+  it("snapshots only changed quotes, records their movement, and keeps the opener", async () => {
+    await storage.applySyncBatch(batch("-3.5"));
+    const result = await storage.applySyncBatch(batch("-4.5"));
+    assert.equal(result.snapshots, 1);
+    assert.equal(result.movements, 1);
+
+    const [line] = await storage.getGameLines("g1", "spreads");
+    assert.equal(line.open?.point, "-3.5");
+    assert.equal(line.current?.point, "-4.5");
+    const [move] = await storage.getLineMovements("g1");
+    assert.equal(move.movement, "-1.0");
+    assert.equal((await storage.getOddsHistory("g1", "spreads")).length, 2);
+  });
+
+  it("counts repeat sightings of a quarantined item", async () => {
+    const item = {
+      provider: "SportsDataIO", sport: "NFL", externalId: "18002", kind: "event", reason: "missing_teams",
+      fingerprint: "", detail: "home=null away=BUF", payload: { id: "18002" },
+    };
+    await storage.applySyncBatch(batch("-3.5", { quarantine: [item] }));
+    await storage.applySyncBatch(batch("-3.5", { quarantine: [item] }));
+
+    const [stored] = await storage.getQuarantinedItems({});
+    assert.equal(stored.seenCount, 2);
+  });
+
+  it("writes nothing when any part of the batch fails", async () => {
+    const broken = batch("-3.5", {
+      games: [{ ...batch("").games[0], id: "g2" }],
+      externalIds: [{ gameId: "g2", provider: "SportsDataIO", sportId: "NFL", externalId: "18003" }],
+      odds: [{ gameId: "g2", bookmakerId: "no_such_book", market: "h2h", outcomeType: "home", price: "-110", point: null }],
+    });
+    await assert.rejects(storage.applySyncBatch(broken));
+
+    assert.equal(await storage.getGameById("g2"), undefined);
+    assert.equal(await storage.getGameByExternalId("SportsDataIO", "NFL", "18003"), undefined);
+    assert.deepEqual(await storage.getBookmakers(), []);
+  });
+});
+
+describe("closing lines", () => {
+  const kickoff = new Date(Date.now() + 60 * 60 * 1000);
+  const minutes = (n: number) => new Date(kickoff.getTime() + n * 60 * 1000);
+
+  const spread = (point: string): SyncBatch => ({
+    games: [{ id: "g1", sportId: "NFL", homeTeam: "Kansas City Chiefs", awayTeam: "Baltimore Ravens", commenceTime: kickoff }],
+    externalIds: [],
+    bookmakers: [{ id: "draftkings", title: "DraftKings", lastUpdate: new Date() }],
+    odds: [{ gameId: "g1", bookmakerId: "draftkings", market: "spreads", outcomeType: "home", price: "-110", point }],
+    quarantine: [],
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+    await storage.upsertSport({ id: "NFL", title: "NFL" });
+    await storage.applySyncBatch(spread("-3.5"));
+    await storage.applySyncBatch(spread("-4.5"));
+  });
+
+  it("freezes each line's last pregame quote once the game has started", async () => {
+    // A quote captured after kickoff isn't a closer
+    await db.insert(oddsSnapshots).values({
+      gameId: "g1", bookmakerId: "draftkings", market: "spreads", outcomeType: "home", price: "-115", point: "-7.5", observedAt: minutes(10),
+    });
+
+    assert.equal(await storage.freezeClosingLines("NFL", minutes(30), minutes(-60)), 1);
+    const [line] = await storage.getGameLines("g1", "spreads");
+    assert.equal(line.open?.point, "-3.5");
+    assert.equal(line.close?.point, "-4.5");
+    assert.equal(await storage.freezeClosingLines("NFL", minutes(60), minutes(-60)), 0);
+  });
+
+  it("leaves games that haven't started, or started before the window, open", async () => {
+    assert.equal(await storage.freezeClosingLines("NFL", minutes(-1), minutes(-60)), 0);
+    assert.equal(await storage.freezeClosingLines("NFL", minutes(30), minutes(1)), 0);
+    assert.equal(await storage.freezeClosingLines("NBA", minutes(30), minutes(-60)), 0);
+    assert.equal((await storage.getGameLines("g1"))[0].close, null);
+  });
+
+  it("records an opener for quotes written one at a time too", async () => {
+    await storage.upsertOdds({ gameId: "g1", bookmakerId: "draftkings", market: "totals", outcomeType: "over", price: "-110", point: "47.5" });
+    await storage.upsertOdds({ gameId: "g1", bookmakerId: "draftkings", market: "totals", outcomeType: "over", price: "-110", point: "48.5" });
+    const [line] = await storage.getGameLines("g1", "totals");
+    assert.equal(line.open?.point, "47.5");
+    assert.equal(line.current?.point, "48.5");
+  });
+});
+
+describe("tryAcquireLease", () => {
+  beforeEach(() => database.reset());
+
+  const expire = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+  it("keeps other holders out while the lease is live, and lets the holder renew", async () => {
+    const taken = await storage.tryAcquireLease("scheduler", "a", "host-a", 60_000);
+    assert.equal(taken?.holderId, "a");
+    assert.equal(await storage.tryAcquireLease("scheduler", "b", "host-b", 60_000), null);
+
+    const renewed = await storage.tryAcquireLease("scheduler", "a", "host-a", 60_000);
+    assert.equal(renewed?.acquiredAt.getTime(), taken!.acquiredAt.getTime());
+    assert.ok(renewed!.expiresAt >= taken!.expiresAt);
+  });
+
+  it("hands an expired lease to the next holder", async () => {
+    await storage.tryAcquireLease("scheduler", "a", "host-a", 1);
+    await expire();
+    const taken = await storage.tryAcquireLease("scheduler", "b", "host-b", 60_000);
+    assert.equal(taken?.holderId, "b");
+    assert.equal(taken?.holderHost, "host-b");
+  });
+
+  it("only lets the holder release it", async () => {
+    await storage.tryAcquireLease("scheduler", "a", "host-a", 60_000);
+    await storage.releaseLease("scheduler", "b");
+    assert.equal((await storage.getLease("scheduler"))?.holderId, "a");
+    await storage.releaseLease("scheduler", "a");
+    assert.equal(await storage.getLease("scheduler"), undefined);
+  });
+});
@@ -1,26 +1,218 @@
 import {
   users,
   sports,
+  teams,
   games,
+  gameExternalIds,
   bookmakers,
+  bookmakerAliases,
   odds,
+  oddsSnapshots,
+  openingLines,
+  closingLines,
+  liveOdds,
+  players,
+  playerProps,
+  playerPropSnapshots,
+  futuresMarkets,
+  futuresOdds,
+  futuresSnapshots,
   lineMovements,
+  providerUsage,
+  syncRuns,
+  syncSchedules,
+  syncLeases,
+  quarantinedItems,
   userFavorites,
   userAlerts,
   type User,
   type UpsertUser,
   type Sport,
+  type Team,
+  type InsertTeam,
   type Game,
+  type GameStatus,
+  FINISHED_GAME_STATUSES,
+  ALTERNATE_MARKETS,
+  PRICE_MARKETS,
+  FULL_GAME,
+  type GameExternalId,
   type Bookmaker,
+  type BookmakerAlias,
+  type InsertBookmakerAlias,
   type Odds,
+  type OddsSnapshot,
+  type LiveOdds,
+  type InsertLiveOdds,
+  type Player,
+  type InsertPlayer,
+  type PlayerProp,
+  type InsertPlayerProp,
+  type PlayerPropSnapshot,
+  type FuturesMarket,
+  type InsertFuturesMarket,
+  type FuturesOdds,
+  type InsertFuturesOdds,
+  type FuturesSnapshot,
   type LineMovement,
+  type ProviderUsage,
+  type SyncRun,
+  type InsertSyncRun,
+  type SyncSchedule,
+  type SyncLease,
+  type QuarantinedItem,
+  type InsertQuarantinedItem,
   type UserFavorite,
   type UserAlert,
   type InsertUserFavorite,
   type InsertUserAlert,
 } from "@shared/schema.js";
 import { db } from "./db.js";
-import { eq, desc, and, sql, gte } from "drizzle-orm";
+import { eq, desc, and, or, sql, gt, gte, lte, lt, ilike, inArray, notInArray, type AnyColumn } from "drizzle-orm";
+
+/** Everything one provider sync writes, applied by applySyncBatch in a single transaction. */
+export type SyncBatch = {
+  games: (typeof games.$inferInsert)[];
+  externalIds: (typeof gameExternalIds.$inferInsert)[];
+  bookmakers: (typeof bookmakers.$inferInsert)[];
+  odds: (typeof odds.$inferInsert)[];
+  quarantine: InsertQuarantinedItem[];
+};
+
+export type SyncBatchResult = {
+  games: number;
+  bookmakers: number;
+  odds: number;
+  snapshots: number;
+  movements: number;
+  quarantined: number;
+};
+
+/** A game's state as reported by a results feed. */
+export type GameResultUpdate = {
+  gameId: string;
+  status: GameStatus;
+  homeScore: number | null;
+  awayScore: number | null;
+};
+
+export type LineQuote = {
+  price: string | null;
+  point: string | null;
+  observedAt: Date | null;
+};
+
+/** Open/current/close for one outcome at one book; any of them may not exist yet. */
+export type GameLine = {
+  market: string;
+  bookmakerId: string;
+  outcomeType: string;
+  lineKey: string; // '' for the main line, the point for an alternate line
+  period: string;
+  open: LineQuote | null;
+  current: LineQuote | null;
+  close: LineQuote | null;
+};
+
+/** One point on an outcome's ladder: each book's price there (American) and the best one. */
+export type LadderRung = {
+  point: string;
+  books: Record<string, string>; // bookmakerId -> price
+  best: { bookmakerId: string; price: string } | null;
+};
+
+export type LadderOutcome = {
+  outcomeType: string;
+  rungs: LadderRung[]; // ascending by point
+};
+
+/** In-play quotes from one live sync; rows whose line hasn't moved since the last capture are dropped. */
+export type LiveBatch = {
+  bookmakers: (typeof bookmakers.$inferInsert)[];
+  odds: InsertLiveOdds[];
+};
+
+/** Prop quotes from one sync; players must already be upserted (see upsertPlayers). */
+export type PropsBatch = {
+  bookmakers: (typeof bookmakers.$inferInsert)[];
+  props: InsertPlayerProp[];
+};
+
+export type PropsBatchResult = {
+  props: number;
+  snapshots: number;
+};
+
+export type PlayerFilter = {
+  sportId?: string;
+  teamId?: string;
+  search?: string; // case-insensitive name substring
+  limit?: number;
+};
+
+export type PropFilter = {
+  playerId?: string;
+  statType?: string;
+};
+
+/** Futures quotes from one sync; their markets must already be upserted (see upsertFuturesMarkets). */
+export type FuturesBatch = {
+  bookmakers: (typeof bookmakers.$inferInsert)[];
+  odds: InsertFuturesOdds[];
+};
+
+export type FuturesBatchResult = {
+  odds: number;
+  snapshots: number;
+};
+
+export type FuturesFilter = {
+  sportId?: string;
+  season?: string;
+  marketType?: string;
+  search?: string; // case-insensitive market name substring
+};
+
+/** One selection/outcome of a futures market across books, for line shopping. */
+export type FuturesSelection = {
+  selection: string;
+  selectionKey: string;
+  outcomeType: string;
+  books: Record<string, { price: string | null; point: string | null }>; // bookmakerId -> quote
+  best: { bookmakerId: string; price: string; point: string | null } | null;
+};
+
+/** Smallest move getBigMovers reports, per movement unit: line points, and implied-probability points. */
+export type MovementThresholds = { points: number; probability: number };
+
+const BIG_MOVE_THRESHOLDS: MovementThresholds = { points: 1, probability: 3 };
+
+export type QuarantineFilter = {
+  provider?: string;
+  sport?: string;
+  kind?: string;
+  reason?: string;
+  resolved?: boolean;
+  ids?: string[];
+  limit?: number;
+};
+
+export type SyncRunFilter = {
+  sport?: string;
+  source?: string;
+  trigger?: string;
+  status?: string;
+  since?: Date;
+  limit?: number;
+};
+
+export type SyncRunSummary = {
+  sport: string;
+  lastRun: SyncRun;
+  lastSuccess: SyncRun | null;
+};
+
+export type ProviderUsageIncrement = Pick<ProviderUsage, "provider" | "endpoint" | "sport" | "day" | "requests" | "errors">;
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
@@ -31,25 +223,99 @@ export interface IStorage {
   getSports(): Promise<Sport[]>;
   upsertSport(sport: Partial<Sport>): Promise<Sport>;
   
+  // Teams operations
+  getTeams(sportId?: string): Promise<Team[]>;
+  getTeamById(id: string): Promise<Team | undefined>;
+  upsertTeam(team: InsertTeam): Promise<Team>;
+  addTeamAliases(id: string, aliases: string[]): Promise<Team | undefined>;
+  getGamesByTeam(teamId: string): Promise<Game[]>;
+  
   // Games operations
   getGamesBySport(sportId: string): Promise<Game[]>;
   getUpcomingGames(): Promise<Game[]>;
   upsertGame(game: Partial<Game>): Promise<Game>;
   getGameById(id: string): Promise<Game | undefined>;
+  getGamesAwaitingResults(sportId: string, startedBefore: Date, since: Date): Promise<Game[]>;
+  applyGameResults(updates: GameResultUpdate[]): Promise<number>;
+  
+  // Cross-provider game identity
+  getGameByExternalId(provider: string, sportId: string, externalId: string): Promise<Game | undefined>;
+  getGamesByExternalIds(provider: string, sportId: string, externalIds: string[]): Promise<{ externalId: string; game: Game }[]>;
+  getGamesBetween(sportId: string, from: Date, to: Date): Promise<Game[]>;
+  getGameExternalIds(gameId: string): Promise<GameExternalId[]>;
   
   // Bookmakers operations
   getBookmakers(): Promise<Bookmaker[]>;
   upsertBookmaker(bookmaker: Partial<Bookmaker>): Promise<Bookmaker>;
+  seedBookmakers(books: Partial<Bookmaker>[]): Promise<void>;
+  updateBookmakerMetadata(id: string, data: Partial<Pick<Bookmaker, "title" | "region" | "isSharp" | "isExchange" | "displayOrder">>): Promise<Bookmaker | undefined>;
+  getBookmakerAliases(): Promise<BookmakerAlias[]>;
+  upsertBookmakerAlias(alias: InsertBookmakerAlias): Promise<BookmakerAlias>;
   
   // Odds operations
   getOddsByGame(gameId: string): Promise<Odds[]>;
   upsertOdds(oddsData: Partial<Odds>): Promise<Odds>;
-  getBestOdds(gameId: string, market: string): Promise<Odds[]>;
+  getBestOdds(gameId: string, market: string, period?: string): Promise<Odds[]>;
+  getOddsHistory(gameId: string, market?: string, hours?: number, period?: string): Promise<OddsSnapshot[]>;
+  applySyncBatch(batch: SyncBatch): Promise<SyncBatchResult>;
+  
+  // Opening / closing lines
+  getGameLines(gameId: string, market?: string, period?: string): Promise<GameLine[]>;
+  freezeClosingLines(sportId: string, startedBefore: Date, since: Date): Promise<number>;
+  getLadder(gameId: string, market: string, period?: string): Promise<LadderOutcome[]>;
+  
+  // Live odds
+  applyLiveBatch(batch: LiveBatch): Promise<number>;
+  getLiveBoard(sportId?: string, period?: string): Promise<(LiveOdds & { game: Game })[]>;
+  getLiveOddsHistory(gameId: string, market?: string, period?: string): Promise<LiveOdds[]>;
+  
+  // Players and props
+  getPlayers(filter?: PlayerFilter): Promise<Player[]>;
+  getPlayerById(id: string): Promise<Player | undefined>;
+  upsertPlayers(rows: InsertPlayer[]): Promise<Player[]>;
+  getUpcomingExternalIds(provider: string, sportId: string, before: Date): Promise<GameExternalId[]>;
+  applyPropsBatch(batch: PropsBatch): Promise<PropsBatchResult>;
+  getGameProps(gameId: string, filter?: PropFilter): Promise<(PlayerProp & { player: Player })[]>;
+  getPlayerProps(playerId: string): Promise<(PlayerProp & { game: Game })[]>;
+  getPropHistory(gameId: string, playerId: string, statType?: string, hours?: number): Promise<PlayerPropSnapshot[]>;
+  
+  // Futures
+  getFuturesMarkets(filter?: FuturesFilter): Promise<FuturesMarket[]>;
+  getFuturesMarketById(id: string): Promise<FuturesMarket | undefined>;
+  upsertFuturesMarkets(rows: InsertFuturesMarket[]): Promise<FuturesMarket[]>;
+  applyFuturesBatch(batch: FuturesBatch): Promise<FuturesBatchResult>;
+  getFuturesBoard(marketId: string): Promise<FuturesSelection[]>;
+  getFuturesHistory(marketId: string, selectionKey?: string, hours?: number): Promise<FuturesSnapshot[]>;
   
   // Line movements
-  getLineMovements(gameId: string, hours?: number): Promise<LineMovement[]>;
+  getLineMovements(gameId: string, hours?: number, period?: string): Promise<LineMovement[]>;
   createLineMovement(movement: Partial<LineMovement>): Promise<LineMovement>;
-  getBigMovers(hours?: number, minMovement?: number): Promise<(LineMovement & { game: Game })[]>;
+  getBigMovers(hours?: number, minMovement?: Partial<MovementThresholds>, period?: string): Promise<(LineMovement & { game: Game })[]>;
+  
+  // Provider usage
+  incrementProviderUsage(rows: ProviderUsageIncrement[]): Promise<void>;
+  getProviderUsage(sinceDay: string): Promise<ProviderUsage[]>;
+  
+  // Sync runs
+  createSyncRun(run: InsertSyncRun): Promise<SyncRun>;
+  getSyncRuns(filter?: SyncRunFilter): Promise<SyncRun[]>;
+  getSyncRunSummary(): Promise<SyncRunSummary[]>;
+  
+  // Sync schedules
+  getSyncSchedules(): Promise<SyncSchedule[]>;
+  seedSyncSchedules(schedules: (typeof syncSchedules.$inferInsert)[]): Promise<void>;
+  upsertSyncSchedule(schedule: typeof syncSchedules.$inferInsert): Promise<SyncSchedule>;
+  getNextGameTime(sportId: string, since: Date): Promise<Date | null>;
+  
+  // Quarantine
+  getQuarantinedItems(filter?: QuarantineFilter): Promise<QuarantinedItem[]>;
+  getQuarantineCounts(): Promise<{ provider: string; reason: string; open: number; total: number }[]>;
+  markQuarantineResolved(ids: string[], resolution: string): Promise<void>;
+  
+  // Leases
+  tryAcquireLease(name: string, holderId: string, holderHost: string, ttlMs: number): Promise<SyncLease | null>;
+  releaseLease(name: string, holderId: string): Promise<void>;
+  getLease(name: string): Promise<SyncLease | undefined>;
   
   // User favorites
   getUserFavorites(userId: string): Promise<(UserFavorite & { game: Game })[]>;
@@ -61,6 +327,84 @@ export interface IStorage {
   deleteUserAlert(id: string, userId: string): Promise<boolean>;
 }
 
+// Rows per multi-row INSERT; keeps us well under Postgres' 65535 bind parameters
+const BATCH_CHUNK_SIZE = 500;
+
+function chunk<T>(rows: T[], size: number = BATCH_CHUNK_SIZE): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) out.push(rows.slice(i, i + size));
+  return out;
+}
+
+/** Later rows win, so a batch never upserts the same key twice in one statement. */
+function dedupeBy<T>(rows: T[], key: (row: T) => string): T[] {
+  return Array.from(new Map(rows.map((row) => [key(row), row])).values());
+}
+
+/** The proposed row's value in ON CONFLICT DO UPDATE */
+function excluded(column: AnyColumn) {
+  return sql.raw(`excluded.${column.name}`);
+}
+
+function oddsKey(row: { gameId: string; bookmakerId: string; market: string; outcomeType: string; lineKey?: string; period?: string }): string {
+  return `${row.gameId}|${row.bookmakerId}|${row.market}|${row.outcomeType}|${row.lineKey ?? ""}|${row.period ?? FULL_GAME}`;
+}
+
+function propKey(row: { gameId: string; playerId: string; bookmakerId: string; statType: string; outcomeType: string }): string {
+  return `${row.gameId}|${row.playerId}|${row.bookmakerId}|${row.statType}|${row.outcomeType}`;
+}
+
+function futuresKey(row: { marketId: string; bookmakerId: string; selectionKey: string; outcomeType: string }): string {
+  return `${row.marketId}|${row.bookmakerId}|${row.selectionKey}|${row.outcomeType}`;
+}
+
+function toSnapshot(row: Odds): typeof oddsSnapshots.$inferInsert {
+  return {
+    gameId: row.gameId,
+    bookmakerId: row.bookmakerId,
+    market: row.market,
+    outcomeType: row.outcomeType,
+    lineKey: row.lineKey,
+    period: row.period,
+    price: row.price,
+    point: row.point,
+    observedAt: row.lastUpdate ?? new Date(),
+  };
+}
+
+/** Implied win probability of an American price, in percentage points (-110 -> 52.4). */
+export function impliedProbability(american: number): number {
+  return american > 0 ? 10000 / (american + 100) : (-american * 100) / (-american + 100);
+}
+
+// Spreads and totals move on the point; moneyline-style PRICE_MARKETS move on the price
+export function detectLineMovement(previous: Odds, current: Odds): typeof lineMovements.$inferInsert | null {
+  const priced = PRICE_MARKETS.includes(current.market);
+  const field = priced ? "price" : "point";
+  if (previous[field] == null || current[field] == null) return null;
+
+  const oldValue = Number(previous[field]);
+  const newValue = Number(current[field]);
+  if (!Number.isFinite(oldValue) || !Number.isFinite(newValue) || oldValue === newValue) return null;
+
+  // Raw American odds aren't linear (-105 -> +105 is a small move), so price moves are measured
+  // in implied probability, on roughly the scale of a point move in spreads and totals
+  const movement = priced ? impliedProbability(newValue) - impliedProbability(oldValue) : newValue - oldValue;
+
+  return {
+    gameId: current.gameId,
+    bookmakerId: current.bookmakerId,
+    market: current.market,
+    outcomeType: current.outcomeType,
+    period: current.period,
+    oldValue: String(oldValue),
+    newValue: String(newValue),
+    movement: movement.toFixed(1),
+    unit: priced ? "probability" : "points",
+    timestamp: current.lastUpdate ?? new Date(),
+  };
+}
+
 export class DatabaseStorage implements IStorage {
   // User operations
   async getUser(id: string): Promise<User | undefined> {
@@ -100,6 +444,59 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  // Teams operations
+  async getTeams(sportId?: string): Promise<Team[]> {
+    return await db
+      .select()
+      .from(teams)
+      .where(sportId ? eq(teams.sportId, sportId) : undefined)
+      .orderBy(teams.name);
+  }
+
+  async getTeamById(id: string): Promise<Team | undefined> {
+    const [team] = await db.select().from(teams).where(eq(teams.id, id));
+    return team;
+  }
+
+  async upsertTeam(team: InsertTeam): Promise<Team> {
+    const [result] = await db
+      .insert(teams)
+      .values(team)
+      .onConflictDoUpdate({
+        target: [teams.sportId, teams.name],
+        set: {
+          abbreviation: team.abbreviation,
+          location: team.location,
+          // Keep aliases added by admins; only ever grow the list
+          aliases: sql`array(select distinct unnest(${teams.aliases} || excluded.aliases))`,
+        },
+      })
+      .returning();
+    return result;
+  }
+
+  async addTeamAliases(id: string, aliases: string[]): Promise<Team | undefined> {
+    const team = await this.getTeamById(id);
+    if (!team) return undefined;
+
+    const merged = Array.from(new Set([...team.aliases, ...aliases.map(a => a.trim()).filter(Boolean)]));
+    const [result] = await db
+      .update(teams)
+      .set({ aliases: merged })
+      .where(eq(teams.id, id))
+      .returning();
+    return result;
+  }
+
+  async getGamesByTeam(teamId: string): Promise<Game[]> {
+    return await db
+      .select()
+      .from(games)
+      .where(or(eq(games.homeTeamId, teamId), eq(games.awayTeamId, teamId)))
+      .orderBy(desc(games.commenceTime))
+      .limit(50);
+  }
+
   // Games operations
   async getGamesBySport(sportId: string): Promise<Game[]> {
     // Show games from last 7 days and future (more lenient for demo)
@@ -111,7 +508,7 @@ export class DatabaseStorage implements IStorage {
       .from(games)
       .where(and(
         eq(games.sportId, sportId),
-        eq(games.completed, false),
+        notInArray(games.status, FINISHED_GAME_STATUSES),
         gte(games.commenceTime, lastWeek)
       ))
       .orderBy(games.commenceTime);
@@ -126,7 +523,7 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(games)
       .where(and(
-        eq(games.completed, false),
+        notInArray(games.status, FINISHED_GAME_STATUSES),
         gte(games.commenceTime, lastWeek)
       ))
       .orderBy(games.commenceTime)
@@ -153,9 +550,101 @@ export class DatabaseStorage implements IStorage {
     return game;
   }
 
+  async getGamesAwaitingResults(sportId: string, startedBefore: Date, since: Date): Promise<Game[]> {
+    return await db
+      .select()
+      .from(games)
+      .where(and(
+        eq(games.sportId, sportId),
+        notInArray(games.status, FINISHED_GAME_STATUSES),
+        lt(games.commenceTime, startedBefore),
+        gte(games.commenceTime, since)
+      ))
+      .orderBy(games.commenceTime);
+  }
+
+  /** Apply results in one transaction; returns how many games actually changed. */
+  async applyGameResults(updates: GameResultUpdate[]): Promise<number> {
+    let changed = 0;
+    await db.transaction(async (tx) => {
+      for (const update of dedupeBy(updates, (u) => u.gameId)) {
+        const written = await tx
+          .update(games)
+          .set({
+            status: update.status,
+            completed: update.status === "final",
+            homeScore: update.homeScore,
+            awayScore: update.awayScore,
+            resultUpdatedAt: new Date(),
+            lastUpdated: new Date(),
+          })
+          .where(and(
+            eq(games.id, update.gameId),
+            or(
+              sql`${games.status} is distinct from ${update.status}`,
+              sql`${games.homeScore} is distinct from ${update.homeScore}`,
+              sql`${games.awayScore} is distinct from ${update.awayScore}`
+            )
+          ))
+          .returning({ id: games.id });
+        changed += written.length;
+      }
+    });
+    return changed;
+  }
+
+  // Cross-provider game identity
+  async getGameByExternalId(provider: string, sportId: string, externalId: string): Promise<Game | undefined> {
+    const [row] = await db
+      .select({ game: games })
+      .from(gameExternalIds)
+      .innerJoin(games, eq(gameExternalIds.gameId, games.id))
+      .where(and(
+        eq(gameExternalIds.provider, provider),
+        eq(gameExternalIds.sportId, sportId),
+        eq(gameExternalIds.externalId, externalId)
+      ))
+      .limit(1);
+    return row?.game;
+  }
+
+  async getGamesByExternalIds(provider: string, sportId: string, externalIds: string[]): Promise<{ externalId: string; game: Game }[]> {
+    const rows: { externalId: string; game: Game }[] = [];
+    for (const ids of chunk(Array.from(new Set(externalIds)))) {
+      rows.push(...await db
+        .select({ externalId: gameExternalIds.externalId, game: games })
+        .from(gameExternalIds)
+        .innerJoin(games, eq(gameExternalIds.gameId, games.id))
+        .where(and(
+          eq(gameExternalIds.provider, provider),
+          eq(gameExternalIds.sportId, sportId),
+          inArray(gameExternalIds.externalId, ids)
+        )));
+    }
+    return rows;
+  }
+
+  async getGamesBetween(sportId: string, from: Date, to: Date): Promise<Game[]> {
+    return await db
+      .select()
+      .from(games)
+      .where(and(
+        eq(games.sportId, sportId),
+        gte(games.commenceTime, from),
+        lte(games.commenceTime, to)
+      ));
+  }
+
+  async getGameExternalIds(gameId: string): Promise<GameExternalId[]> {
+    return await db
+      .select()
+      .from(gameExternalIds)
+      .where(eq(gameExternalIds.gameId, gameId));
+  }
+
   // Bookmakers operations
   async getBookmakers(): Promise<Bookmaker[]> {
-    return await db.select().from(bookmakers);
+    return await db.select().from(bookmakers).orderBy(bookmakers.displayOrder, bookmakers.title);
   }
 
   async upsertBookmaker(bookmaker: Partial<Bookmaker>): Promise<Bookmaker> {
@@ -170,6 +659,43 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  // Inserts missing books only, so metadata edited through the API survives restarts
+  async seedBookmakers(books: Partial<Bookmaker>[]): Promise<void> {
+    if (books.length === 0) return;
+    await db
+      .insert(bookmakers)
+      .values(books as any)
+      .onConflictDoNothing({ target: bookmakers.id });
+  }
+
+  async updateBookmakerMetadata(
+    id: string,
+    data: Partial<Pick<Bookmaker, "title" | "region" | "isSharp" | "isExchange" | "displayOrder">>,
+  ): Promise<Bookmaker | undefined> {
+    const [result] = await db
+      .update(bookmakers)
+      .set(data)
+      .where(eq(bookmakers.id, id))
+      .returning();
+    return result;
+  }
+
+  async getBookmakerAliases(): Promise<BookmakerAlias[]> {
+    return await db.select().from(bookmakerAliases);
+  }
+
+  async upsertBookmakerAlias(alias: InsertBookmakerAlias): Promise<BookmakerAlias> {
+    const [result] = await db
+      .insert(bookmakerAliases)
+      .values(alias)
+      .onConflictDoUpdate({
+        target: [bookmakerAliases.provider, bookmakerAliases.alias],
+        set: { bookmakerId: alias.bookmakerId },
+      })
+      .returning();
+    return result;
+  }
+
   // Odds operations
   async getOddsByGame(gameId: string): Promise<Odds[]> {
     return await db
@@ -180,22 +706,56 @@ export class DatabaseStorage implements IStorage {
   }
 
   async upsertOdds(oddsData: Partial<Odds>): Promise<Odds> {
-    const [result] = await db
-      .insert(odds)
-      .values(oddsData as any)
-      .onConflictDoUpdate({
-        target: [odds.gameId, odds.bookmakerId, odds.market, odds.outcomeType],
-        set: {
-          price: oddsData.price,
-          point: oddsData.point,
-          lastUpdate: new Date(),
-        },
-      })
-      .returning();
-    return result;
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx
+        .select()
+        .from(odds)
+        .where(and(
+          eq(odds.gameId, oddsData.gameId!),
+          eq(odds.bookmakerId, oddsData.bookmakerId!),
+          eq(odds.market, oddsData.market!),
+          eq(odds.outcomeType, oddsData.outcomeType!),
+          eq(odds.lineKey, oddsData.lineKey ?? ""),
+          eq(odds.period, oddsData.period ?? FULL_GAME)
+        ))
+        .limit(1);
+
+      const [result] = await tx
+        .insert(odds)
+        .values(oddsData as any)
+        .onConflictDoUpdate({
+          target: [odds.gameId, odds.bookmakerId, odds.market, odds.outcomeType, odds.lineKey, odds.period],
+          set: {
+            price: oddsData.price,
+            point: oddsData.point,
+            lastUpdate: new Date(),
+          },
+        })
+        .returning();
+
+      // The odds row is only the current view; every distinct quote is kept in odds_snapshots
+      if (!previous || previous.price !== result.price || previous.point !== result.point) {
+        const movement = previous ? detectLineMovement(previous, result) : null;
+        if (movement) {
+          await tx.insert(lineMovements).values(movement);
+        }
+
+        const snapshot = toSnapshot(result);
+        await tx.insert(oddsSnapshots).values(snapshot);
+        // Same opener rule as applySyncBatch: the entry's first snapshot, never overwritten
+        await tx
+          .insert(openingLines)
+          .values({ ...snapshot, observedAt: snapshot.observedAt ?? new Date() })
+          .onConflictDoNothing({ target: [openingLines.gameId, openingLines.bookmakerId, openingLines.market, openingLines.outcomeType, openingLines.lineKey, openingLines.period] });
+      }
+
+      return result;
+    });
   }
 
-  async getBestOdds(gameId: string, market: string): Promise<Odds[]> {
+  // `period` narrows the odds and movement reads below to one segment; undefined reads them all,
+  // except the ladder, which can't mix segments and defaults to the full game
+  async getBestOdds(gameId: string, market: string, period?: string): Promise<Odds[]> {
     return await db
       .select({
         id: odds.id,
@@ -203,25 +763,671 @@ export class DatabaseStorage implements IStorage {
         bookmakerId: odds.bookmakerId,
         market: odds.market,
         outcomeType: odds.outcomeType,
+        lineKey: odds.lineKey,
+        period: odds.period,
         price: odds.price,
         point: odds.point,
         lastUpdate: odds.lastUpdate,
         bookmakerTitle: bookmakers.title,
+        bookmakerRegion: bookmakers.region,
+        isSharp: bookmakers.isSharp,
+        isExchange: bookmakers.isExchange,
       })
       .from(odds)
       .innerJoin(bookmakers, eq(odds.bookmakerId, bookmakers.id))
-      .where(and(eq(odds.gameId, gameId), eq(odds.market, market)))
-      .orderBy(desc(odds.price));
+      .where(and(eq(odds.gameId, gameId), eq(odds.market, market), period ? eq(odds.period, period) : undefined))
+      .orderBy(desc(odds.price), bookmakers.displayOrder);
+  }
+
+  async getOddsHistory(gameId: string, market?: string, hours: number = 24 * 7, period?: string): Promise<OddsSnapshot[]> {
+    const hoursAgo = new Date(Date.now() - hours * 60 * 60 * 1000);
+    return await db
+      .select()
+      .from(oddsSnapshots)
+      .where(and(
+        eq(oddsSnapshots.gameId, gameId),
+        market ? eq(oddsSnapshots.market, market) : undefined,
+        period ? eq(oddsSnapshots.period, period) : undefined,
+        gte(oddsSnapshots.observedAt, hoursAgo)
+      ))
+      .orderBy(oddsSnapshots.observedAt);
+  }
+
+  async applySyncBatch(batch: SyncBatch): Promise<SyncBatchResult> {
+    const gameRows = dedupeBy(batch.games, (g) => g.id);
+    const bookRows = dedupeBy(batch.bookmakers, (b) => b.id);
+    const oddsRows = dedupeBy(batch.odds, oddsKey);
+    const quarantineRows = dedupeBy(batch.quarantine, (q) => `${q.provider}|${q.externalId}|${q.reason}|${q.fingerprint ?? ""}`);
+    const result: SyncBatchResult = {
+      games: gameRows.length,
+      bookmakers: bookRows.length,
+      odds: oddsRows.length,
+      snapshots: 0,
+      movements: 0,
+      quarantined: quarantineRows.length,
+    };
+
+    await db.transaction(async (tx) => {
+      for (const rows of chunk(gameRows)) {
+        await tx
+          .insert(games)
+          .values(rows)
+          .onConflictDoUpdate({
+            target: games.id,
+            set: {
+              sportId: excluded(games.sportId),
+              homeTeam: excluded(games.homeTeam),
+              awayTeam: excluded(games.awayTeam),
+              homeTeamId: excluded(games.homeTeamId),
+              awayTeamId: excluded(games.awayTeamId),
+              commenceTime: excluded(games.commenceTime),
+              // status, completed and scores belong to the results sync once the game exists
+              lastUpdated: new Date(),
+            },
+          });
+      }
+
+      for (const rows of chunk(batch.externalIds)) {
+        await tx
+          .insert(gameExternalIds)
+          .values(rows)
+          .onConflictDoNothing({ target: [gameExternalIds.provider, gameExternalIds.sportId, gameExternalIds.externalId] });
+      }
+
+      for (const rows of chunk(bookRows)) {
+        await tx
+          .insert(bookmakers)
+          .values(rows)
+          .onConflictDoUpdate({
+            target: bookmakers.id,
+            set: { title: excluded(bookmakers.title), lastUpdate: excluded(bookmakers.lastUpdate) },
+          });
+      }
+
+      // Same change detection as upsertOdds, against one read of the batch's current rows
+      const gameIds = Array.from(new Set(oddsRows.map((o) => o.gameId)));
+      const previous = new Map<string, Odds>();
+      for (const ids of chunk(gameIds)) {
+        for (const row of await tx.select().from(odds).where(inArray(odds.gameId, ids))) {
+          previous.set(oddsKey(row), row);
+        }
+      }
+
+      const snapshots: (typeof oddsSnapshots.$inferInsert)[] = [];
+      const movements: (typeof lineMovements.$inferInsert)[] = [];
+      for (const rows of chunk(oddsRows)) {
+        const written = await tx
+          .insert(odds)
+          .values(rows)
+          .onConflictDoUpdate({
+            target: [odds.gameId, odds.bookmakerId, odds.market, odds.outcomeType, odds.lineKey, odds.period],
+            set: { price: excluded(odds.price), point: excluded(odds.point), lastUpdate: new Date() },
+          })
+          .returning();
+
+        for (const current of written) {
+          const prev = previous.get(oddsKey(current));
+          if (prev && prev.price === current.price && prev.point === current.point) continue;
+          const movement = prev ? detectLineMovement(prev, current) : null;
+          if (movement) movements.push(movement);
+          snapshots.push(toSnapshot(current));
+        }
+      }
+
+      for (const rows of chunk(snapshots)) {
+        await tx.insert(oddsSnapshots).values(rows);
+        // An entry's first snapshot is its opener; later ones hit the unique key and are ignored
+        await tx
+          .insert(openingLines)
+          .values(rows.map((row) => ({ ...row, observedAt: row.observedAt ?? new Date() })))
+          .onConflictDoNothing({ target: [openingLines.gameId, openingLines.bookmakerId, openingLines.market, openingLines.outcomeType, openingLines.lineKey, openingLines.period] });
+      }
+      for (const rows of chunk(movements)) {
+        await tx.insert(lineMovements).values(rows);
+      }
+      result.snapshots = snapshots.length;
+      result.movements = movements.length;
+
+      for (const rows of chunk(quarantineRows)) {
+        await tx
+          .insert(quarantinedItems)
+          .values(rows)
+          .onConflictDoUpdate({
+            target: [quarantinedItems.provider, quarantinedItems.externalId, quarantinedItems.reason, quarantinedItems.fingerprint],
+            set: {
+              sport: excluded(quarantinedItems.sport),
+              detail: excluded(quarantinedItems.detail),
+              payload: excluded(quarantinedItems.payload),
+              seenCount: sql`${quarantinedItems.seenCount} + 1`,
+              lastSeenAt: new Date(),
+              resolvedAt: null,
+              resolution: null,
+            },
+          });
+      }
+    });
+
+    return result;
+  }
+
+  // Opening / closing lines
+  async getGameLines(gameId: string, market?: string, period?: string): Promise<GameLine[]> {
+    const [opens, currents, closes] = await Promise.all([
+      db.select().from(openingLines).where(and(
+        eq(openingLines.gameId, gameId),
+        market ? eq(openingLines.market, market) : undefined,
+        period ? eq(openingLines.period, period) : undefined
+      )),
+      db.select().from(odds).where(and(
+        eq(odds.gameId, gameId),
+        market ? eq(odds.market, market) : undefined,
+        period ? eq(odds.period, period) : undefined
+      )),
+      db.select().from(closingLines).where(and(
+        eq(closingLines.gameId, gameId),
+        market ? eq(closingLines.market, market) : undefined,
+        period ? eq(closingLines.period, period) : undefined
+      )),
+    ]);
+
+    const lines = new Map<string, GameLine>();
+    const lineFor = (row: { gameId: string; bookmakerId: string; market: string; outcomeType: string; lineKey: string; period: string }) => {
+      const key = oddsKey(row);
+      let line = lines.get(key);
+      if (!line) {
+        line = {
+          market: row.market,
+          bookmakerId: row.bookmakerId,
+          outcomeType: row.outcomeType,
+          lineKey: row.lineKey,
+          period: row.period,
+          open: null,
+          current: null,
+          close: null,
+        };
+        lines.set(key, line);
+      }
+      return line;
+    };
+
+    for (const row of opens) lineFor(row).open = { price: row.price, point: row.point, observedAt: row.observedAt };
+    for (const row of currents) lineFor(row).current = { price: row.price, point: row.point, observedAt: row.lastUpdate };
+    for (const row of closes) lineFor(row).close = { price: row.price, point: row.point, observedAt: row.observedAt };
+
+    return Array.from(lines.values()).sort((a, b) =>
+      a.period.localeCompare(b.period) || a.market.localeCompare(b.market) || a.bookmakerId.localeCompare(b.bookmakerId) || a.outcomeType.localeCompare(b.outcomeType) ||
+      Number(a.lineKey || 0) - Number(b.lineKey || 0)
+    );
+  }
+
+  /**
+   * Every point quoted for a spreads/totals outcome, main and alternate lines together,
+   * with each book's price at that point and the best of them.
+   */
+  async getLadder(gameId: string, market: string, period: string = FULL_GAME): Promise<LadderOutcome[]> {
+    const alternate = Object.keys(ALTERNATE_MARKETS).find((key) => ALTERNATE_MARKETS[key] === market);
+    const rows = await db
+      .select()
+      .from(odds)
+      .where(and(
+        eq(odds.gameId, gameId),
+        inArray(odds.market, alternate ? [market, alternate] : [market]),
+        eq(odds.period, period)
+      ));
+
+    const outcomes = new Map<string, Map<number, LadderRung>>();
+    for (const row of rows) {
+      if (row.point == null || row.price == null) continue;
+      const point = Number(row.point);
+      const rungs = outcomes.get(row.outcomeType) ?? new Map<number, LadderRung>();
+      outcomes.set(row.outcomeType, rungs);
+
+      const rung = rungs.get(point) ?? { point: row.point, books: {}, best: null };
+      rungs.set(point, rung);
+      // A book quoting the same point as both its main and an alternate line: keep the better price
+      const price = Number(row.price);
+      if (rung.books[row.bookmakerId] == null || price > Number(rung.books[row.bookmakerId])) {
+        rung.books[row.bookmakerId] = row.price;
+      }
+      if (!rung.best || price > Number(rung.best.price)) rung.best = { bookmakerId: row.bookmakerId, price: row.price };
+    }
+
+    return Array.from(outcomes, ([outcomeType, rungs]) => ({
+      outcomeType,
+      rungs: Array.from(rungs.values()).sort((a, b) => Number(a.point) - Number(b.point)),
+    })).sort((a, b) => a.outcomeType.localeCompare(b.outcomeType));
+  }
+
+  /**
+   * Freeze closers for a sport's games that started in [since, startedBefore): for each entry,
+   * the last snapshot observed at or before commence_time. Games already frozen are skipped.
+   */
+  async freezeClosingLines(sportId: string, startedBefore: Date, since: Date): Promise<number> {
+    const rows = await db
+      .selectDistinctOn([oddsSnapshots.gameId, oddsSnapshots.bookmakerId, oddsSnapshots.market, oddsSnapshots.outcomeType, oddsSnapshots.lineKey, oddsSnapshots.period], {
+        gameId: oddsSnapshots.gameId,
+        bookmakerId: oddsSnapshots.bookmakerId,
+        market: oddsSnapshots.market,
+        outcomeType: oddsSnapshots.outcomeType,
+        lineKey: oddsSnapshots.lineKey,
+        period: oddsSnapshots.period,
+        price: oddsSnapshots.price,
+        point: oddsSnapshots.point,
+        observedAt: oddsSnapshots.observedAt,
+      })
+      .from(oddsSnapshots)
+      .innerJoin(games, eq(games.id, oddsSnapshots.gameId))
+      .where(and(
+        eq(games.sportId, sportId),
+        lt(games.commenceTime, startedBefore),
+        gte(games.commenceTime, since),
+        lte(oddsSnapshots.observedAt, games.commenceTime),
+        sql`not exists (select 1 from ${closingLines} where ${closingLines.gameId} = ${games.id})`
+      ))
+      .orderBy(oddsSnapshots.gameId, oddsSnapshots.bookmakerId, oddsSnapshots.market, oddsSnapshots.outcomeType, oddsSnapshots.lineKey, oddsSnapshots.period, desc(oddsSnapshots.observedAt));
+
+    let frozen = 0;
+    for (const batch of chunk(rows)) {
+      const written = await db
+        .insert(closingLines)
+        .values(batch)
+        .onConflictDoNothing({ target: [closingLines.gameId, closingLines.bookmakerId, closingLines.market, closingLines.outcomeType, closingLines.lineKey, closingLines.period] })
+        .returning({ id: closingLines.id });
+      frozen += written.length;
+    }
+    return frozen;
+  }
+
+  // Live odds
+  /** Append live quotes whose price or point moved since their last capture; returns how many were written. */
+  async applyLiveBatch(batch: LiveBatch): Promise<number> {
+    const bookRows = dedupeBy(batch.bookmakers, (b) => b.id);
+    const liveRows = dedupeBy(batch.odds, oddsKey);
+    const sameValue = (a: string | null | undefined, b: string | null | undefined) =>
+      a == null || b == null ? a == null && b == null : Number(a) === Number(b);
+
+    let written = 0;
+    await db.transaction(async (tx) => {
+      for (const rows of chunk(bookRows)) {
+        await tx
+          .insert(bookmakers)
+          .values(rows)
+          .onConflictDoUpdate({
+            target: bookmakers.id,
+            set: { title: excluded(bookmakers.title), lastUpdate: excluded(bookmakers.lastUpdate) },
+          });
+      }
+
+      const gameIds = Array.from(new Set(liveRows.map((o) => o.gameId)));
+      const latest = new Map<string, LiveOdds>();
+      for (const ids of chunk(gameIds)) {
+        const rows = await tx
+          .selectDistinctOn([liveOdds.gameId, liveOdds.bookmakerId, liveOdds.market, liveOdds.outcomeType, liveOdds.lineKey, liveOdds.period])
+          .from(liveOdds)
+          .where(inArray(liveOdds.gameId, ids))
+          .orderBy(liveOdds.gameId, liveOdds.bookmakerId, liveOdds.market, liveOdds.outcomeType, liveOdds.lineKey, liveOdds.period, desc(liveOdds.capturedAt));
+        for (const row of rows) latest.set(oddsKey(row), row);
+      }
+
+      const changed = liveRows.filter((row) => {
+        const prev = latest.get(oddsKey(row));
+        return !prev || !sameValue(prev.price, row.price) || !sameValue(prev.point, row.point);
+      });
+      for (const rows of chunk(changed)) {
+        await tx.insert(liveOdds).values(rows);
+      }
+      written = changed.length;
+    });
+    return written;
+  }
+
+  /** Latest live quote per entry for games currently in progress. */
+  async getLiveBoard(sportId?: string, period?: string): Promise<(LiveOdds & { game: Game })[]> {
+    const rows = await db
+      .selectDistinctOn([liveOdds.gameId, liveOdds.bookmakerId, liveOdds.market, liveOdds.outcomeType, liveOdds.lineKey, liveOdds.period], {
+        live: liveOdds,
+        game: games,
+      })
+      .from(liveOdds)
+      .innerJoin(games, eq(games.id, liveOdds.gameId))
+      .where(and(
+        eq(games.status, "in_progress"),
+        sportId ? eq(games.sportId, sportId) : undefined,
+        period ? eq(liveOdds.period, period) : undefined,
+      ))
+      .orderBy(liveOdds.gameId, liveOdds.bookmakerId, liveOdds.market, liveOdds.outcomeType, liveOdds.lineKey, liveOdds.period, desc(liveOdds.capturedAt));
+    return rows.map((row) => ({ ...row.live, game: row.game }));
+  }
+
+  async getLiveOddsHistory(gameId: string, market?: string, period?: string): Promise<LiveOdds[]> {
+    return await db
+      .select()
+      .from(liveOdds)
+      .where(and(
+        eq(liveOdds.gameId, gameId),
+        market ? eq(liveOdds.market, market) : undefined,
+        period ? eq(liveOdds.period, period) : undefined,
+      ))
+      .orderBy(liveOdds.capturedAt);
+  }
+
+  // Players and props
+  async getPlayers(filter: PlayerFilter = {}): Promise<Player[]> {
+    return await db
+      .select()
+      .from(players)
+      .where(and(
+        filter.sportId ? eq(players.sportId, filter.sportId) : undefined,
+        filter.teamId ? eq(players.teamId, filter.teamId) : undefined,
+        filter.search ? ilike(players.name, `%${filter.search}%`) : undefined
+      ))
+      .orderBy(players.name)
+      .limit(filter.limit ?? 100);
+  }
+
+  async getPlayerById(id: string): Promise<Player | undefined> {
+    const [player] = await db.select().from(players).where(eq(players.id, id));
+    return player;
+  }
+
+  /** Insert or refresh players by provider ID within their sport; a known team is never cleared by a feed that omits it. */
+  async upsertPlayers(rows: InsertPlayer[]): Promise<Player[]> {
+    const written: Player[] = [];
+    for (const batch of chunk(dedupeBy(rows, (p) => `${p.provider}|${p.sportId}|${p.externalId}`))) {
+      written.push(...await db
+        .insert(players)
+        .values(batch)
+        .onConflictDoUpdate({
+          target: [players.provider, players.sportId, players.externalId],
+          set: {
+            name: excluded(players.name),
+            teamId: sql`coalesce(excluded.team_id, ${players.teamId})`,
+            position: sql`coalesce(excluded.position, ${players.position})`,
+            updatedAt: new Date(),
+          },
+        })
+        .returning());
+    }
+    return written;
+  }
+
+  /** A provider's IDs for a sport's games that haven't started and start before `before`. */
+  async getUpcomingExternalIds(provider: string, sportId: string, before: Date): Promise<GameExternalId[]> {
+    return await db
+      .select({
+        id: gameExternalIds.id,
+        gameId: gameExternalIds.gameId,
+        provider: gameExternalIds.provider,
+        sportId: gameExternalIds.sportId,
+        externalId: gameExternalIds.externalId,
+        createdAt: gameExternalIds.createdAt,
+      })
+      .from(gameExternalIds)
+      .innerJoin(games, eq(games.id, gameExternalIds.gameId))
+      .where(and(
+        eq(gameExternalIds.provider, provider),
+        eq(gameExternalIds.sportId, sportId),
+        eq(games.status, "scheduled"),
+        gt(games.commenceTime, new Date()),
+        lt(games.commenceTime, before)
+      ))
+      .orderBy(games.commenceTime);
+  }
+
+  /** Upsert prop quotes and snapshot the ones whose price or line changed, in one transaction. */
+  async applyPropsBatch(batch: PropsBatch): Promise<PropsBatchResult> {
+    const bookRows = dedupeBy(batch.bookmakers, (b) => b.id);
+    const propRows = dedupeBy(batch.props, propKey);
+    const result: PropsBatchResult = { props: propRows.length, snapshots: 0 };
+
+    await db.transaction(async (tx) => {
+      for (const rows of chunk(bookRows)) {
+        await tx
+          .insert(bookmakers)
+          .values(rows)
+          .onConflictDoUpdate({
+            target: bookmakers.id,
+            set: { title: excluded(bookmakers.title), lastUpdate: excluded(bookmakers.lastUpdate) },
+          });
+      }
+
+      const gameIds = Array.from(new Set(propRows.map((p) => p.gameId)));
+      const previous = new Map<string, PlayerProp>();
+      for (const ids of chunk(gameIds)) {
+        for (const row of await tx.select().from(playerProps).where(inArray(playerProps.gameId, ids))) {
+          previous.set(propKey(row), row);
+        }
+      }
+
+      const snapshots: (typeof playerPropSnapshots.$inferInsert)[] = [];
+      for (const rows of chunk(propRows)) {
+        const written = await tx
+          .insert(playerProps)
+          .values(rows)
+          .onConflictDoUpdate({
+            target: [playerProps.gameId, playerProps.playerId, playerProps.bookmakerId, playerProps.statType, playerProps.outcomeType],
+            set: { price: excluded(playerProps.price), point: excluded(playerProps.point), lastUpdate: new Date() },
+          })
+          .returning();
+
+        for (const current of written) {
+          const prev = previous.get(propKey(current));
+          if (prev && prev.price === current.price && prev.point === current.point) continue;
+          const { id: _id, lastUpdate, ...entry } = current;
+          snapshots.push({ ...entry, observedAt: lastUpdate ?? new Date() });
+        }
+      }
+
+      for (const rows of chunk(snapshots)) {
+        await tx.insert(playerPropSnapshots).values(rows);
+      }
+      result.snapshots = snapshots.length;
+    });
+
+    return result;
+  }
+
+  async getGameProps(gameId: string, filter: PropFilter = {}): Promise<(PlayerProp & { player: Player })[]> {
+    const rows = await db
+      .select({ prop: playerProps, player: players })
+      .from(playerProps)
+      .innerJoin(players, eq(players.id, playerProps.playerId))
+      .where(and(
+        eq(playerProps.gameId, gameId),
+        filter.playerId ? eq(playerProps.playerId, filter.playerId) : undefined,
+        filter.statType ? eq(playerProps.statType, filter.statType) : undefined
+      ))
+      .orderBy(players.name, playerProps.statType, playerProps.bookmakerId, playerProps.outcomeType);
+    return rows.map((row) => ({ ...row.prop, player: row.player }));
+  }
+
+  /** A player's current props across games that haven't finished, soonest game first. */
+  async getPlayerProps(playerId: string): Promise<(PlayerProp & { game: Game })[]> {
+    const rows = await db
+      .select({ prop: playerProps, game: games })
+      .from(playerProps)
+      .innerJoin(games, eq(games.id, playerProps.gameId))
+      .where(and(eq(playerProps.playerId, playerId), notInArray(games.status, FINISHED_GAME_STATUSES)))
+      .orderBy(games.commenceTime, playerProps.statType, playerProps.bookmakerId, playerProps.outcomeType);
+    return rows.map((row) => ({ ...row.prop, game: row.game }));
+  }
+
+  async getPropHistory(gameId: string, playerId: string, statType?: string, hours: number = 24 * 7): Promise<PlayerPropSnapshot[]> {
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+    return await db
+      .select()
+      .from(playerPropSnapshots)
+      .where(and(
+        eq(playerPropSnapshots.gameId, gameId),
+        eq(playerPropSnapshots.playerId, playerId),
+        statType ? eq(playerPropSnapshots.statType, statType) : undefined,
+        gte(playerPropSnapshots.observedAt, since)
+      ))
+      .orderBy(playerPropSnapshots.observedAt);
+  }
+
+  // Futures
+  async getFuturesMarkets(filter: FuturesFilter = {}): Promise<FuturesMarket[]> {
+    return await db
+      .select()
+      .from(futuresMarkets)
+      .where(and(
+        filter.sportId ? eq(futuresMarkets.sportId, filter.sportId) : undefined,
+        filter.season ? eq(futuresMarkets.season, filter.season) : undefined,
+        filter.marketType ? eq(futuresMarkets.marketType, filter.marketType) : undefined,
+        filter.search ? ilike(futuresMarkets.name, `%${filter.search}%`) : undefined
+      ))
+      .orderBy(futuresMarkets.sportId, desc(futuresMarkets.season), futuresMarkets.name);
+  }
+
+  async getFuturesMarketById(id: string): Promise<FuturesMarket | undefined> {
+    const [market] = await db.select().from(futuresMarkets).where(eq(futuresMarkets.id, id));
+    return market;
+  }
+
+  /** Insert or refresh markets by provider ID within their sport, and flag those sports as having outrights. */
+  async upsertFuturesMarkets(rows: InsertFuturesMarket[]): Promise<FuturesMarket[]> {
+    const written: FuturesMarket[] = [];
+    await db.transaction(async (tx) => {
+      for (const batch of chunk(dedupeBy(rows, (m) => `${m.provider}|${m.sportId}|${m.externalId}`))) {
+        written.push(...await tx
+          .insert(futuresMarkets)
+          .values(batch)
+          .onConflictDoUpdate({
+            target: [futuresMarkets.provider, futuresMarkets.sportId, futuresMarkets.externalId],
+            set: {
+              name: excluded(futuresMarkets.name),
+              marketType: excluded(futuresMarkets.marketType),
+              season: excluded(futuresMarkets.season),
+              settlesAt: excluded(futuresMarkets.settlesAt),
+              lastUpdate: new Date(),
+            },
+          })
+          .returning());
+      }
+
+      const sportIds = Array.from(new Set(written.map((m) => m.sportId)));
+      if (sportIds.length > 0) {
+        await tx.update(sports).set({ hasOutrights: true }).where(inArray(sports.id, sportIds));
+      }
+    });
+    return written;
+  }
+
+  /** Upsert futures quotes and snapshot the ones whose price or line changed, in one transaction. */
+  async applyFuturesBatch(batch: FuturesBatch): Promise<FuturesBatchResult> {
+    const bookRows = dedupeBy(batch.bookmakers, (b) => b.id);
+    const oddsRows = dedupeBy(batch.odds, futuresKey);
+    const result: FuturesBatchResult = { odds: oddsRows.length, snapshots: 0 };
+
+    await db.transaction(async (tx) => {
+      for (const rows of chunk(bookRows)) {
+        await tx
+          .insert(bookmakers)
+          .values(rows)
+          .onConflictDoUpdate({
+            target: bookmakers.id,
+            set: { title: excluded(bookmakers.title), lastUpdate: excluded(bookmakers.lastUpdate) },
+          });
+      }
+
+      const marketIds = Array.from(new Set(oddsRows.map((o) => o.marketId)));
+      const previous = new Map<string, FuturesOdds>();
+      for (const ids of chunk(marketIds)) {
+        for (const row of await tx.select().from(futuresOdds).where(inArray(futuresOdds.marketId, ids))) {
+          previous.set(futuresKey(row), row);
+        }
+      }
+
+      const snapshots: (typeof futuresSnapshots.$inferInsert)[] = [];
+      for (const rows of chunk(oddsRows)) {
+        const written = await tx
+          .insert(futuresOdds)
+          .values(rows)
+          .onConflictDoUpdate({
+            target: [futuresOdds.marketId, futuresOdds.bookmakerId, futuresOdds.selectionKey, futuresOdds.outcomeType],
+            set: {
+              selection: excluded(futuresOdds.selection),
+              teamId: excluded(futuresOdds.teamId),
+              price: excluded(futuresOdds.price),
+              point: excluded(futuresOdds.point),
+              lastUpdate: new Date(),
+            },
+          })
+          .returning();
+
+        for (const current of written) {
+          const prev = previous.get(futuresKey(current));
+          if (prev && prev.price === current.price && prev.point === current.point) continue;
+          snapshots.push({
+            marketId: current.marketId,
+            bookmakerId: current.bookmakerId,
+            selectionKey: current.selectionKey,
+            outcomeType: current.outcomeType,
+            price: current.price,
+            point: current.point,
+            observedAt: current.lastUpdate ?? new Date(),
+          });
+        }
+      }
+
+      for (const rows of chunk(snapshots)) {
+        await tx.insert(futuresSnapshots).values(rows);
+      }
+      result.snapshots = snapshots.length;
+    });
+
+    return result;
+  }
+
+  /** Every selection of a market with each book's quote and the best price, favorites first. */
+  async getFuturesBoard(marketId: string): Promise<FuturesSelection[]> {
+    const rows = await db.select().from(futuresOdds).where(eq(futuresOdds.marketId, marketId));
+
+    const board = new Map<string, FuturesSelection>();
+    for (const row of rows) {
+      const key = `${row.selectionKey}|${row.outcomeType}`;
+      const entry = board.get(key) ?? { selection: row.selection, selectionKey: row.selectionKey, outcomeType: row.outcomeType, books: {}, best: null };
+      board.set(key, entry);
+
+      entry.books[row.bookmakerId] = { price: row.price, point: row.point };
+      if (row.price != null && (!entry.best || Number(row.price) > Number(entry.best.price))) {
+        entry.best = { bookmakerId: row.bookmakerId, price: row.price, point: row.point };
+      }
+    }
+
+    // Shortest best price first: the market's favorites lead, longshots trail; ties go by name
+    const bestPrice = (s: FuturesSelection) => (s.best ? Number(s.best.price) : Infinity);
+    return Array.from(board.values()).sort((a, b) => {
+      const pa = bestPrice(a);
+      const pb = bestPrice(b);
+      if (pa !== pb) return pa < pb ? -1 : 1;
+      return a.selection.localeCompare(b.selection) || a.outcomeType.localeCompare(b.outcomeType);
+    });
+  }
+
+  async getFuturesHistory(marketId: string, selectionKey?: string, hours: number = 24 * 30): Promise<FuturesSnapshot[]> {
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+    return await db
+      .select()
+      .from(futuresSnapshots)
+      .where(and(
+        eq(futuresSnapshots.marketId, marketId),
+        selectionKey ? eq(futuresSnapshots.selectionKey, selectionKey) : undefined,
+        gte(futuresSnapshots.observedAt, since)
+      ))
+      .orderBy(futuresSnapshots.observedAt);
   }
 
   // Line movements
-  async getLineMovements(gameId: string, hours: number = 24): Promise<LineMovement[]> {
+  async getLineMovements(gameId: string, hours: number = 24, period?: string): Promise<LineMovement[]> {
     const hoursAgo = new Date(Date.now() - hours * 60 * 60 * 1000);
     return await db
       .select()
       .from(lineMovements)
       .where(and(
         eq(lineMovements.gameId, gameId),
+        period ? eq(lineMovements.period, period) : undefined,
         gte(lineMovements.timestamp, hoursAgo)
       ))
       .orderBy(desc(lineMovements.timestamp));
@@ -235,16 +1441,21 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async getBigMovers(hours: number = 2, minMovement: number = 1): Promise<(LineMovement & { game: Game })[]> {
+  async getBigMovers(hours: number = 2, minMovement: Partial<MovementThresholds> = {}, period?: string): Promise<(LineMovement & { game: Game })[]> {
     const hoursAgo = new Date(Date.now() - hours * 60 * 60 * 1000);
+    const min = { ...BIG_MOVE_THRESHOLDS, ...minMovement };
     return await db
       .select({
         id: lineMovements.id,
         gameId: lineMovements.gameId,
+        bookmakerId: lineMovements.bookmakerId,
         market: lineMovements.market,
+        outcomeType: lineMovements.outcomeType,
+        period: lineMovements.period,
         oldValue: lineMovements.oldValue,
         newValue: lineMovements.newValue,
         movement: lineMovements.movement,
+        unit: lineMovements.unit,
         timestamp: lineMovements.timestamp,
         game: games,
       })
@@ -252,12 +1463,182 @@ export class DatabaseStorage implements IStorage {
       .innerJoin(games, eq(lineMovements.gameId, games.id))
       .where(and(
         gte(lineMovements.timestamp, hoursAgo),
-        sql`abs(${lineMovements.movement}) >= ${minMovement}`
+        period ? eq(lineMovements.period, period) : undefined,
+        sql`abs(${lineMovements.movement}) >= case when ${lineMovements.unit} = 'probability' then ${min.probability} else ${min.points} end`
       ))
       .orderBy(desc(lineMovements.timestamp))
       .limit(10);
   }
 
+  // Provider usage
+  async incrementProviderUsage(rows: ProviderUsageIncrement[]): Promise<void> {
+    if (rows.length === 0) return;
+    await db
+      .insert(providerUsage)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: [providerUsage.provider, providerUsage.endpoint, providerUsage.sport, providerUsage.day],
+        set: {
+          requests: sql`${providerUsage.requests} + excluded.requests`,
+          errors: sql`${providerUsage.errors} + excluded.errors`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  async getProviderUsage(sinceDay: string): Promise<ProviderUsage[]> {
+    return await db
+      .select()
+      .from(providerUsage)
+      .where(gte(providerUsage.day, sinceDay))
+      .orderBy(desc(providerUsage.day), desc(providerUsage.requests));
+  }
+
+  // Sync runs
+  async createSyncRun(run: InsertSyncRun): Promise<SyncRun> {
+    const [result] = await db.insert(syncRuns).values(run).returning();
+    return result;
+  }
+
+  async getSyncRuns(filter: SyncRunFilter = {}): Promise<SyncRun[]> {
+    return await db
+      .select()
+      .from(syncRuns)
+      .where(and(
+        filter.sport ? eq(syncRuns.sport, filter.sport) : undefined,
+        filter.source ? eq(syncRuns.source, filter.source) : undefined,
+        filter.trigger ? eq(syncRuns.trigger, filter.trigger) : undefined,
+        filter.status ? eq(syncRuns.status, filter.status) : undefined,
+        filter.since ? gte(syncRuns.startedAt, filter.since) : undefined
+      ))
+      .orderBy(desc(syncRuns.startedAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  async getSyncRunSummary(): Promise<SyncRunSummary[]> {
+    const [latest, latestSuccess] = await Promise.all([
+      db.selectDistinctOn([syncRuns.sport]).from(syncRuns).orderBy(syncRuns.sport, desc(syncRuns.startedAt)),
+      db
+        .selectDistinctOn([syncRuns.sport])
+        .from(syncRuns)
+        .where(eq(syncRuns.status, "success"))
+        .orderBy(syncRuns.sport, desc(syncRuns.startedAt)),
+    ]);
+    const successBySport = new Map(latestSuccess.map((run) => [run.sport, run]));
+    return latest.map((run) => ({ sport: run.sport, lastRun: run, lastSuccess: successBySport.get(run.sport) ?? null }));
+  }
+
+  // Sync schedules
+  async getSyncSchedules(): Promise<SyncSchedule[]> {
+    return await db.select().from(syncSchedules).orderBy(syncSchedules.sport);
+  }
+
+  async seedSyncSchedules(schedules: (typeof syncSchedules.$inferInsert)[]): Promise<void> {
+    if (schedules.length === 0) return;
+    await db.insert(syncSchedules).values(schedules).onConflictDoNothing({ target: syncSchedules.sport });
+  }
+
+  async upsertSyncSchedule(schedule: typeof syncSchedules.$inferInsert): Promise<SyncSchedule> {
+    const [result] = await db
+      .insert(syncSchedules)
+      .values(schedule)
+      .onConflictDoUpdate({
+        target: syncSchedules.sport,
+        set: { ...schedule, updatedAt: new Date() },
+      })
+      .returning();
+    return result;
+  }
+
+  /** Start of the sport's next game at or after `since` that isn't under way or over. */
+  async getNextGameTime(sportId: string, since: Date): Promise<Date | null> {
+    const [row] = await db
+      .select({ commenceTime: games.commenceTime })
+      .from(games)
+      .where(and(
+        eq(games.sportId, sportId),
+        notInArray(games.status, [...FINISHED_GAME_STATUSES, "in_progress"]),
+        gte(games.commenceTime, since)
+      ))
+      .orderBy(games.commenceTime)
+      .limit(1);
+    return row?.commenceTime ?? null;
+  }
+
+  // Quarantine
+  async getQuarantinedItems(filter: QuarantineFilter = {}): Promise<QuarantinedItem[]> {
+    return await db
+      .select()
+      .from(quarantinedItems)
+      .where(and(
+        filter.provider ? eq(quarantinedItems.provider, filter.provider) : undefined,
+        filter.sport ? eq(quarantinedItems.sport, filter.sport) : undefined,
+        filter.kind ? eq(quarantinedItems.kind, filter.kind) : undefined,
+        filter.reason ? eq(quarantinedItems.reason, filter.reason) : undefined,
+        filter.resolved === undefined
+          ? undefined
+          : filter.resolved
+            ? sql`${quarantinedItems.resolvedAt} is not null`
+            : sql`${quarantinedItems.resolvedAt} is null`,
+        filter.ids?.length ? inArray(quarantinedItems.id, filter.ids) : undefined
+      ))
+      .orderBy(desc(quarantinedItems.lastSeenAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  async getQuarantineCounts(): Promise<{ provider: string; reason: string; open: number; total: number }[]> {
+    return await db
+      .select({
+        provider: quarantinedItems.provider,
+        reason: quarantinedItems.reason,
+        open: sql<number>`count(*) filter (where ${quarantinedItems.resolvedAt} is null)::int`,
+        total: sql<number>`count(*)::int`,
+      })
+      .from(quarantinedItems)
+      .groupBy(quarantinedItems.provider, quarantinedItems.reason)
+      .orderBy(quarantinedItems.provider, quarantinedItems.reason);
+  }
+
+  async markQuarantineResolved(ids: string[], resolution: string): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(quarantinedItems).set({ resolvedAt: new Date(), resolution }).where(inArray(quarantinedItems.id, ids));
+  }
+
+  // Leases
+  /**
+   * Take or renew a lease atomically. Succeeds when the lease is free, expired, or already
+   * ours; returns null while another holder's lease is live. Times come from the DB clock.
+   */
+  async tryAcquireLease(name: string, holderId: string, holderHost: string, ttlMs: number): Promise<SyncLease | null> {
+    const expiresAt = sql`now() + ${ttlMs} * interval '1 millisecond'`;
+    const [result] = await db
+      .insert(syncLeases)
+      .values({ name, holderId, holderHost, acquiredAt: sql`now()`, renewedAt: sql`now()`, expiresAt })
+      .onConflictDoUpdate({
+        target: syncLeases.name,
+        set: {
+          holderId,
+          holderHost,
+          // A renewal keeps the original acquisition time
+          acquiredAt: sql`case when ${syncLeases.holderId} = ${holderId} then ${syncLeases.acquiredAt} else now() end`,
+          renewedAt: sql`now()`,
+          expiresAt,
+        },
+        setWhere: or(eq(syncLeases.holderId, holderId), lte(syncLeases.expiresAt, sql`now()`)),
+      })
+      .returning();
+    return result ?? null;
+  }
+
+  async releaseLease(name: string, holderId: string): Promise<void> {
+    await db.delete(syncLeases).where(and(eq(syncLeases.name, name), eq(syncLeases.holderId, holderId)));
+  }
+
+  async getLease(name: string): Promise<SyncLease | undefined> {
+    const [lease] = await db.select().from(syncLeases).where(eq(syncLeases.name, name));
+    return lease;
+  }
+
   // User favorites
   async getUserFavorites(userId: string): Promise<(UserFavorite & { game: Game })[]> {
     return await db
@@ -0,0 +1,53 @@
+import { createRequire } from "node:module";
+import { PGlite } from "@electric-sql/pglite";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+import * as schema from "../shared/schema.js";
+
+// Tests that need real SQL (batches, upserts, leases) run against an in-process Postgres:
+// PGlite behind a local socket, so server/db.ts connects to it over node-postgres unchanged.
+// PGlite is a single session, so keep a test's queries sequential; concurrent transactions
+// from two pool connections would share it.
+
+export type TestDatabase = {
+  /** Empty every table, for a fresh start between tests. */
+  reset(): Promise<void>;
+  /** Close the app's pool and shut the database down. */
+  stop(): Promise<void>;
+};
+
+/** The schema as DDL, generated from shared/schema.ts the way `drizzle-kit push` would. */
+async function schemaStatements(): Promise<string[]> {
+  // drizzle-kit's ESM build can't load its bundled CommonJS deps, so go through require
+  const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api");
+  return generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+}
+
+/**
+ * Start a database with the app's schema and point DATABASE_URL at it. Call it before
+ * anything imports server/db.ts, which reads DATABASE_URL once when it loads.
+ */
+export async function startTestDatabase(): Promise<TestDatabase> {
+  const pglite = await PGlite.create();
+  for (const statement of await schemaStatements()) {
+    await pglite.exec(statement);
+  }
+
+  const server = new PGLiteSocketServer({ db: pglite, host: "127.0.0.1", port: 0, maxConnections: 10 });
+  await server.start();
+  process.env.DATABASE_URL = `postgres://postgres@${server.getServerConn()}/postgres?sslmode=disable`;
+
+  const { rows } = await pglite.query<{ tablename: string }>(`select tablename from pg_tables where schemaname = 'public'`);
+  const tables = rows.map((r) => `"${r.tablename}"`).join(", ");
+
+  return {
+    async reset() {
+      await pglite.exec(`truncate ${tables} cascade`);
+    },
+    async stop() {
+      const { pool } = await import("./db.js");
+      await pool.end();
+      await server.stop();
+      await pglite.close();
+    },
+  };
+}
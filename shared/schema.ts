@@ -10,6 +10,7 @@ import {
   integer,
   boolean,
   unique,
+  date,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -46,51 +47,376 @@ export const sports = pgTable("sports", {
   hasOutrights: boolean("has_outrights").default(false),
 });
 
+// Teams; feeds' free-text names resolve to these through name/abbreviation/aliases
+export const teams = pgTable("teams", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sportId: varchar("sport_id").notNull().references(() => sports.id),
+  name: varchar("name").notNull(), // canonical, e.g. 'Los Angeles Rams'
+  abbreviation: varchar("abbreviation"), // e.g. 'LAR'
+  location: varchar("location"), // e.g. 'Los Angeles'
+  aliases: text("aliases").array().notNull().default(sql`'{}'::text[]`), // e.g. ['LA Rams', 'Rams']
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("unique_team_name").on(table.sportId, table.name),
+]);
+
+// Game lifecycle, normalized from every feed's own status vocabulary
+export const GAME_STATUSES = ["scheduled", "in_progress", "final", "postponed", "canceled"] as const;
+export type GameStatus = (typeof GAME_STATUSES)[number];
+// No more odds or results will change for these
+export const FINISHED_GAME_STATUSES: GameStatus[] = ["final", "canceled"];
+
+export function isFinishedStatus(status: string | null | undefined): boolean {
+  return FINISHED_GAME_STATUSES.includes(status as GameStatus);
+}
+
 // Games/Events
 export const games = pgTable("games", {
   id: varchar("id").primaryKey(), // The Odds API event ID
   sportId: varchar("sport_id").notNull().references(() => sports.id),
   homeTeam: varchar("home_team").notNull(),
   awayTeam: varchar("away_team").notNull(),
+  homeTeamId: varchar("home_team_id").references(() => teams.id),
+  awayTeamId: varchar("away_team_id").references(() => teams.id),
   commenceTime: timestamp("commence_time").notNull(),
-  completed: boolean("completed").default(false),
+  completed: boolean("completed").default(false), // status === 'final'
+  status: varchar("status").notNull().default("scheduled"), // GameStatus
   homeScore: integer("home_score"),
   awayScore: integer("away_score"),
+  resultUpdatedAt: timestamp("result_updated_at"), // last status/score change from a results sync
   lastUpdated: timestamp("last_updated").defaultNow(),
 });
 
+// Provider event IDs -> canonical game; one game row per real-world event across feeds
+export const gameExternalIds = pgTable("game_external_ids", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").notNull().references(() => games.id, { onDelete: 'cascade' }),
+  provider: varchar("provider").notNull(), // 'SportsDataIO', 'ESPN', 'RapidAPI'
+  sportId: varchar("sport_id").notNull().references(() => sports.id),
+  externalId: varchar("external_id").notNull(), // only unique within a sport for some feeds (SportsDataIO)
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("unique_game_external_id").on(table.provider, table.sportId, table.externalId),
+  index("IDX_game_external_ids_game").on(table.gameId),
+]);
+
 // Bookmakers
 export const bookmakers = pgTable("bookmakers", {
-  id: varchar("id").primaryKey(), // The Odds API bookmaker key
+  id: varchar("id").primaryKey(), // Canonical bookmaker key, e.g. 'draftkings'
   title: varchar("title").notNull(),
+  region: varchar("region"), // 'us', 'uk', 'eu'
+  isSharp: boolean("is_sharp").default(false),
+  isExchange: boolean("is_exchange").default(false),
+  displayOrder: integer("display_order").default(100),
   lastUpdate: timestamp("last_update"),
 });
 
+// Per-provider bookmaker names/keys -> canonical bookmaker
+export const bookmakerAliases = pgTable("bookmaker_aliases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: varchar("provider").notNull(), // 'SportsDataIO', 'ESPN', 'RapidAPI'
+  alias: varchar("alias").notNull(), // normalized provider key, e.g. 'espnbet'
+  bookmakerId: varchar("bookmaker_id").notNull().references(() => bookmakers.id, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("unique_bookmaker_alias").on(table.provider, table.alias),
+]);
+
+// Odds API style keys for alternate lines; each maps onto the main market it prices
+export const ALTERNATE_MARKETS: Record<string, string> = {
+  alternate_spreads: "spreads",
+  alternate_totals: "totals",
+};
+
+// Markets quoted on price alone; soccer's h2h is three-way, double_chance covers two of its legs
+export const PRICE_MARKETS = ["h2h", "double_chance", "draw_no_bet"];
+
+// Game segment a market prices; everything not tied to a segment is 'full_game'
+export const FULL_GAME = "full_game";
+export const MARKET_PERIODS = [FULL_GAME, "1h", "2h", "1q", "2q", "3q", "4q", "1p", "2p", "3p", "f5"];
+
 // Odds data
 export const odds = pgTable("odds", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   gameId: varchar("game_id").notNull().references(() => games.id, { onDelete: 'cascade' }),
   bookmakerId: varchar("bookmaker_id").notNull().references(() => bookmakers.id),
-  market: varchar("market").notNull(), // 'h2h', 'spreads', 'totals'
-  outcomeType: varchar("outcome_type").notNull(), // 'home', 'away', 'over', 'under'
+  market: varchar("market").notNull(), // 'h2h', 'spreads', 'totals', 'alternate_spreads', 'alternate_totals', 'double_chance', 'draw_no_bet'
+  outcomeType: varchar("outcome_type").notNull(), // 'home', 'away', 'draw', 'over', 'under'; double chance: 'home_draw', 'draw_away', 'home_away'
+  // '' for a market's main line; alternate markets hold one row per point, keyed by that point
+  lineKey: varchar("line_key").notNull().default(''),
+  period: varchar("period").notNull().default(FULL_GAME), // one of MARKET_PERIODS, e.g. '1h', 'f5'
   price: decimal("price", { precision: 10, scale: 2 }),
   point: decimal("point", { precision: 5, scale: 1 }), // For spreads and totals
   lastUpdate: timestamp("last_update").defaultNow(),
 }, (table) => [
-  unique("unique_odds_entry").on(table.gameId, table.bookmakerId, table.market, table.outcomeType),
+  unique("unique_odds_entry").on(table.gameId, table.bookmakerId, table.market, table.outcomeType, table.lineKey, table.period),
+]);
+
+// Append-only quote history; one row per distinct price/point observed for an odds entry
+export const oddsSnapshots = pgTable("odds_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").notNull().references(() => games.id, { onDelete: 'cascade' }),
+  bookmakerId: varchar("bookmaker_id").notNull().references(() => bookmakers.id),
+  market: varchar("market").notNull(),
+  outcomeType: varchar("outcome_type").notNull(),
+  lineKey: varchar("line_key").notNull().default(''),
+  period: varchar("period").notNull().default(FULL_GAME),
+  price: decimal("price", { precision: 10, scale: 2 }),
+  point: decimal("point", { precision: 5, scale: 1 }),
+  observedAt: timestamp("observed_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_odds_snapshots_entry").on(table.gameId, table.bookmakerId, table.market, table.outcomeType, table.lineKey, table.period, table.observedAt),
+]);
+
+// First quote observed per odds entry; never overwritten
+export const openingLines = pgTable("opening_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").notNull().references(() => games.id, { onDelete: 'cascade' }),
+  bookmakerId: varchar("bookmaker_id").notNull().references(() => bookmakers.id),
+  market: varchar("market").notNull(),
+  outcomeType: varchar("outcome_type").notNull(),
+  lineKey: varchar("line_key").notNull().default(''),
+  period: varchar("period").notNull().default(FULL_GAME),
+  price: decimal("price", { precision: 10, scale: 2 }),
+  point: decimal("point", { precision: 5, scale: 1 }),
+  observedAt: timestamp("observed_at").notNull(),
+}, (table) => [
+  unique("unique_opening_line").on(table.gameId, table.bookmakerId, table.market, table.outcomeType, table.lineKey, table.period),
+]);
+
+// Quote in force at commence_time per odds entry, frozen once the game has started
+export const closingLines = pgTable("closing_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").notNull().references(() => games.id, { onDelete: 'cascade' }),
+  bookmakerId: varchar("bookmaker_id").notNull().references(() => bookmakers.id),
+  market: varchar("market").notNull(),
+  outcomeType: varchar("outcome_type").notNull(),
+  lineKey: varchar("line_key").notNull().default(''),
+  period: varchar("period").notNull().default(FULL_GAME),
+  price: decimal("price", { precision: 10, scale: 2 }),
+  point: decimal("point", { precision: 5, scale: 1 }),
+  observedAt: timestamp("observed_at").notNull(), // when this quote was first seen
+  frozenAt: timestamp("frozen_at").notNull().defaultNow(),
+}, (table) => [
+  unique("unique_closing_line").on(table.gameId, table.bookmakerId, table.market, table.outcomeType, table.lineKey, table.period),
+]);
+
+// In-play quotes, appended whenever a live line changes, with the game state at capture time
+export const liveOdds = pgTable("live_odds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").notNull().references(() => games.id, { onDelete: 'cascade' }),
+  bookmakerId: varchar("bookmaker_id").notNull().references(() => bookmakers.id),
+  market: varchar("market").notNull(),
+  outcomeType: varchar("outcome_type").notNull(),
+  lineKey: varchar("line_key").notNull().default(''),
+  period: varchar("period").notNull().default(FULL_GAME), // market segment, as on odds
+  price: decimal("price", { precision: 10, scale: 2 }),
+  point: decimal("point", { precision: 5, scale: 1 }),
+  source: varchar("source").notNull(), // feed that reported it, e.g. 'ESPN'
+  homeScore: integer("home_score"),
+  awayScore: integer("away_score"),
+  clockPeriod: varchar("clock_period"), // quarter/period/inning as the feed reports it; not a market period
+  clock: varchar("clock"), // e.g. '7:42'
+  capturedAt: timestamp("captured_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_live_odds_entry").on(table.gameId, table.bookmakerId, table.market, table.outcomeType, table.lineKey, table.period, table.capturedAt),
+]);
+
+// Players, keyed by the feed that reports their props and the sport they play
+export const players = pgTable("players", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sportId: varchar("sport_id").notNull().references(() => sports.id),
+  teamId: varchar("team_id").references(() => teams.id),
+  name: varchar("name").notNull(),
+  position: varchar("position"), // e.g. 'QB', 'PG'
+  provider: varchar("provider").notNull(), // 'SportsDataIO'
+  externalId: varchar("external_id").notNull(), // provider player ID
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("unique_player_external_id").on(table.provider, table.sportId, table.externalId),
+  index("IDX_players_sport_name").on(table.sportId, table.name),
+]);
+
+// Current player prop quotes; one over and one under row per game/player/book/stat
+export const playerProps = pgTable("player_props", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").notNull().references(() => games.id, { onDelete: 'cascade' }),
+  playerId: varchar("player_id").notNull().references(() => players.id, { onDelete: 'cascade' }),
+  bookmakerId: varchar("bookmaker_id").notNull().references(() => bookmakers.id),
+  statType: varchar("stat_type").notNull(), // normalized, e.g. 'passing_yards'
+  outcomeType: varchar("outcome_type").notNull(), // 'over', 'under'
+  price: decimal("price", { precision: 10, scale: 2 }),
+  point: decimal("point", { precision: 6, scale: 1 }), // the line, e.g. 274.5
+  lastUpdate: timestamp("last_update").defaultNow(),
+}, (table) => [
+  unique("unique_player_prop").on(table.gameId, table.playerId, table.bookmakerId, table.statType, table.outcomeType),
+  index("IDX_player_props_player").on(table.playerId),
+]);
+
+// Append-only prop quote history, same change rule as odds_snapshots
+export const playerPropSnapshots = pgTable("player_prop_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gameId: varchar("game_id").notNull().references(() => games.id, { onDelete: 'cascade' }),
+  playerId: varchar("player_id").notNull().references(() => players.id, { onDelete: 'cascade' }),
+  bookmakerId: varchar("bookmaker_id").notNull().references(() => bookmakers.id),
+  statType: varchar("stat_type").notNull(),
+  outcomeType: varchar("outcome_type").notNull(),
+  price: decimal("price", { precision: 10, scale: 2 }),
+  point: decimal("point", { precision: 6, scale: 1 }),
+  observedAt: timestamp("observed_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_player_prop_snapshots_entry").on(table.gameId, table.playerId, table.statType, table.observedAt),
+]);
+
+// Futures / outrights: a market within a competition (sport + season), e.g. 'NFL 2026 Super Bowl Winner'
+export const futuresMarkets = pgTable("futures_markets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sportId: varchar("sport_id").notNull().references(() => sports.id),
+  season: varchar("season").notNull(), // e.g. '2026'
+  name: varchar("name").notNull(), // as the feed names it, e.g. 'Super Bowl Winner'
+  marketType: varchar("market_type").notNull(), // normalized, e.g. 'super_bowl_winner', 'mvp', 'win_total'
+  provider: varchar("provider").notNull(), // 'SportsDataIO'
+  externalId: varchar("external_id").notNull(), // provider market ID
+  settlesAt: timestamp("settles_at"), // when the event it's decided by starts, when known
+  lastUpdate: timestamp("last_update").defaultNow(),
+}, (table) => [
+  unique("unique_futures_market").on(table.provider, table.sportId, table.externalId),
+  index("IDX_futures_markets_sport_season").on(table.sportId, table.season),
+]);
+
+// Current futures quotes; one row per selection/outcome at each book
+export const futuresOdds = pgTable("futures_odds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  marketId: varchar("market_id").notNull().references(() => futuresMarkets.id, { onDelete: 'cascade' }),
+  bookmakerId: varchar("bookmaker_id").notNull().references(() => bookmakers.id),
+  selection: varchar("selection").notNull(), // team or player name, e.g. 'Kansas City Chiefs'
+  selectionKey: varchar("selection_key").notNull(), // normalized selection, for matching across books
+  teamId: varchar("team_id").references(() => teams.id),
+  outcomeType: varchar("outcome_type").notNull(), // 'yes', 'no', 'over', 'under'
+  price: decimal("price", { precision: 10, scale: 2 }),
+  point: decimal("point", { precision: 6, scale: 1 }), // win totals and other over/under futures
+  lastUpdate: timestamp("last_update").defaultNow(),
+}, (table) => [
+  unique("unique_futures_odds").on(table.marketId, table.bookmakerId, table.selectionKey, table.outcomeType),
+]);
+
+// Append-only futures quote history, same change rule as odds_snapshots
+export const futuresSnapshots = pgTable("futures_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  marketId: varchar("market_id").notNull().references(() => futuresMarkets.id, { onDelete: 'cascade' }),
+  bookmakerId: varchar("bookmaker_id").notNull().references(() => bookmakers.id),
+  selectionKey: varchar("selection_key").notNull(),
+  outcomeType: varchar("outcome_type").notNull(),
+  price: decimal("price", { precision: 10, scale: 2 }),
+  point: decimal("point", { precision: 6, scale: 1 }),
+  observedAt: timestamp("observed_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_futures_snapshots_entry").on(table.marketId, table.selectionKey, table.observedAt),
 ]);
 
 // Line movement history
 export const lineMovements = pgTable("line_movements", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   gameId: varchar("game_id").notNull().references(() => games.id, { onDelete: 'cascade' }),
+  bookmakerId: varchar("bookmaker_id").references(() => bookmakers.id),
   market: varchar("market").notNull(),
-  oldValue: decimal("old_value", { precision: 5, scale: 1 }),
-  newValue: decimal("new_value", { precision: 5, scale: 1 }),
-  movement: decimal("movement", { precision: 5, scale: 1 }),
+  outcomeType: varchar("outcome_type"),
+  period: varchar("period").notNull().default(FULL_GAME),
+  // Point for spreads/totals, American price for PRICE_MARKETS
+  oldValue: decimal("old_value", { precision: 10, scale: 1 }),
+  newValue: decimal("new_value", { precision: 10, scale: 1 }),
+  // Points for spreads/totals; implied-probability percentage points for price markets
+  movement: decimal("movement", { precision: 10, scale: 1 }),
+  unit: varchar("unit").notNull().default('points'), // what `movement` counts: 'points' or 'probability'
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
+// Outbound provider calls per endpoint/sport/day, for quota tracking
+export const providerUsage = pgTable("provider_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: varchar("provider").notNull(), // 'sportsdataio', 'espn', 'rapidapi'
+  endpoint: varchar("endpoint").notNull(), // URL path with IDs collapsed, e.g. '/v3/nfl/odds/json/GameOddsByWeek/:n/:n'
+  sport: varchar("sport").notNull().default(''), // '' when the call isn't sport-specific
+  day: date("day", { mode: "string" }).notNull(), // UTC
+  requests: integer("requests").notNull().default(0),
+  errors: integer("errors").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("unique_provider_usage").on(table.provider, table.endpoint, table.sport, table.day),
+]);
+
+// One row per provider sync attempt (per sport), successful or not
+export const syncRuns = pgTable("sync_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sport: varchar("sport").notNull(),
+  source: varchar("source").notNull(), // provider that served the data, or 'none'
+  trigger: varchar("trigger").notNull(), // 'manual', 'scheduled', 'route'
+  status: varchar("status").notNull(), // 'success', 'empty', 'failed'
+  gamesUpdated: integer("games_updated").notNull().default(0),
+  oddsUpdated: integer("odds_updated").notNull().default(0),
+  booksUpdated: integer("books_updated").notNull().default(0),
+  gamesSkipped: integer("games_skipped").notNull().default(0),
+  errors: text("errors").array().notNull().default(sql`'{}'::text[]`),
+  startedAt: timestamp("started_at").notNull(),
+  finishedAt: timestamp("finished_at").notNull(),
+  durationMs: integer("duration_ms").notNull(),
+}, (table) => [
+  index("IDX_sync_runs_sport_started").on(table.sport, table.startedAt),
+]);
+
+// Per-sport sync cadence, tiered by how soon the sport's next game starts
+export const syncSchedules = pgTable("sync_schedules", {
+  sport: varchar("sport").primaryKey(),
+  enabled: boolean("enabled").notNull().default(true),
+  preferredSource: varchar("preferred_source"), // tried first, e.g. 'ESPN'
+  nearWindowMinutes: integer("near_window_minutes").notNull().default(120), // "near kickoff"
+  nearIntervalSeconds: integer("near_interval_seconds").notNull().default(60),
+  dayIntervalSeconds: integer("day_interval_seconds").notNull().default(600), // next game within 24h
+  farIntervalSeconds: integer("far_interval_seconds").notNull().default(3600), // next game days out
+  offseasonDays: integer("offseason_days").notNull().default(14), // no game this soon -> paused
+  pausedIntervalSeconds: integer("paused_interval_seconds").notNull().default(86400), // offseason probe for new schedules
+  liveEnabled: boolean("live_enabled").notNull().default(false), // capture in-play odds while games are in progress
+  liveIntervalSeconds: integer("live_interval_seconds").notNull().default(30),
+  propsEnabled: boolean("props_enabled").notNull().default(false), // also pull player props on each sync (SportsDataIO only)
+  futuresEnabled: boolean("futures_enabled").notNull().default(false), // also pull futures, at most every few hours
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  lastReason: varchar("last_reason"), // why nextRunAt was chosen
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Leader-election leases; a row is held until expiresAt unless its holder renews it
+export const syncLeases = pgTable("sync_leases", {
+  name: varchar("name").primaryKey(), // e.g. 'odds-sync-scheduler'
+  holderId: varchar("holder_id").notNull(), // `${hostname}:${pid}:${random}`
+  holderHost: varchar("holder_host"),
+  acquiredAt: timestamp("acquired_at").notNull(),
+  renewedAt: timestamp("renewed_at").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// Provider data the pipeline rejected, kept with the raw payload so it can be inspected and re-run
+export const quarantinedItems = pgTable("quarantined_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: varchar("provider").notNull(),
+  sport: varchar("sport").notNull(),
+  externalId: varchar("external_id").notNull(), // provider event ID
+  kind: varchar("kind").notNull(), // 'event', 'outcome'
+  reason: varchar("reason").notNull(), // 'missing_teams', 'invalid_commence_time', 'unmapped_outcome'
+  fingerprint: varchar("fingerprint").notNull().default(''), // distinguishes outcomes within an event: book|market|name
+  detail: text("detail"),
+  payload: jsonb("payload").notNull(), // latest sighting
+  seenCount: integer("seen_count").notNull().default(1),
+  firstSeenAt: timestamp("first_seen_at").defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow(),
+  resolvedAt: timestamp("resolved_at"), // set when a reprocess succeeds or the game starts; cleared if it's rejected again
+  resolution: varchar("resolution"), // 'reprocessed', 'game_started' (expired: the game is no longer pregame)
+}, (table) => [
+  unique("unique_quarantined_item").on(table.provider, table.externalId, table.reason, table.fingerprint),
+  index("IDX_quarantined_items_last_seen").on(table.lastSeenAt),
+]);
+
 // User favorites
 export const userFavorites = pgTable("user_favorites", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -116,21 +442,98 @@ export const usersRelations = relations(users, ({ many }) => ({
   alerts: many(userAlerts),
 }));
 
+export const teamsRelations = relations(teams, ({ one, many }) => ({
+  sport: one(sports, { fields: [teams.sportId], references: [sports.id] }),
+  players: many(players),
+}));
+
+export const playersRelations = relations(players, ({ one, many }) => ({
+  sport: one(sports, { fields: [players.sportId], references: [sports.id] }),
+  team: one(teams, { fields: [players.teamId], references: [teams.id] }),
+  props: many(playerProps),
+}));
+
 export const gamesRelations = relations(games, ({ one, many }) => ({
   sport: one(sports, { fields: [games.sportId], references: [sports.id] }),
+  homeTeamRef: one(teams, { fields: [games.homeTeamId], references: [teams.id] }),
+  awayTeamRef: one(teams, { fields: [games.awayTeamId], references: [teams.id] }),
+  externalIds: many(gameExternalIds),
   odds: many(odds),
+  oddsSnapshots: many(oddsSnapshots),
+  openingLines: many(openingLines),
+  closingLines: many(closingLines),
+  liveOdds: many(liveOdds),
+  playerProps: many(playerProps),
   lineMovements: many(lineMovements),
   userFavorites: many(userFavorites),
   userAlerts: many(userAlerts),
 }));
 
+export const gameExternalIdsRelations = relations(gameExternalIds, ({ one }) => ({
+  game: one(games, { fields: [gameExternalIds.gameId], references: [games.id] }),
+}));
+
+export const bookmakerAliasesRelations = relations(bookmakerAliases, ({ one }) => ({
+  bookmaker: one(bookmakers, { fields: [bookmakerAliases.bookmakerId], references: [bookmakers.id] }),
+}));
+
 export const oddsRelations = relations(odds, ({ one }) => ({
   game: one(games, { fields: [odds.gameId], references: [games.id] }),
   bookmaker: one(bookmakers, { fields: [odds.bookmakerId], references: [bookmakers.id] }),
 }));
 
+export const oddsSnapshotsRelations = relations(oddsSnapshots, ({ one }) => ({
+  game: one(games, { fields: [oddsSnapshots.gameId], references: [games.id] }),
+  bookmaker: one(bookmakers, { fields: [oddsSnapshots.bookmakerId], references: [bookmakers.id] }),
+}));
+
+export const openingLinesRelations = relations(openingLines, ({ one }) => ({
+  game: one(games, { fields: [openingLines.gameId], references: [games.id] }),
+  bookmaker: one(bookmakers, { fields: [openingLines.bookmakerId], references: [bookmakers.id] }),
+}));
+
+export const closingLinesRelations = relations(closingLines, ({ one }) => ({
+  game: one(games, { fields: [closingLines.gameId], references: [games.id] }),
+  bookmaker: one(bookmakers, { fields: [closingLines.bookmakerId], references: [bookmakers.id] }),
+}));
+
+export const liveOddsRelations = relations(liveOdds, ({ one }) => ({
+  game: one(games, { fields: [liveOdds.gameId], references: [games.id] }),
+  bookmaker: one(bookmakers, { fields: [liveOdds.bookmakerId], references: [bookmakers.id] }),
+}));
+
+export const playerPropsRelations = relations(playerProps, ({ one }) => ({
+  game: one(games, { fields: [playerProps.gameId], references: [games.id] }),
+  player: one(players, { fields: [playerProps.playerId], references: [players.id] }),
+  bookmaker: one(bookmakers, { fields: [playerProps.bookmakerId], references: [bookmakers.id] }),
+}));
+
+export const playerPropSnapshotsRelations = relations(playerPropSnapshots, ({ one }) => ({
+  game: one(games, { fields: [playerPropSnapshots.gameId], references: [games.id] }),
+  player: one(players, { fields: [playerPropSnapshots.playerId], references: [players.id] }),
+  bookmaker: one(bookmakers, { fields: [playerPropSnapshots.bookmakerId], references: [bookmakers.id] }),
+}));
+
+export const futuresMarketsRelations = relations(futuresMarkets, ({ one, many }) => ({
+  sport: one(sports, { fields: [futuresMarkets.sportId], references: [sports.id] }),
+  odds: many(futuresOdds),
+  snapshots: many(futuresSnapshots),
+}));
+
+export const futuresOddsRelations = relations(futuresOdds, ({ one }) => ({
+  market: one(futuresMarkets, { fields: [futuresOdds.marketId], references: [futuresMarkets.id] }),
+  bookmaker: one(bookmakers, { fields: [futuresOdds.bookmakerId], references: [bookmakers.id] }),
+  team: one(teams, { fields: [futuresOdds.teamId], references: [teams.id] }),
+}));
+
+export const futuresSnapshotsRelations = relations(futuresSnapshots, ({ one }) => ({
+  market: one(futuresMarkets, { fields: [futuresSnapshots.marketId], references: [futuresMarkets.id] }),
+  bookmaker: one(bookmakers, { fields: [futuresSnapshots.bookmakerId], references: [bookmakers.id] }),
+}));
+
 export const lineMovementsRelations = relations(lineMovements, ({ one }) => ({
   game: one(games, { fields: [lineMovements.gameId], references: [games.id] }),
+  bookmaker: one(bookmakers, { fields: [lineMovements.bookmakerId], references: [bookmakers.id] }),
 }));
 
 export const userFavoritesRelations = relations(userFavorites, ({ one }) => ({
@@ -145,10 +548,14 @@ export const userAlertsRelations = relations(userAlerts, ({ one }) => ({
 
 // Insert schemas
 export const insertSportSchema = createInsertSchema(sports);
+export const insertTeamSchema = createInsertSchema(teams).omit({ id: true, createdAt: true });
 export const insertGameSchema = createInsertSchema(games);
 export const insertBookmakerSchema = createInsertSchema(bookmakers);
+export const insertBookmakerAliasSchema = createInsertSchema(bookmakerAliases).omit({ id: true, createdAt: true });
 export const insertOddsSchema = createInsertSchema(odds);
+export const insertOddsSnapshotSchema = createInsertSchema(oddsSnapshots);
 export const insertLineMovementSchema = createInsertSchema(lineMovements);
+export const insertSyncScheduleSchema = createInsertSchema(syncSchedules).omit({ nextRunAt: true, lastRunAt: true, lastReason: true, updatedAt: true });
 export const insertUserFavoriteSchema = createInsertSchema(userFavorites).omit({ id: true, createdAt: true });
 export const insertUserAlertSchema = createInsertSchema(userAlerts).omit({ id: true, createdAt: true });
 
@@ -156,10 +563,38 @@ export const insertUserAlertSchema = createInsertSchema(userAlerts).omit({ id: t
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type Sport = typeof sports.$inferSelect;
+export type Team = typeof teams.$inferSelect;
+export type InsertTeam = z.infer<typeof insertTeamSchema>;
 export type Game = typeof games.$inferSelect;
+export type GameExternalId = typeof gameExternalIds.$inferSelect;
 export type Bookmaker = typeof bookmakers.$inferSelect;
+export type BookmakerAlias = typeof bookmakerAliases.$inferSelect;
+export type InsertBookmakerAlias = z.infer<typeof insertBookmakerAliasSchema>;
 export type Odds = typeof odds.$inferSelect;
+export type OddsSnapshot = typeof oddsSnapshots.$inferSelect;
+export type OpeningLine = typeof openingLines.$inferSelect;
+export type ClosingLine = typeof closingLines.$inferSelect;
+export type LiveOdds = typeof liveOdds.$inferSelect;
+export type InsertLiveOdds = typeof liveOdds.$inferInsert;
+export type Player = typeof players.$inferSelect;
+export type InsertPlayer = typeof players.$inferInsert;
+export type PlayerProp = typeof playerProps.$inferSelect;
+export type InsertPlayerProp = typeof playerProps.$inferInsert;
+export type PlayerPropSnapshot = typeof playerPropSnapshots.$inferSelect;
+export type FuturesMarket = typeof futuresMarkets.$inferSelect;
+export type InsertFuturesMarket = typeof futuresMarkets.$inferInsert;
+export type FuturesOdds = typeof futuresOdds.$inferSelect;
+export type InsertFuturesOdds = typeof futuresOdds.$inferInsert;
+export type FuturesSnapshot = typeof futuresSnapshots.$inferSelect;
 export type LineMovement = typeof lineMovements.$inferSelect;
+export type ProviderUsage = typeof providerUsage.$inferSelect;
+export type SyncRun = typeof syncRuns.$inferSelect;
+export type InsertSyncRun = typeof syncRuns.$inferInsert;
+export type SyncSchedule = typeof syncSchedules.$inferSelect;
+export type SyncLease = typeof syncLeases.$inferSelect;
+export type QuarantinedItem = typeof quarantinedItems.$inferSelect;
+export type InsertQuarantinedItem = typeof quarantinedItems.$inferInsert;
+export type InsertSyncSchedule = z.infer<typeof insertSyncScheduleSchema>;
 export type UserFavorite = typeof userFavorites.$inferSelect;
 export type UserAlert = typeof userAlerts.$inferSelect;
 export type InsertUserFavorite = z.infer<typeof insertUserFavoriteSchema>;